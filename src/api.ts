@@ -0,0 +1,591 @@
+import { readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import type { ApiSymbol, ApiSymbolKind } from './types.js';
+import type { ExportsField } from './exports.js';
+import { fileExists, readJson } from './utils.js';
+
+/** Maximum number of files followed through re-exports */
+const MAX_API_FILES = 50;
+
+/** Maximum number of symbols extracted per package */
+const MAX_API_SYMBOLS = 200;
+
+/** Maximum signature length before it is cut */
+const MAX_SIGNATURE_LENGTH = 300;
+
+/** Maximum JSDoc summary length before it is cut */
+const MAX_DESCRIPTION_LENGTH = 300;
+
+/** Maximum number of members listed per class, interface or enum */
+const MAX_MEMBERS = 30;
+
+/** Files longer than this are only partly scanned */
+const MAX_SOURCE_LENGTH = 1_000_000;
+
+/** Extensions tried when resolving a relative import, in order */
+const SOURCE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.d.ts',
+  '.d.mts',
+  '.d.cts',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+];
+
+/** Conventional source entry files, tried when package.json doesn't lead to one */
+const DEFAULT_SOURCE_ENTRIES = [
+  'src/index.ts',
+  'src/index.tsx',
+  'src/index.mts',
+  'index.ts',
+  'index.tsx',
+  'src/index.js',
+  'src/index.mjs',
+  'index.js',
+  'index.mjs',
+];
+
+/** Build output folders that usually mirror `src/` */
+const BUILD_DIRS = /^(\.\/)?(dist|lib|build|out|esm|cjs)\//;
+
+interface PackageJson {
+  exports?: ExportsField;
+  source?: string;
+  types?: string;
+  typings?: string;
+  module?: string;
+  main?: string;
+}
+
+/**
+ * A top-level declaration found in a module
+ */
+interface Declaration {
+  kind: ApiSymbolKind;
+  signature: string;
+  members?: string[];
+  description?: string;
+  deprecated?: boolean;
+}
+
+/**
+ * What a module declares and exports
+ */
+export interface ModuleExports {
+  /** Top-level declarations by local name (exported or not) */
+  declarations: Map<string, Declaration>;
+  /** Exported names mapped to their local declaration name */
+  exports: Map<string, string>;
+  /** `export * from` / `export { a as b } from` statements, in source order */
+  reExports: { from: string; names?: Map<string, string>; namespace?: string }[];
+}
+
+const DECLARATION_PATTERN =
+  /^(export\s+)?(?:declare\s+)?(default\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|const\s+enum|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+
+const EXPORT_LIST_PATTERN = /^export\s+(type\s+)?\{([^}]*)\}\s*(?:from\s+['"]([^'"]+)['"])?/gm;
+
+const EXPORT_ALL_PATTERN =
+  /^export\s+\*\s*(?:as\s+([A-Za-z_$][\w$]*)\s+)?from\s+['"]([^'"]+)['"]/gm;
+
+const EXPORT_DEFAULT_NAME_PATTERN = /^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/gm;
+
+const EXPORT_ASSIGNMENT_PATTERN = /^export\s*=\s*([A-Za-z_$][\w$]*)\s*;?\s*$/gm;
+
+/** Modifiers of members that aren't part of the public API */
+const NON_PUBLIC_MEMBER =
+  /^(?:(?:public|static|readonly|abstract|override|declare)\s+)*(?:private\b|protected\b|#)/;
+
+/**
+ * Read access to a package's files, relative to its root
+ */
+export interface ApiFiles {
+  readText(relPath: string): Promise<string | null>;
+  exists(relPath: string): Promise<boolean>;
+}
+
+/**
+ * Find the JSDoc block that ends right before a position, if any
+ */
+function findJsDoc(source: string, position: number): string | null {
+  const before = source.slice(0, position).trimEnd();
+  if (!before.endsWith('*/')) return null;
+
+  const start = before.lastIndexOf('/**');
+  // The closing "*/" must belong to this block, not to a later plain comment
+  if (start === -1 || before.slice(start, -2).includes('*/')) return null;
+  return before.slice(start);
+}
+
+/**
+ * Read the summary and @deprecated tag from a JSDoc block
+ */
+export function parseJsDoc(comment: string): { description?: string; deprecated?: boolean } {
+  const lines = comment
+    .replace(/^\/\*\*|\*\/$/g, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\* ?/, '').trimEnd());
+
+  const tagIndex = lines.findIndex(line => line.trimStart().startsWith('@'));
+  const summary = (tagIndex === -1 ? lines : lines.slice(0, tagIndex))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    description: summary ? truncate(summary, MAX_DESCRIPTION_LENGTH) : undefined,
+    deprecated: lines.some(line => /^\s*@deprecated\b/.test(line)) || undefined,
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength - 3) + '...' : text;
+}
+
+/**
+ * Read a declaration up to its body (or initializer), collapsing whitespace
+ *
+ * @returns The signature, and where it ends (the opening brace of a body)
+ */
+function readSignature(
+  source: string,
+  start: number,
+  kind: ApiSymbolKind
+): { signature: string; end: number } {
+  let depth = 0;
+  let end = start;
+
+  for (; end < source.length; end++) {
+    const char = source[end];
+    const prev = source[end - 1];
+
+    if (char === '(' || char === '[' || char === '<') depth++;
+    else if (char === ')' || char === ']' || (char === '>' && prev !== '=')) depth--;
+    else if (char === '{') {
+      // A brace right after ":" opens a type literal (e.g. a return type), not the body
+      const opensBody =
+        kind !== 'type' &&
+        kind !== 'const' &&
+        kind !== 'variable' &&
+        !/:\s*$/.test(source.slice(start, end));
+      if (depth === 0 && opensBody) break;
+      depth++;
+    } else if (char === '}') depth--;
+    else if (depth <= 0) {
+      if (char === ';') break;
+      if (char === '=' && source[end + 1] !== '>' && (kind === 'const' || kind === 'variable')) {
+        break;
+      }
+      if (char === '\n' && kind === 'type' && /=\s*\S/.test(source.slice(start, end))) {
+        // Multi-line unions continue on lines starting with "|" or "&"
+        if (!/^\s*[|&]/.test(source.slice(end + 1, end + 200))) break;
+      }
+    }
+  }
+
+  let signature = source.slice(start, end);
+  if (source[end] === '=' && (kind === 'const' || kind === 'variable')) {
+    const arrow = readArrowHead(source, end + 1);
+    if (arrow) signature += `= ${arrow} ...`;
+  }
+
+  return {
+    signature: truncate(
+      signature
+        .replace(/^export\s+/, '')
+        .replace(/^declare\s+/, '')
+        .replace(/\s+/g, ' ')
+        .trim(),
+      MAX_SIGNATURE_LENGTH
+    ),
+    end,
+  };
+}
+
+/**
+ * Find the end of a string literal starting at a position
+ */
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') i++;
+    else if (source[i] === quote) return i;
+  }
+  return source.length;
+}
+
+/**
+ * Find the brace closing the block opened at a position
+ */
+function skipBlock(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    const char = source[i];
+    if (char === "'" || char === '"' || char === '`') i = skipString(source, i);
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return i;
+  }
+  return source.length;
+}
+
+/**
+ * Read the public members of a class, interface or enum body
+ *
+ * Comments, method bodies, property initializers and private or protected
+ * members are left out.
+ */
+function readMembers(source: string, open: number, kind: ApiSymbolKind): string[] {
+  const members: string[] = [];
+  const separator = kind === 'enum' ? ',' : ';';
+  let depth = 0;
+  let current = '';
+  // Inside a property initializer, which is dropped
+  let initializer = false;
+
+  const flush = () => {
+    const member = current
+      .replace(/\s+/g, ' ')
+      .replace(/^(?:public|declare)\s+/, '')
+      .trim();
+    current = '';
+    initializer = false;
+    if (member && member !== 'static' && !NON_PUBLIC_MEMBER.test(member)) {
+      members.push(truncate(member, MAX_SIGNATURE_LENGTH));
+    }
+  };
+
+  for (let i = open + 1; i < source.length; i++) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '/' && (next === '*' || next === '/')) {
+      const close = next === '*' ? source.indexOf('*/', i + 2) + 1 : source.indexOf('\n', i);
+      if (close <= 0) break;
+      i = close;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      const close = skipString(source, i);
+      if (!initializer) current += source.slice(i, close + 1);
+      i = close;
+      continue;
+    }
+
+    if (depth === 0) {
+      if (char === '}') break;
+      if (char === separator) {
+        flush();
+        continue;
+      }
+      if (kind === 'class' && !initializer) {
+        if (char === '=' && next !== '>') {
+          initializer = true;
+          continue;
+        }
+        // A brace that doesn't follow ":" opens a method body
+        if (char === '{' && !/:\s*$/.test(current)) {
+          i = skipBlock(source, i);
+          flush();
+          continue;
+        }
+      }
+    }
+
+    if (char === '(' || char === '[' || char === '{') depth++;
+    else if (char === ')' || char === ']' || char === '}') depth--;
+    else if (!initializer && char === '<') depth++;
+    else if (!initializer && char === '>' && source[i - 1] !== '=') depth--;
+
+    if (!initializer) current += char;
+  }
+  flush();
+
+  if (members.length > MAX_MEMBERS) {
+    const more = members.length - MAX_MEMBERS;
+    return [...members.slice(0, MAX_MEMBERS), `// ... ${more} more`];
+  }
+  return members;
+}
+
+/**
+ * Read the parameters and return type of an arrow function initializer,
+ * up to and including "=>", or null if the initializer isn't an arrow function
+ */
+function readArrowHead(source: string, start: number): string | null {
+  const head = /^\s*(async\s*)?(<[^>]*>\s*)?\(/.exec(source.slice(start, start + 100));
+  if (!head) return null;
+
+  let depth = 0;
+  const limit = Math.min(source.length, start + MAX_SIGNATURE_LENGTH);
+  for (let i = start; i < limit; i++) {
+    const char = source[i];
+    if (char === '(' || char === '[' || char === '{') depth++;
+    else if (char === ')' || char === ']' || char === '}') depth--;
+    else if (char === '=' && source[i + 1] === '>' && depth === 0) {
+      return source.slice(start, i + 2).trim();
+    }
+  }
+  return null;
+}
+
+function toKind(keyword: string): ApiSymbolKind {
+  if (keyword.startsWith('function')) return 'function';
+  if (keyword.endsWith('enum')) return 'enum';
+  if (keyword === 'let' || keyword === 'var') return 'variable';
+  return keyword as ApiSymbolKind;
+}
+
+/**
+ * Parse the top-level declarations and exports of a TypeScript/JavaScript module
+ *
+ * This is a lightweight scanner, not a compiler: it only looks at statements
+ * starting at the beginning of a line, which covers formatted source and
+ * generated `.d.ts` files.
+ */
+export function parseModuleExports(source: string): ModuleExports {
+  const result: ModuleExports = { declarations: new Map(), exports: new Map(), reExports: [] };
+  const reExports: { index: number; reExport: ModuleExports['reExports'][number] }[] = [];
+
+  for (const match of source.matchAll(DECLARATION_PATTERN)) {
+    const [, exported, isDefault, keyword, name] = match;
+    // Anonymous default classes (`export default class extends Base`)
+    if (name === 'extends' || name === 'implements') continue;
+
+    const kind = toKind(keyword);
+    const jsDoc = findJsDoc(source, match.index);
+
+    // Overloads and declaration merging: keep the first (documented) one
+    if (!result.declarations.has(name)) {
+      const { signature, end } = readSignature(source, match.index, kind);
+      const hasMembers =
+        (kind === 'class' || kind === 'interface' || kind === 'enum') && source[end] === '{';
+      result.declarations.set(name, {
+        kind,
+        signature,
+        ...(hasMembers ? { members: readMembers(source, end, kind) } : {}),
+        ...(jsDoc ? parseJsDoc(jsDoc) : {}),
+      });
+    }
+    if (exported) {
+      result.exports.set(isDefault ? 'default' : name, name);
+    }
+  }
+
+  for (const match of source.matchAll(EXPORT_LIST_PATTERN)) {
+    const [, , list, from] = match;
+    const names = new Map<string, string>();
+    for (const item of list.split(',')) {
+      const parts = item
+        .trim()
+        .replace(/^type\s+/, '')
+        .split(/\s+as\s+/);
+      if (!parts[0]) continue;
+      names.set(parts[1] ?? parts[0], parts[0]);
+    }
+
+    if (from) {
+      reExports.push({ index: match.index, reExport: { from, names } });
+    } else {
+      names.forEach((local, exported) => result.exports.set(exported, local));
+    }
+  }
+
+  for (const match of source.matchAll(EXPORT_ALL_PATTERN)) {
+    reExports.push({ index: match.index, reExport: { from: match[2], namespace: match[1] } });
+  }
+
+  for (const match of source.matchAll(EXPORT_DEFAULT_NAME_PATTERN)) {
+    result.exports.set('default', match[1]);
+  }
+
+  // CommonJS declaration files (`export = express`)
+  for (const match of source.matchAll(EXPORT_ASSIGNMENT_PATTERN)) {
+    result.exports.set(match[1], match[1]);
+  }
+
+  result.reExports = reExports.sort((a, b) => a.index - b.index).map(entry => entry.reExport);
+  return result;
+}
+
+/**
+ * Resolve a relative import to a file, trying TypeScript sources first
+ *
+ * @param fromFile - Importing file, relative to the package root
+ * @returns Resolved file relative to the package root, or null
+ */
+async function resolveImport(
+  files: ApiFiles,
+  fromFile: string,
+  specifier: string
+): Promise<string | null> {
+  if (!specifier.startsWith('.')) return null;
+
+  const base = posix.join(posix.dirname(fromFile), specifier);
+  // Imports can't leave the package
+  if (base.startsWith('../')) return null;
+
+  // TS sources import "./x.js" to mean "./x.ts"
+  const stripped = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    ...SOURCE_EXTENSIONS.map(ext => stripped + ext),
+    base,
+    ...SOURCE_EXTENSIONS.map(ext => posix.join(base, `index${ext}`)),
+  ];
+
+  for (const candidate of candidates) {
+    if (/\.[cm]?[jt]sx?$/.test(candidate) && (await files.exists(candidate))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the first path out of an `exports` value, preferring source and types
+ */
+function pickExportTarget(value: ExportsField | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = pickExportTarget(item);
+      if (target) return target;
+    }
+    return null;
+  }
+
+  // Subpath map: use the main entry
+  if (Object.keys(value).some(key => key.startsWith('.'))) {
+    return pickExportTarget(value['.']);
+  }
+
+  for (const condition of ['source', 'types', 'import', 'default', 'require', 'node']) {
+    const target = pickExportTarget(value[condition]);
+    if (target) return target;
+  }
+  return null;
+}
+
+/**
+ * Find the source entry file of a local package
+ *
+ * Follows package.json (`source`, `exports`, `types`, `module`, `main`), mapping
+ * build output such as `dist/index.js` back to `src/index.ts` when the source
+ * exists, then falls back to conventional entries like `src/index.ts`.
+ *
+ * @returns Entry path relative to the package root, or null if none exists
+ */
+export async function findSourceEntry(packagePath: string): Promise<string | null> {
+  const pkg = await readJson<PackageJson>(join(packagePath, 'package.json'));
+  const targets = [
+    pkg?.source,
+    pickExportTarget(pkg?.exports),
+    pkg?.types,
+    pkg?.typings,
+    pkg?.module,
+    pkg?.main,
+  ].filter((target): target is string => typeof target === 'string');
+
+  const candidates: string[] = [];
+  for (const target of targets) {
+    const normalized = posix.normalize(target.replace(/\\/g, '/'));
+    const sourcePath = normalized.replace(BUILD_DIRS, 'src/').replace(/(\.d)?\.[cm]?[jt]sx?$/, '');
+    candidates.push(...['.ts', '.tsx', '.mts'].map(ext => sourcePath + ext), normalized);
+  }
+  candidates.push(...DEFAULT_SOURCE_ENTRIES);
+
+  for (const candidate of candidates) {
+    if (/\.[cm]?[jt]sx?$/.test(candidate) && (await fileExists(join(packagePath, candidate)))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the exported symbols of a package, following relative re-exports
+ *
+ * Works on source files as well as declaration files (`.d.ts`).
+ *
+ * @param packagePath - Package root, or file access for packages in archives
+ * @param entry - Entry file relative to the package root
+ * @returns Exported symbols in source order (at most 200)
+ */
+export async function extractApi(
+  packagePath: string | ApiFiles,
+  entry: string
+): Promise<ApiSymbol[]> {
+  const files: ApiFiles =
+    typeof packagePath === 'string'
+      ? {
+          readText: relPath => readFile(join(packagePath, relPath), 'utf-8').catch(() => null),
+          exists: relPath => fileExists(join(packagePath, relPath)),
+        }
+      : packagePath;
+  const collected = new Map<string, ApiSymbol[]>();
+  const visited = new Set<string>();
+
+  const collect = async (file: string): Promise<ApiSymbol[]> => {
+    const cached = collected.get(file);
+    if (cached) return cached;
+    // Circular re-exports, or too many files
+    if (visited.has(file) || visited.size >= MAX_API_FILES) return [];
+    visited.add(file);
+
+    const source = await files.readText(file);
+    if (source === null) return [];
+
+    const module = parseModuleExports(source.slice(0, MAX_SOURCE_LENGTH));
+    const symbols: ApiSymbol[] = [];
+
+    for (const [name, local] of module.exports) {
+      const declaration = module.declarations.get(local);
+      if (declaration) {
+        symbols.push({ name, ...declaration, source: file });
+      }
+    }
+
+    for (const reExport of module.reExports) {
+      const target = await resolveImport(files, file, reExport.from);
+      if (!target) continue;
+
+      if (reExport.namespace) {
+        symbols.push({
+          name: reExport.namespace,
+          kind: 'namespace',
+          signature: `namespace ${reExport.namespace}`,
+          description: `Everything exported from \`${target}\`.`,
+          source: target,
+        });
+        continue;
+      }
+
+      const targetSymbols = await collect(target);
+      if (!reExport.names) {
+        symbols.push(...targetSymbols.filter(symbol => symbol.name !== 'default'));
+        continue;
+      }
+      for (const [exported, imported] of reExport.names) {
+        const symbol = targetSymbols.find(s => s.name === imported);
+        if (symbol) symbols.push({ ...symbol, name: exported });
+      }
+    }
+
+    collected.set(file, symbols);
+    return symbols;
+  };
+
+  const seen = new Set<string>();
+  const symbols = (await collect(posix.normalize(entry.replace(/\\/g, '/')))).filter(symbol => {
+    if (seen.has(symbol.name)) return false;
+    seen.add(symbol.name);
+    return true;
+  });
+  return symbols.slice(0, MAX_API_SYMBOLS);
+}
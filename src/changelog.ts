@@ -0,0 +1,208 @@
+import type { ChangelogEntry } from './types.js';
+import { compareVersions } from './utils.js';
+
+/** Versions shown before the installed one (`changelogVersions` default) */
+export const DEFAULT_CHANGELOG_VERSIONS = 3;
+
+/** Lines of one entry shown in a skill file, the rest are counted */
+const MAX_ENTRY_LINES = 80;
+
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Version at the start of a heading: "1.2.3", "v1.2.3", "[1.2.3]",
+ * "pkg@1.2.3" (changesets), "Version 1.2.3"
+ */
+const VERSION_HEADING =
+  /^(?:[\w@/.-]*@|(?:version|release)\s+)?v?(\d+\.\d+(?:\.\d+)?(?:-[0-9A-Za-z.-]+)?)(?![\w.])/i;
+
+/** Breaking changes: conventional-changelog notes, changesets majors, `feat!:` commits */
+const BREAKING_CHANGE =
+  /BREAKING[ -]CHANGES?|^#{1,6}\s+major changes\b|^\s*[-*]\s+(\*\*)?\w+(\([^)]*\))?!:/im;
+
+/**
+ * Remove link targets from a heading ("[1.2.3](url) (date)" → "1.2.3 (date)")
+ */
+function cleanHeading(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]/g, '$1')
+    .trim();
+}
+
+/**
+ * Read the version a changelog heading is about, as "major.minor.patch[-pre]"
+ */
+function readVersion(heading: string): string | null {
+  const match = VERSION_HEADING.exec(heading);
+  if (!match) return null;
+  const [core, ...pre] = match[1].split('-');
+  const parts = core.split('.');
+  if (parts.length === 2) parts.push('0');
+  return [parts.join('.'), ...pre].join('-');
+}
+
+/**
+ * Check whether an entry has breaking changes: explicitly noted, or a new
+ * major version
+ */
+function isBreaking(version: string, title: string, content: string): boolean {
+  return BREAKING_CHANGE.test(`${title}\n${content}`) || /^[1-9]\d*\.0\.0$/.test(version);
+}
+
+/**
+ * Parse a changelog into one entry per version
+ *
+ * Understands the common formats: Keep a Changelog (`## [1.2.3] - 2024-01-31`),
+ * conventional-changelog (`## [1.2.3](compare-url) (2024-01-31)`), changesets
+ * (`## 1.2.3` with `### Major Changes`) and plain `# v1.2.3` or setext headings.
+ * Entries are returned in file order; sections without a version (such as
+ * "Unreleased") are skipped.
+ *
+ * @param changelog - Changelog content
+ */
+export function parseChangelog(changelog: string): ChangelogEntry[] {
+  const lines = changelog.split('\n');
+  const entries: ChangelogEntry[] = [];
+  let current: { entry: Omit<ChangelogEntry, 'content' | 'breaking'>; body: string[] } | null =
+    null;
+  // Top heading level of the versions found so far (1 for `#`)
+  let versionLevel = 0;
+  let inFence = false;
+
+  const finish = () => {
+    if (!current) return;
+    // Link reference definitions ("[1.1.0]: https://...") only serve the headings
+    const body = current.body.filter(line => !/^\[[^\]]+\]:\s*\S+\s*$/.test(line));
+    const content = body.join('\n').trim();
+    const { version, title } = current.entry;
+    entries.push({ ...current.entry, content, breaking: isBreaking(version, title, content) });
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE.test(line)) inFence = !inFence;
+
+    let heading: { level: number; text: string; setext?: boolean } | null = null;
+    if (!inFence) {
+      const atx = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+      const underline = /^(=+|-+)\s*$/.exec(lines[i + 1] ?? '');
+      if (atx) {
+        heading = { level: atx[1].length, text: cleanHeading(atx[2]) };
+      } else if (underline && line.trim() && readVersion(cleanHeading(line))) {
+        const level = underline[1].startsWith('=') ? 1 : 2;
+        heading = { level, text: cleanHeading(line), setext: true };
+      }
+    }
+
+    // Any heading starting with a version is an entry: conventional-changelog
+    // puts major and minor releases at level 1 and patches at level 2
+    const version = heading ? readVersion(heading.text) : null;
+    if (heading && version) {
+      finish();
+      versionLevel = versionLevel ? Math.min(versionLevel, heading.level) : heading.level;
+      const date = /\b(\d{4}-\d{2}-\d{2})\b/.exec(heading.text)?.[1];
+      current = {
+        entry: { version, title: heading.text, level: heading.level, ...(date && { date }) },
+        body: [],
+      };
+      if (heading.setext) i++;
+      continue;
+    }
+
+    // Another heading at the version level ("Unreleased", "Older releases") ends the entry
+    if (heading && heading.level <= versionLevel) {
+      finish();
+      continue;
+    }
+    current?.body.push(line);
+  }
+  finish();
+
+  return entries;
+}
+
+/**
+ * Pick the entries of a version and the ones released before it, newest first
+ *
+ * Works for changelogs in either order; entries of newer and unreleased
+ * versions are left out.
+ *
+ * @param entries - Parsed changelog entries
+ * @param version - Installed version
+ * @param count - Number of entries to keep
+ */
+export function selectChangelogEntries(
+  entries: ChangelogEntry[],
+  version: string,
+  count: number
+): ChangelogEntry[] {
+  return entries
+    .filter(entry => compareVersions(entry.version, version) <= 0)
+    .sort((a, b) => compareVersions(b.version, a.version))
+    .slice(0, count);
+}
+
+/**
+ * Pick the entries of the versions after `from` up to `to`, newest first
+ */
+export function selectChangelogEntriesSince(
+  entries: ChangelogEntry[],
+  from: string,
+  to: string
+): ChangelogEntry[] {
+  return entries
+    .filter(
+      entry => compareVersions(entry.version, from) > 0 && compareVersions(entry.version, to) <= 0
+    )
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
+/**
+ * Check whether an upgrade is breaking: a new major version (or minor
+ * version before 1.0), or an entry with breaking changes
+ */
+export function isBreakingUpgrade(from: string, to: string, entries: ChangelogEntry[]): boolean {
+  const major = (version: string) => {
+    const [first, second] = version.replace(/^v/, '').split('.');
+    return first === '0' ? `0.${second}` : first;
+  };
+  return major(from) !== major(to) || entries.some(entry => entry.breaking);
+}
+
+/**
+ * Format changelog entries as Markdown, with entry headings at the given
+ * level and breaking changes marked
+ */
+export function formatChangelogEntries(entries: ChangelogEntry[], level = 3): string[] {
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    lines.push(`${'#'.repeat(level)} ${entry.title}${entry.breaking ? ' **BREAKING**' : ''}`);
+    lines.push('');
+
+    // Nest the entry's own headings below the entry heading
+    const shift = level - entry.level;
+    let inFence = false;
+    const body = entry.content.split('\n').map(line => {
+      if (FENCE.test(line)) inFence = !inFence;
+      const heading = inFence ? null : /^(#{1,6})(\s.*)$/.exec(line);
+      if (!heading) return line;
+      return `${'#'.repeat(Math.min(6, Math.max(1, heading[1].length + shift)))}${heading[2]}`;
+    });
+
+    if (entry.content) {
+      const kept = body.slice(0, MAX_ENTRY_LINES);
+      if (kept.filter(line => FENCE.test(line)).length % 2 === 1) kept.push('```');
+      lines.push(...kept);
+      if (body.length > MAX_ENTRY_LINES) {
+        lines.push('');
+        lines.push(`*...${body.length - MAX_ENTRY_LINES} more lines*`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,157 @@
+import { readFile } from 'node:fs/promises';
+import { basename, join, relative, sep } from 'node:path';
+import type { GenerateOptions, GenerateResult, PlannedOperation } from './types.js';
+import { DEFAULT_OUTPUT, generate } from './generator.js';
+import { MANIFEST_FILE, readManifest } from './manifest.js';
+import { compareStrings } from './utils.js';
+
+/**
+ * Content that changes on every generation without the documentation
+ * changing: generation dates and the hashes of generated files
+ */
+const VOLATILE_PATTERNS = [
+  /(?<= by v-skills on )\d{4}-\d{2}-\d{2}/g,
+  /(?<=\*\*Last Updated:\*\* )\d{4}-\d{2}-\d{2}/g,
+  /(?<="contentHash": ")[0-9a-f]+(?=")/g,
+];
+
+/** Files left out of the comparison: bookkeeping, and the entry teams drop when committing skills */
+const IGNORED_FILES = [MANIFEST_FILE, '.gitignore'];
+
+/**
+ * A package whose skill is out of date
+ */
+export interface CheckEntry {
+  name: string;
+  /** Installed version (documented version for extra skills) */
+  version: string;
+  /** Version documented in the output, when it differs from the installed one */
+  documented?: string;
+}
+
+/**
+ * Result of comparing the output with what `generate()` would write
+ */
+export interface CheckResult {
+  /** True when nothing but volatile content differs */
+  upToDate: boolean;
+  /** Packages whose skill differs from what would be generated */
+  stale: CheckEntry[];
+  /** Installed packages without a skill */
+  missing: CheckEntry[];
+  /** Skills of packages that are no longer installed */
+  extra: CheckEntry[];
+  /** Other out-of-date files (indexes, rule files), relative to the project root */
+  files: string[];
+}
+
+/**
+ * Replace the volatile parts of generated content
+ */
+function normalize(content: string): string {
+  return VOLATILE_PATTERNS.reduce((text, pattern) => text.replace(pattern, ''), content);
+}
+
+/**
+ * Check whether an operation changes more than volatile content
+ */
+async function isRealChange(cwd: string, operation: PlannedOperation): Promise<boolean> {
+  if (operation.type !== 'change') return true;
+  const before = await readFile(join(cwd, operation.path), 'utf-8');
+  return normalize(before) !== normalize(operation.content ?? '');
+}
+
+/**
+ * Check that the generated skills match the installed packages, for CI
+ *
+ * Generates in memory (a dry run) and compares the result with the output
+ * directory. Generation dates and content hashes are ignored, so skills
+ * generated on another day are still up to date.
+ *
+ * @param options - Generation options, as for `generate()`
+ *
+ * @example
+ * ```typescript
+ * const result = await check();
+ * if (!result.upToDate) {
+ *   console.log(result.stale.map(pkg => pkg.name)); // => ['react']
+ * }
+ * ```
+ */
+export async function check(options: GenerateOptions = {}): Promise<CheckResult> {
+  const cwd = options.cwd || process.cwd();
+  const outputDir = options.output || join(cwd, DEFAULT_OUTPUT);
+  const toProjectPath = (path: string) => relative(cwd, path).split(sep).join('/');
+
+  const result = await generate({ ...options, cwd, dryRun: true });
+
+  // Which package each skill and reference file belongs to, before and after
+  const documented = new Map<string, CheckEntry>();
+  const installed = new Map<string, CheckEntry>();
+  const skillSets: { output: string; result?: Omit<GenerateResult, 'duration'> }[] = [
+    { output: outputDir, result },
+    ...(result.workspaces ?? []),
+  ];
+  for (const set of skillSets) {
+    const manifest = await readManifest(set.output);
+    for (const [key, entry] of Object.entries(manifest?.packages ?? {})) {
+      const owner = { name: entry.name, version: entry.version };
+      for (const fileKey of [key, ...Object.keys(entry.references ?? {})]) {
+        documented.set(toProjectPath(join(set.output, fileKey)), owner);
+      }
+    }
+    for (const skill of set.result?.skills ?? []) {
+      const owner = { name: skill.name, version: skill.version };
+      for (const path of [skill.targetPath, ...(skill.references ?? []).map(r => r.targetPath)]) {
+        installed.set(toProjectPath(path), owner);
+      }
+    }
+  }
+
+  const stale = new Map<string, CheckEntry>();
+  const missing = new Map<string, CheckEntry>();
+  const extra = new Map<string, CheckEntry>();
+  const files: string[] = [];
+
+  for (const operation of result.plan ?? []) {
+    if (IGNORED_FILES.includes(basename(operation.path))) continue;
+    if (!(await isRealChange(cwd, operation))) continue;
+
+    const before = documented.get(operation.path);
+    const after = installed.get(operation.path);
+    const isSkill = basename(operation.path) === 'SKILL.md';
+    if (after && before) {
+      const entry: CheckEntry = { ...after };
+      if (before.version !== after.version) entry.documented = before.version;
+      stale.set(`${after.name}@${after.version}`, entry);
+    } else if (after) {
+      // A new reference file of a documented package makes it stale, not missing
+      const target = isSkill ? missing : stale;
+      target.set(`${after.name}@${after.version}`, after);
+    } else if (before) {
+      if (isSkill) extra.set(`${before.name}@${before.version}`, before);
+    } else {
+      files.push(operation.path);
+    }
+  }
+
+  // A version change with a new skill path shows up as an extra and a missing skill
+  for (const [key, entry] of missing) {
+    const old = [...extra].find(([, candidate]) => candidate.name === entry.name);
+    if (!old) continue;
+    missing.delete(key);
+    extra.delete(old[0]);
+    stale.set(key, { ...entry, documented: old[1].version });
+  }
+  for (const key of missing.keys()) stale.delete(key);
+
+  const sorted = (entries: Map<string, CheckEntry>) =>
+    [...entries.values()].sort((a, b) => compareStrings(a.name, b.name));
+  return {
+    upToDate: stale.size + missing.size + extra.size + files.length === 0,
+    stale: sorted(stale),
+    missing: sorted(missing),
+    extra: sorted(extra),
+    files,
+  };
+}
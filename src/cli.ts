@@ -1,8 +1,24 @@
 #!/usr/bin/env node
 
-import { generate, clean } from './generator.js';
-import { loadConfig, mergeConfig } from './config.js';
-import type { GenerateOptions, VSkillsConfig } from './types.js';
+import { DEFAULT_OUTPUT, generate, clean } from './generator.js';
+import { search } from './search.js';
+import { serveMcp } from './mcp.js';
+import { watch } from './watch.js';
+import { diff } from './diff.js';
+import { check, type CheckEntry } from './check.js';
+import {
+  loadConfig,
+  mergeConfig,
+  validateNonNegativeInteger,
+  validatePositiveInteger,
+} from './config.js';
+import type {
+  GenerateOptions,
+  OutputTargetName,
+  PlannedOperation,
+  VersionChange,
+  VSkillsConfig,
+} from './types.js';
 
 const HELP = `
 v-skills - Auto-generate AI agent skills from node_modules
@@ -13,6 +29,11 @@ Usage:
 Commands:
   generate    Generate skill files from node_modules (default)
   clean       Remove generated skill files
+  watch       Regenerate skills when node_modules or lockfiles change
+  diff        Show what generate would change, as a unified diff
+  check       Fail when the generated skills are out of date (for CI)
+  search      Search the generated skills: v-skills search <query>
+  mcp         Serve the documentation to AI agents over MCP (stdio)
   init        Create a v-skills.config.js template
   help        Show this help message
 
@@ -20,8 +41,26 @@ Options:
   --cwd <path>        Working directory (default: current directory)
   --output <path>     Output directory (default: .claude/skills/v-skills)
   --direct-only       Only include direct dependencies
+  --depth <n>         Include dependencies up to n levels deep (from the lockfile)
+  --all-versions      Document every installed version of a package
+  --per-workspace [package|root]
+                      One skill set per workspace package (default: package)
   --include <pkgs>    Comma-separated packages to include
   --exclude <pkgs>    Comma-separated packages to exclude
+  --concurrency <n>   Packages extracted in parallel (default: 16)
+  --max-tokens <n>    Cut each SKILL.md to about n tokens
+  --max-bytes <n>     Cut each SKILL.md to at most n bytes
+  --split             Move README, API and changelog to reference/*.md files
+  --no-sanitize       Keep READMEs as they are (badges, HTML, sponsors)
+  --no-deterministic  Stamp today's date into generated files
+  --changelog-versions <n>
+                      Changelog entries shown before the installed version (default: 3)
+  --targets <names>   Comma-separated output targets (default: claude-skills):
+                      claude-skills, cursor, copilot, agents-md, windsurf
+  --llms-txt          Also write llms.txt and llms-full.txt to the output folder
+  --dry-run           List the files generate would add, change or remove, writing nothing
+  --limit <n>         Number of search results (default: 10)
+  --json              Print search results, the dry run or the check as JSON
   --silent            Suppress output (for postinstall)
   --no-config         Ignore config file
 
@@ -35,7 +74,13 @@ Config Files (auto-detected):
 Examples:
   v-skills                           Generate all skills
   v-skills generate --direct-only    Only direct dependencies
+  v-skills --depth 1                 Direct dependencies and their dependencies
   v-skills --exclude "typescript,eslint*"
+  v-skills --targets claude-skills,cursor
+  v-skills diff --max-tokens 4000    Review the effect of a config change
+  v-skills check                     Fail CI when committed skills are out of date
+  v-skills watch                     Keep skills in sync while you install and link
+  v-skills search "date parsing"     Find the packages and sections about a topic
   v-skills init                      Create config template
   v-skills clean                     Remove generated files
 
@@ -49,6 +94,15 @@ export default {
   // Only include direct dependencies (skip transitive)
   // directOnly: true,
 
+  // Include dependencies up to this depth in the lockfile (0 = direct only)
+  // depth: 1,
+
+  // Document every installed version of a package (name/<version>/SKILL.md)
+  // allVersions: true,
+
+  // One skill set per workspace package, in the package ('package') or under output ('root')
+  // perWorkspace: 'package',
+
   // Packages to include (supports globs)
   // include: ['react', 'express', '@tanstack/*'],
 
@@ -62,9 +116,84 @@ export default {
 
   // Output directory
   // output: '.claude/skills/v-skills',
+
+  // Extra frontmatter fields for every SKILL.md
+  // frontmatter: { 'allowed-tools': ['Read', 'Grep', 'Glob'] },
+
+  // Size limits per SKILL.md: badges, changelog and examples are cut first
+  // maxTokens: 8000,
+  // maxBytes: 32000,
+  // packageLimits: { 'aws-sdk': { maxTokens: 2000 } },
+
+  // Short SKILL.md with a table of contents; README, API and changelog in reference/*.md
+  // split: true,
+
+  // Changelog entries shown before the installed version's
+  // changelogVersions: 3,
+
+  // README cleanup: badge rows, HTML layout, images and sponsor sections (all on by default)
+  // sanitize: { images: false, sponsors: false },
+
+  // Tools to write documentation for: claude-skills, cursor, copilot, agents-md, windsurf
+  // targets: ['claude-skills', 'cursor'],
+
+  // Also write llms.txt (link index) and llms-full.txt (every README in one file)
+  // llmsTxt: true,
+
+  // Stamp the generation date into files (off by default for reproducible output;
+  // SOURCE_DATE_EPOCH sets a fixed date)
+  // deterministic: false,
 };
 `;
 
+/**
+ * Print the files a dry run would add, change or remove
+ */
+function printPlan(plan: PlannedOperation[], json: boolean): void {
+  if (json) {
+    const operations = plan.map(({ content: _content, ...operation }) => operation);
+    console.log(JSON.stringify(operations, null, 2));
+    return;
+  }
+  if (plan.length === 0) {
+    console.log('\n✓ v-skills dry run: no changes\n');
+    return;
+  }
+
+  const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+  const symbols = { add: '+', change: '~', remove: '-' };
+  console.log(`\n✓ v-skills dry run: ${plan.length} files would change, nothing written\n`);
+  for (const operation of plan) {
+    console.log(
+      `  ${symbols[operation.type]} ${operation.path} ` +
+        `(${signed(operation.bytes)} bytes, ${signed(operation.tokens)} tokens)`
+    );
+  }
+  const count = (type: PlannedOperation['type']) => plan.filter(op => op.type === type).length;
+  const bytes = plan.reduce((sum, operation) => sum + operation.bytes, 0);
+  const tokens = plan.reduce((sum, operation) => sum + operation.tokens, 0);
+  console.log(
+    `\n  ${count('add')} added, ${count('change')} changed, ${count('remove')} removed: ` +
+      `${signed(bytes)} bytes, ${signed(tokens)} tokens\n`
+  );
+}
+
+/**
+ * Read the value of a numeric CLI option, exiting when it isn't valid
+ */
+function parseNumber(
+  value: string | undefined,
+  flag: string,
+  validate: (value: unknown, name: string, source: string) => number
+): number {
+  try {
+    return validate(value, flag, 'Option');
+  } catch (err) {
+    console.error('v-skills error:', err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
@@ -78,6 +207,10 @@ async function main(): Promise<void> {
   const cliOptions: VSkillsConfig & { cwd?: string } = {};
   let silent = false;
   let noConfig = false;
+  let json = false;
+  let dryRun = false;
+  let limit: number | undefined;
+  const positionals: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -92,22 +225,78 @@ async function main(): Promise<void> {
       case '--direct-only':
         cliOptions.directOnly = true;
         break;
+      case '--depth':
+        cliOptions.depth = parseNumber(args[++i], '--depth', validateNonNegativeInteger);
+        break;
+      case '--all-versions':
+        cliOptions.allVersions = true;
+        break;
+      case '--per-workspace':
+        if (args[i + 1] === 'package' || args[i + 1] === 'root') {
+          cliOptions.perWorkspace = args[++i] as 'package' | 'root';
+        } else {
+          cliOptions.perWorkspace = 'package';
+        }
+        break;
       case '--include':
         cliOptions.include = args[++i]?.split(',').map(s => s.trim());
         break;
       case '--exclude':
         cliOptions.exclude = args[++i]?.split(',').map(s => s.trim());
         break;
+      case '--concurrency':
+        cliOptions.concurrency = parseNumber(args[++i], '--concurrency', validatePositiveInteger);
+        break;
+      case '--max-tokens':
+        cliOptions.maxTokens = parseNumber(args[++i], '--max-tokens', validatePositiveInteger);
+        break;
+      case '--max-bytes':
+        cliOptions.maxBytes = parseNumber(args[++i], '--max-bytes', validatePositiveInteger);
+        break;
+      case '--split':
+        cliOptions.split = true;
+        break;
+      case '--changelog-versions':
+        cliOptions.changelogVersions = parseNumber(
+          args[++i],
+          '--changelog-versions',
+          validateNonNegativeInteger
+        );
+        break;
+      case '--targets':
+        cliOptions.targets = args[++i]?.split(',').map(s => s.trim()) as OutputTargetName[];
+        break;
+      case '--llms-txt':
+        cliOptions.llmsTxt = true;
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      case '--no-deterministic':
+        cliOptions.deterministic = false;
+        break;
+      case '--no-sanitize':
+        cliOptions.sanitize = false;
+        break;
       case '--silent':
         silent = true;
         break;
       case '--no-config':
         noConfig = true;
         break;
+      case '--limit':
+        limit = parseNumber(args[++i], '--limit', validatePositiveInteger);
+        break;
+      case '--json':
+        json = true;
+        break;
       case '--help':
       case '-h':
         command = 'help';
         break;
+      default:
+        if (!arg.startsWith('-')) positionals.push(arg);
+        break;
     }
   }
 
@@ -123,19 +312,53 @@ async function main(): Promise<void> {
         const options: GenerateOptions = {
           cwd,
           ...mergedConfig,
+          ...(dryRun ? { dryRun } : {}),
         };
 
         const result = await generate(options);
 
-        if (!silent) {
+        if (result.plan) {
+          printPlan(result.plan, json);
+        } else if (!silent) {
           if (fileConfig) {
             console.log(`\n  Using config file`);
           }
           console.log(`\n✓ v-skills generated ${result.skills.length} skill files`);
           console.log(`  Workspace: ${result.workspaceType}`);
           console.log(`  Scanned: ${result.packagesScanned} packages`);
+          const { added, updated, removed, unchanged } = result.changes;
+          console.log(
+            `  Changes: ${added} added, ${updated} updated, ${removed} removed, ${unchanged} unchanged`
+          );
+          const { upgraded = [], downgraded = [] } = result.versionChanges ?? {};
+          const formatChange = (change: VersionChange) =>
+            `${change.name} ${change.from} → ${change.to}${change.breaking ? ' (breaking)' : ''}`;
+          if (upgraded.length > 0) {
+            console.log(`  Upgraded: ${upgraded.map(formatChange).join(', ')}`);
+          }
+          if (downgraded.length > 0) {
+            console.log(`  Downgraded: ${downgraded.map(formatChange).join(', ')}`);
+          }
+          for (const [label, list] of [
+            ['Added', result.versionChanges?.added ?? []],
+            ['Removed', result.versionChanges?.removed ?? []],
+          ] as const) {
+            if (list.length === 0) continue;
+            const names = list.map(change => `${change.name}@${change.to ?? change.from}`);
+            console.log(`  ${label}: ${names.join(', ')}`);
+          }
+          const truncated = result.skills.filter(skill => skill.truncated).length;
+          if (truncated > 0) {
+            console.log(`  Truncated: ${truncated} skill files cut to fit the size limits`);
+          }
+          for (const target of result.targets ?? []) {
+            console.log(`  ${target.name}: ${target.files.length} files`);
+          }
+          for (const set of result.workspaces ?? []) {
+            console.log(`  Workspace ${set.path}: ${set.result?.skills.length ?? 0} skill files`);
+          }
           console.log(`  Duration: ${result.duration}ms`);
-          console.log(`  Output: ${options.output || '.claude/skills/v-skills'}\n`);
+          console.log(`  Output: ${options.output || DEFAULT_OUTPUT}\n`);
         }
         break;
       }
@@ -144,13 +367,119 @@ async function main(): Promise<void> {
         const fileConfig = noConfig ? null : await loadConfig(cwd);
         const mergedConfig = mergeConfig(cliOptions, fileConfig);
 
-        await clean({ cwd, output: mergedConfig.output });
+        await clean({
+          cwd,
+          output: mergedConfig.output,
+          perWorkspace: mergedConfig.perWorkspace,
+        });
         if (!silent) {
           console.log('\n✓ v-skills cleaned generated files\n');
         }
         break;
       }
 
+      case 'watch': {
+        const fileConfig = noConfig ? null : await loadConfig(cwd);
+        const log = (message: string) => {
+          if (!silent) console.log(message);
+        };
+
+        const watcher = await watch({
+          cwd,
+          ...mergeConfig(cliOptions, fileConfig),
+          onGenerate: ({ changed, updated, removed, result }) => {
+            if (changed.length === 0) {
+              log(
+                `\n✓ v-skills generated ${result.skills.length} skill files, watching for changes`
+              );
+              return;
+            }
+            log(`\n  Changed: ${changed.join(', ')}`);
+            if (updated.length > 0) log(`  Updated: ${updated.join(', ')}`);
+            if (removed.length > 0) log(`  Removed: ${removed.join(', ')}`);
+            if (updated.length === 0 && removed.length === 0) log('  Skills are up to date');
+          },
+          onError: err => {
+            if (!silent) {
+              console.error('v-skills error:', err instanceof Error ? err.message : err);
+            }
+          },
+        });
+
+        await new Promise(resolve => {
+          process.once('SIGINT', resolve);
+          process.once('SIGTERM', resolve);
+        });
+        await watcher.close();
+        log('\n✓ v-skills stopped watching\n');
+        break;
+      }
+
+      case 'diff': {
+        const fileConfig = noConfig ? null : await loadConfig(cwd);
+        const result = await diff({ cwd, ...mergeConfig(cliOptions, fileConfig) });
+        process.stdout.write(result.diff || '\nNo changes\n\n');
+        break;
+      }
+
+      case 'check': {
+        const fileConfig = noConfig ? null : await loadConfig(cwd);
+        const result = await check({ cwd, ...mergeConfig(cliOptions, fileConfig) });
+
+        if (json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else if (!silent && result.upToDate) {
+          console.log('\n✓ v-skills: skills are up to date\n');
+        } else if (!silent) {
+          const format = (entry: CheckEntry) =>
+            `${entry.name}@${entry.version}` +
+            (entry.documented ? ` (documented: ${entry.documented})` : '');
+          console.log('\n✗ v-skills: skills are out of date\n');
+          for (const [label, list] of [
+            ['Stale', result.stale.map(format)],
+            ['Missing', result.missing.map(format)],
+            ['Extra', result.extra.map(format)],
+            ['Files', result.files],
+          ] as const) {
+            if (list.length > 0) console.log(`  ${`${label}:`.padEnd(9)}${list.join(', ')}`);
+          }
+          console.log('\n  Run "v-skills generate" and commit the changes.\n');
+        }
+        if (!result.upToDate) process.exit(1);
+        break;
+      }
+
+      case 'search': {
+        const query = positionals.join(' ');
+        if (!query.trim()) {
+          throw new Error('Usage: v-skills search <query>');
+        }
+        const fileConfig = noConfig ? null : await loadConfig(cwd);
+        const mergedConfig = mergeConfig(cliOptions, fileConfig);
+
+        const results = await search(query, { cwd, output: mergedConfig.output, limit });
+        if (json) {
+          console.log(JSON.stringify(results, null, 2));
+        } else if (results.length === 0) {
+          console.log(`\nNo results for "${query}"\n`);
+        } else {
+          console.log('');
+          results.forEach((result, i) => {
+            console.log(`${i + 1}. ${result.name}@${result.version} › ${result.section}`);
+            console.log(`   ${result.path}`);
+            console.log(`   ${result.snippet}\n`);
+          });
+        }
+        break;
+      }
+
+      case 'mcp': {
+        // stdout carries the protocol, so nothing else is printed there
+        const fileConfig = noConfig ? null : await loadConfig(cwd);
+        await serveMcp({ cwd, ...mergeConfig(cliOptions, fileConfig) });
+        break;
+      }
+
       case 'init': {
         const { writeFile } = await import('node:fs/promises');
         const { join } = await import('node:path');
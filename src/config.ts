@@ -1,8 +1,17 @@
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { pathToFileURL } from 'node:url';
-import type { VSkillsConfig } from './types.js';
+import type {
+  FrontmatterFields,
+  OutputTargetName,
+  SanitizeOptions,
+  SkillLimits,
+  VSkillsConfig,
+} from './types.js';
+import { SANITIZE_RULES } from './sanitize.js';
+import { TARGET_NAMES } from './targets.js';
 import { fileExists } from './utils.js';
+import { parseYamlDocument } from './yaml.js';
 
 const CONFIG_FILES = [
   'v-skills.config.mjs',
@@ -69,70 +78,29 @@ async function loadConfigFile(filePath: string, fileName: string): Promise<VSkil
 }
 
 /**
- * Simple YAML parser for our config format
- * Supports: strings, arrays, booleans
+ * Parse a YAML config with the block parser, so nested options
+ * (`frontmatter`, `packageLimits`, `sanitize`) keep their structure
+ *
+ * Numeric values of keys are read as numbers; list items stay strings, as
+ * they are package names and patterns.
  */
 function parseYaml(content: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  const lines = content.split('\n');
-  let currentKey: string | null = null;
-  let currentArray: string[] | null = null;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('#')) {
-      continue;
-    }
-
-    // Array item
-    if (trimmed.startsWith('-') && currentKey) {
-      if (!currentArray) {
-        currentArray = [];
-        result[currentKey] = currentArray;
-      }
-      const value = trimmed
-        .slice(1)
-        .trim()
-        .replace(/^['"]|['"]$/g, '');
-      currentArray.push(value);
-      continue;
-    }
-
-    // Key-value pair
-    const colonIndex = trimmed.indexOf(':');
-    if (colonIndex > 0) {
-      const key = trimmed.slice(0, colonIndex).trim();
-      const value = trimmed.slice(colonIndex + 1).trim();
-
-      currentKey = key;
-      currentArray = null;
-
-      if (value) {
-        // Inline value
-        result[key] = parseYamlValue(value);
-        currentKey = null;
-      }
-    }
-  }
-
-  return result;
+  return (readNumbers(parseYamlDocument(content)) ?? {}) as Record<string, unknown>;
 }
 
-function parseYamlValue(value: string): unknown {
-  // Remove quotes
-  const unquoted = value.replace(/^['"]|['"]$/g, '');
-
-  // Booleans
-  if (unquoted === 'true') return true;
-  if (unquoted === 'false') return false;
-
-  // Numbers
-  if (/^-?\d+$/.test(unquoted)) return parseInt(unquoted, 10);
-  if (/^-?\d+\.\d+$/.test(unquoted)) return parseFloat(unquoted);
-
-  return unquoted;
+function readNumbers(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => (item && typeof item === 'object' ? readNumbers(item) : item));
+  }
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      typeof entry === 'string' && /^-?\d+(\.\d+)?$/.test(entry)
+        ? Number(entry)
+        : readNumbers(entry),
+    ])
+  );
 }
 
 /**
@@ -164,10 +132,194 @@ function validateConfig(config: unknown): VSkillsConfig {
     result.directOnly = Boolean(cfg.directOnly);
   }
 
+  if (cfg.depth !== undefined) {
+    result.depth = validateNonNegativeInteger(cfg.depth, 'depth');
+  }
+
+  if (cfg.allVersions !== undefined) {
+    result.allVersions = Boolean(cfg.allVersions);
+  }
+
+  if (cfg.perWorkspace !== undefined && cfg.perWorkspace !== false) {
+    if (cfg.perWorkspace === true || cfg.perWorkspace === 'package') {
+      result.perWorkspace = 'package';
+    } else if (cfg.perWorkspace === 'root') {
+      result.perWorkspace = 'root';
+    } else {
+      throw new Error('Config "perWorkspace" must be true, "package" or "root"');
+    }
+  }
+
   if (cfg.output !== undefined) {
     result.output = String(cfg.output);
   }
 
+  if (cfg.frontmatter !== undefined) {
+    result.frontmatter = validateFrontmatter(cfg.frontmatter);
+  }
+
+  if (cfg.concurrency !== undefined) {
+    result.concurrency = validatePositiveInteger(cfg.concurrency, 'concurrency');
+  }
+
+  if (cfg.maxTokens !== undefined) {
+    result.maxTokens = validatePositiveInteger(cfg.maxTokens, 'maxTokens');
+  }
+
+  if (cfg.maxBytes !== undefined) {
+    result.maxBytes = validatePositiveInteger(cfg.maxBytes, 'maxBytes');
+  }
+
+  if (cfg.packageLimits !== undefined) {
+    result.packageLimits = validatePackageLimits(cfg.packageLimits);
+  }
+
+  if (cfg.split !== undefined) {
+    result.split = Boolean(cfg.split);
+  }
+
+  if (cfg.changelogVersions !== undefined) {
+    result.changelogVersions = validateNonNegativeInteger(
+      cfg.changelogVersions,
+      'changelogVersions'
+    );
+  }
+
+  if (cfg.sanitize !== undefined) {
+    result.sanitize = validateSanitize(cfg.sanitize);
+  }
+
+  if (cfg.llmsTxt !== undefined) {
+    result.llmsTxt = Boolean(cfg.llmsTxt);
+  }
+
+  if (cfg.deterministic !== undefined) {
+    result.deterministic = Boolean(cfg.deterministic);
+  }
+
+  if (cfg.targets !== undefined) {
+    result.targets = validateTargets(cfg.targets);
+  }
+
+  return result;
+}
+
+/**
+ * Validate output targets: a non-empty array of known target names
+ */
+function validateTargets(value: unknown): OutputTargetName[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('Config "targets" must be a non-empty array');
+  }
+  for (const target of value) {
+    if (!TARGET_NAMES.includes(target)) {
+      throw new Error(
+        `Config "targets" has an unknown target "${target}" (${TARGET_NAMES.join(', ')})`
+      );
+    }
+  }
+  return [...new Set(value as OutputTargetName[])];
+}
+
+/**
+ * Validate per-package size limits: { "<pattern>": { maxTokens?, maxBytes? } }
+ */
+function validatePackageLimits(value: unknown): Record<string, SkillLimits> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Config "packageLimits" must be an object');
+  }
+
+  const result: Record<string, SkillLimits> = {};
+  for (const [pattern, limits] of Object.entries(value)) {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      throw new Error(`Config "packageLimits.${pattern}" must be an object`);
+    }
+    const { maxTokens, maxBytes } = limits as Record<string, unknown>;
+    result[pattern] = {
+      ...(maxTokens !== undefined && {
+        maxTokens: validatePositiveInteger(maxTokens, `packageLimits.${pattern}.maxTokens`),
+      }),
+      ...(maxBytes !== undefined && {
+        maxBytes: validatePositiveInteger(maxBytes, `packageLimits.${pattern}.maxBytes`),
+      }),
+    };
+  }
+  return result;
+}
+
+/**
+ * Validate README cleanup rules: false, true, or { "<rule>": boolean }
+ */
+function validateSanitize(value: unknown): SanitizeOptions | false {
+  if (value === false) return false;
+  if (value === true) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Config "sanitize" must be a boolean or an object');
+  }
+
+  const result: SanitizeOptions = {};
+  for (const [rule, enabled] of Object.entries(value)) {
+    if (!(SANITIZE_RULES as readonly string[]).includes(rule)) {
+      throw new Error(
+        `Config "sanitize.${rule}" is not a known rule (${SANITIZE_RULES.join(', ')})`
+      );
+    }
+    result[rule as keyof SanitizeOptions] = Boolean(enabled);
+  }
+  return result;
+}
+
+/**
+ * Validate a numeric option that must be a positive integer
+ *
+ * @param source - Where the option comes from, for the error message
+ */
+export function validatePositiveInteger(value: unknown, name: string, source = 'Config'): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 1) {
+    throw new Error(`${source} "${name}" must be a positive integer`);
+  }
+  return num;
+}
+
+/**
+ * Validate a numeric option that must be zero or a positive integer
+ *
+ * @param source - Where the option comes from, for the error message
+ */
+export function validateNonNegativeInteger(
+  value: unknown,
+  name: string,
+  source = 'Config'
+): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 0) {
+    throw new Error(`${source} "${name}" must be a non-negative integer`);
+  }
+  return num;
+}
+
+/**
+ * Validate custom frontmatter fields: scalars or arrays of scalars only
+ */
+function validateFrontmatter(value: unknown): FrontmatterFields {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Config "frontmatter" must be an object');
+  }
+
+  const isScalar = (v: unknown) =>
+    typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean';
+
+  const result: FrontmatterFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (isScalar(field)) {
+      result[key] = field as string | number | boolean;
+    } else if (Array.isArray(field) && field.every(isScalar)) {
+      result[key] = field;
+    } else {
+      throw new Error(`Config "frontmatter.${key}" must be a string, number, boolean or array`);
+    }
+  }
   return result;
 }
 
@@ -187,6 +339,20 @@ export function mergeConfig(
     include: cliOptions.include ?? fileConfig.include,
     exclude: cliOptions.exclude ?? fileConfig.exclude,
     directOnly: cliOptions.directOnly ?? fileConfig.directOnly,
+    depth: cliOptions.depth ?? fileConfig.depth,
+    allVersions: cliOptions.allVersions ?? fileConfig.allVersions,
+    perWorkspace: cliOptions.perWorkspace ?? fileConfig.perWorkspace,
     output: cliOptions.output ?? fileConfig.output,
+    frontmatter: cliOptions.frontmatter ?? fileConfig.frontmatter,
+    concurrency: cliOptions.concurrency ?? fileConfig.concurrency,
+    maxTokens: cliOptions.maxTokens ?? fileConfig.maxTokens,
+    maxBytes: cliOptions.maxBytes ?? fileConfig.maxBytes,
+    packageLimits: cliOptions.packageLimits ?? fileConfig.packageLimits,
+    split: cliOptions.split ?? fileConfig.split,
+    sanitize: cliOptions.sanitize ?? fileConfig.sanitize,
+    changelogVersions: cliOptions.changelogVersions ?? fileConfig.changelogVersions,
+    targets: cliOptions.targets ?? fileConfig.targets,
+    llmsTxt: cliOptions.llmsTxt ?? fileConfig.llmsTxt,
+    deterministic: cliOptions.deterministic ?? fileConfig.deterministic,
   };
 }
@@ -0,0 +1,186 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { GenerateOptions, PlannedOperation } from './types.js';
+import { generate } from './generator.js';
+
+/** Unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+/** Largest line table compared line by line, beyond it the changed part is replaced as a whole */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Files with longer lines (minified JSON like search-index.json) are only reported as changed */
+const MAX_LINE_LENGTH = 2000;
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Split file content into lines, without the empty line after a final newline
+ */
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Diff two line lists with a longest common subsequence table
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Common start and end lines need no table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const lines: DiffLine[] = before.slice(0, start).map(text => ({ type: ' ', text }));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    lines.push(...a.map(text => ({ type: '-' as const, text })));
+    lines.push(...b.map(text => ({ type: '+' as const, text })));
+  } else {
+    // lengths[i * width + j]: longest common subsequence of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ type: ' ', text: a[i++] });
+        j++;
+      } else if (
+        j >= b.length ||
+        (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      ) {
+        lines.push({ type: '-', text: a[i++] });
+      } else {
+        lines.push({ type: '+', text: b[j++] });
+      }
+    }
+  }
+
+  lines.push(...before.slice(endBefore).map(text => ({ type: ' ' as const, text })));
+  return lines;
+}
+
+/**
+ * Format a hunk range: start line and line count (start 0 for an empty side)
+ */
+function formatRange(start: number, count: number): string {
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param path - File path shown in the header
+ * @param before - Current content, or null when the file would be added
+ * @param after - New content, or null when the file would be removed
+ * @returns The diff, or an empty string when the contents are equal
+ *
+ * @example
+ * ```typescript
+ * createUnifiedDiff('react/SKILL.md', 'a\nb\n', 'a\nc\n');
+ * // => '--- a/react/SKILL.md\n+++ b/react/SKILL.md\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n'
+ * ```
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null
+): string {
+  if (before === after) return '';
+  const header = [
+    before === null ? '--- /dev/null' : `--- a/${path}`,
+    after === null ? '+++ /dev/null' : `+++ b/${path}`,
+  ];
+
+  const beforeLines = splitLines(before ?? '');
+  const afterLines = splitLines(after ?? '');
+  if ([...beforeLines, ...afterLines].some(line => line.length > MAX_LINE_LENGTH)) {
+    return `Files a/${path} and b/${path} differ\n`;
+  }
+
+  const lines = diffLines(beforeLines, afterLines);
+  const output = [...header];
+
+  // Group changes closer than twice the context into one hunk
+  let index = 0;
+  while (index < lines.length) {
+    const first = lines.findIndex((line, i) => i >= index && line.type !== ' ');
+    if (first === -1) break;
+
+    let last = first;
+    for (let i = first + 1; i < lines.length && i <= last + CONTEXT_LINES * 2; i++) {
+      if (lines[i].type !== ' ') last = i;
+    }
+    const start = Math.max(0, first - CONTEXT_LINES);
+    const end = Math.min(lines.length, last + CONTEXT_LINES + 1);
+
+    // Line numbers of the hunk start on each side
+    let beforeStart = 1;
+    let afterStart = 1;
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== '+') beforeStart++;
+      if (line.type !== '-') afterStart++;
+    }
+    const hunk = lines.slice(start, end);
+    const beforeCount = hunk.filter(line => line.type !== '+').length;
+    const afterCount = hunk.filter(line => line.type !== '-').length;
+
+    output.push(
+      `@@ -${formatRange(beforeStart, beforeCount)} +${formatRange(afterStart, afterCount)} @@`,
+      ...hunk.map(line => `${line.type}${line.text}`)
+    );
+    index = end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Show what `generate()` would change: a unified diff of every file it would
+ * add, change or remove, against the current output
+ *
+ * Runs a dry run, so nothing is written.
+ *
+ * @param options - Generation options, as for `generate()`
+ * @returns The planned operations and their diff (empty when nothing would change)
+ */
+export async function diff(
+  options: GenerateOptions = {}
+): Promise<{ plan: PlannedOperation[]; diff: string }> {
+  const cwd = options.cwd || process.cwd();
+  const result = await generate({ ...options, cwd, dryRun: true });
+  const plan = result.plan ?? [];
+
+  const diffs: string[] = [];
+  for (const operation of plan) {
+    const before =
+      operation.type === 'add' ? null : await readFile(join(cwd, operation.path), 'utf-8');
+    diffs.push(createUnifiedDiff(operation.path, before, operation.content ?? null));
+  }
+
+  return { plan, diff: diffs.join('') };
+}
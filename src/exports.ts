@@ -0,0 +1,240 @@
+import { posix } from 'node:path';
+import { compareVersions } from './utils.js';
+
+/** TypeScript version `typesVersions` ranges are matched against */
+const TYPESCRIPT_VERSION = '5.9.0';
+
+/** Conditions TypeScript matches when resolving types (key order decides) */
+const TYPES_CONDITIONS = new Set(['types', 'typings', 'import', 'require', 'node', 'default']);
+
+/** Conditions whose target is a declaration file rather than JavaScript */
+const DECLARATION_CONDITIONS = new Set(['types', 'typings']);
+
+export type ExportsField = string | null | ExportsField[] | { [key: string]: ExportsField };
+
+/**
+ * The package.json fields used to resolve entry points
+ */
+export interface PackageEntryFields {
+  exports?: ExportsField;
+  typesVersions?: Record<string, Record<string, string[]>>;
+  types?: string;
+  typings?: string;
+  main?: string;
+}
+
+/**
+ * An entry point of a package and its type definitions
+ */
+export interface ResolvedEntryPoint {
+  /** Subpath as written in `exports` (".", "./server") */
+  subpath: string;
+  /** Type definitions file relative to the package root, if any */
+  types?: string;
+}
+
+type Exists = (relPath: string) => Promise<boolean>;
+
+function normalizePath(path: string): string {
+  return posix.normalize(path.replace(/\\/g, '/')).replace(/^\.\//, '');
+}
+
+/**
+ * Get the declaration file next to a JavaScript file (`index.mjs` → `index.d.mts`)
+ */
+export function declarationFileFor(path: string): string {
+  if (/\.d\.[cm]?ts$/.test(path)) return path;
+  const match = /\.([cm]?)(?:js|jsx|ts|tsx)$/.exec(path);
+  if (!match) return `${path}.d.ts`;
+  return `${path.slice(0, match.index)}.d.${match[1]}ts`;
+}
+
+/**
+ * Check whether a TypeScript version satisfies a `typesVersions` range
+ * (space-separated comparators like ">=4.2 <5", or "*")
+ */
+export function satisfiesTypesRange(version: string, range: string): boolean {
+  const comparators = range.trim().split(/\s+/).filter(Boolean);
+  return comparators.every(comparator => {
+    if (comparator === '*') return true;
+    const match = /^(>=|<=|>|<|=)?v?(\d+(?:\.\d+){0,2})$/.exec(comparator);
+    if (!match) return false;
+
+    const parts = match[2].split('.');
+    while (parts.length < 3) parts.push('0');
+    const order = compareVersions(version, parts.join('.'));
+    switch (match[1]) {
+      case '>=':
+        return order >= 0;
+      case '<=':
+        return order <= 0;
+      case '>':
+        return order > 0;
+      case '<':
+        return order < 0;
+      default:
+        return order === 0;
+    }
+  });
+}
+
+/**
+ * Pick the `typesVersions` path map that applies to the current TypeScript version
+ */
+function selectTypesVersionsMap(
+  typesVersions: PackageEntryFields['typesVersions']
+): Record<string, string[]> | null {
+  if (!typesVersions || typeof typesVersions !== 'object') return null;
+  for (const [range, map] of Object.entries(typesVersions)) {
+    if (map && typeof map === 'object' && satisfiesTypesRange(TYPESCRIPT_VERSION, range)) {
+      return map;
+    }
+  }
+  return null;
+}
+
+/**
+ * Redirect a path through a `typesVersions` path map
+ *
+ * @returns The first existing redirect target, or null if no pattern matches
+ */
+async function redirectTypesVersions(
+  map: Record<string, string[]>,
+  path: string,
+  exists: Exists
+): Promise<string | null> {
+  for (const [pattern, targets] of Object.entries(map)) {
+    if (!Array.isArray(targets)) continue;
+
+    let captured: string | null = null;
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (normalizePath(pattern) === path) captured = '';
+    } else {
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        path.startsWith(prefix) &&
+        path.endsWith(suffix) &&
+        path.length >= prefix.length + suffix.length
+      ) {
+        captured = path.slice(prefix.length, path.length - suffix.length);
+      }
+    }
+    if (captured === null) continue;
+
+    for (const target of targets) {
+      const candidate = normalizePath(target.replace('*', captured));
+      for (const file of [candidate, declarationFileFor(candidate)]) {
+        if (await exists(file)) return file;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the type definitions of one `exports` target, following conditions
+ * in key order like TypeScript does
+ */
+async function resolveExportTypes(
+  target: ExportsField,
+  exists: Exists,
+  declaration = false
+): Promise<string | null> {
+  if (typeof target === 'string') {
+    const path = normalizePath(target);
+    if (declaration || /\.d\.[cm]?ts$/.test(path)) {
+      return (await exists(path)) ? path : null;
+    }
+    const sibling = declarationFileFor(path);
+    return (await exists(sibling)) ? sibling : null;
+  }
+
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const types = await resolveExportTypes(item, exists, declaration);
+      if (types) return types;
+    }
+    return null;
+  }
+
+  if (!target || typeof target !== 'object') return null;
+
+  for (const [condition, value] of Object.entries(target)) {
+    if (!TYPES_CONDITIONS.has(condition)) continue;
+    const types = await resolveExportTypes(
+      value,
+      exists,
+      declaration || DECLARATION_CONDITIONS.has(condition)
+    );
+    if (types) return types;
+  }
+  return null;
+}
+
+/**
+ * Split an `exports` field into subpaths ("." for the sugar forms)
+ */
+function listExportSubpaths(exports: ExportsField): [string, ExportsField][] {
+  if (exports && typeof exports === 'object' && !Array.isArray(exports)) {
+    const keys = Object.keys(exports);
+    if (keys.some(key => key.startsWith('.'))) {
+      return Object.entries(exports).filter(([key]) => key.startsWith('.'));
+    }
+  }
+  return [['.', exports]];
+}
+
+/**
+ * Resolve every entry point of a package and its type definitions
+ *
+ * With an `exports` map, each subpath's conditions are followed (`types`,
+ * nested `import`/`require`, ...) the way TypeScript does. Subpath patterns
+ * (`./*`), blocked subpaths and `./package.json` are skipped. Without one, the
+ * main entry comes from `types`/`typings` or `main`, and `typesVersions`
+ * redirects and adds subpaths.
+ *
+ * @param pkg - Parsed package.json
+ * @param exists - Check whether a file exists, relative to the package root
+ */
+export async function resolveEntryPoints(
+  pkg: PackageEntryFields,
+  exists: Exists
+): Promise<ResolvedEntryPoint[]> {
+  const entryPoints: ResolvedEntryPoint[] = [];
+
+  if (pkg.exports !== undefined && pkg.exports !== null) {
+    for (const [subpath, target] of listExportSubpaths(pkg.exports)) {
+      if (subpath.includes('*') || subpath === './package.json' || target === null) continue;
+      const types = await resolveExportTypes(target, exists);
+      entryPoints.push(types ? { subpath, types } : { subpath });
+    }
+    return entryPoints;
+  }
+
+  const typesMap = selectTypesVersionsMap(pkg.typesVersions);
+
+  // Main entry
+  const declared = pkg.types || pkg.typings;
+  const mainTypes = normalizePath(
+    declared ?? (pkg.main ? declarationFileFor(normalizePath(pkg.main)) : 'index.d.ts')
+  );
+  const redirected = typesMap ? await redirectTypesVersions(typesMap, mainTypes, exists) : null;
+  const types = redirected ?? ((await exists(mainTypes)) ? mainTypes : null);
+  entryPoints.push(types ? { subpath: '.', types } : { subpath: '.' });
+
+  // Subpaths only known through typesVersions
+  for (const pattern of typesMap ? Object.keys(typesMap) : []) {
+    const path = normalizePath(pattern);
+    if (!typesMap || pattern.includes('*') || path === mainTypes) continue;
+
+    const subpathTypes = await redirectTypesVersions(typesMap, path, exists);
+    if (subpathTypes) {
+      const subpath = `./${path.replace(/(\.d)?\.[cm]?[jt]s$/, '')}`;
+      entryPoints.push({ subpath, types: subpathTypes });
+    }
+  }
+
+  return entryPoints;
+}
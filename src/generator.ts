@@ -1,20 +1,107 @@
-import { writeFile, rm, mkdir, readFile } from 'node:fs/promises';
-import { join } from 'node:path';
-import type { GenerateOptions, GenerateResult, SkillFile, PackageInfo } from './types.js';
-import { detectWorkspace, getNodeModulesPaths } from './workspace.js';
-import { traverseNodeModules, getDirectDependencies } from './traverse.js';
-import { createSkillFile } from './linker.js';
-import { fileExists } from './utils.js';
+import { rm, readFile, readdir, rmdir } from 'node:fs/promises';
+import { join, dirname, relative, sep } from 'node:path';
+import type {
+  GenerateChanges,
+  GenerateOptions,
+  GenerateResult,
+  OutputTargetName,
+  SkillFile,
+  SkillLimits,
+  SkillsIndex,
+  SkillsIndexEntry,
+  SkillsIndexVersion,
+  PackageInfo,
+  TargetOutput,
+  VersionChange,
+  VersionChanges,
+  WorkspaceInfo,
+  WorkspaceSkillSet,
+} from './types.js';
+import {
+  detectWorkspace,
+  getNodeModulesPaths,
+  getWorkspacePackageDirs,
+  getWorkspaceUsage,
+} from './workspace.js';
+import {
+  traverseNodeModules,
+  traverseWorkspacePackages,
+  getDirectDependencies,
+  matchPattern,
+} from './traverse.js';
+import { traversePnpmStore } from './pnpm.js';
+import { traversePnp } from './pnp.js';
+import {
+  computeDepths,
+  getDependents,
+  readDependencyGraph,
+  type DependencyGraph,
+} from './lockfile.js';
+import {
+  createSkillFile,
+  generateVersionSelector,
+  getGenerationDate,
+  getSkillTargetPath,
+  hasSkillContent,
+  type SkillRenderOptions,
+} from './linker.js';
+import { sanitizeMarkdown } from './sanitize.js';
+import { writeSearchIndex } from './search.js';
+import { LLMS_FULL_TXT, LLMS_TXT, formatLlmsFullTxt, formatLlmsTxt } from './llms.js';
+import {
+  DEFAULT_TARGETS,
+  RULE_TARGETS,
+  SKILL_TREE_TARGETS,
+  TARGET_NAMES,
+  cleanTargets,
+  isRuleTarget,
+  removeTarget,
+  writeAgentsMd,
+  writeRuleTarget,
+} from './targets.js';
+import {
+  formatChangelogEntries,
+  isBreakingUpgrade,
+  selectChangelogEntriesSince,
+} from './changelog.js';
+import {
+  MANIFEST_VERSION,
+  getManifestKey,
+  getPackageLocation,
+  hashConfig,
+  hashContent,
+  hashFile,
+  hashSources,
+  readManifest,
+  sameSources,
+  writeManifest,
+  type SkillManifest,
+} from './manifest.js';
+import { createFilePlan, removeOutput, summarizePlan, writeOutput, type FilePlan } from './plan.js';
+import { compareStrings, compareVersions, fileExists, readJson } from './utils.js';
 
-const DEFAULT_OUTPUT = '.claude/skills/v-skills';
+export const DEFAULT_OUTPUT = '.claude/skills/v-skills';
+
+/** Folder for workspace skill sets inside the root output (`perWorkspace: 'root'`) */
+const WORKSPACES_FOLDER = '_workspaces';
+
+/** Version changes since the previous generation, written to the output root */
+const UPGRADES_FILE = 'UPGRADES.md';
+
+/** Machine-readable index, written next to `_index.md` */
+export const SKILLS_INDEX_FILE = 'skills.json';
+
+/** Current schema version of skills.json */
+export const SKILLS_INDEX_VERSION: SkillsIndexVersion = 1;
 
 /**
- * Ensure the output directory is in .gitignore
+ * Ensure generated files are in .gitignore
+ *
+ * @param ignoreEntry - Pattern relative to the project root (folders end with "/")
  */
-async function ensureGitignore(cwd: string, outputDir: string): Promise<void> {
+async function ensureGitignore(cwd: string, ignoreEntry: string, plan?: FilePlan): Promise<void> {
   const gitignorePath = join(cwd, '.gitignore');
-  const relativePath = outputDir.startsWith(cwd) ? outputDir.slice(cwd.length + 1) : outputDir;
-  const ignoreEntry = `${relativePath}/`;
+  const relativePath = ignoreEntry.replace(/\/$/, '');
 
   try {
     let content = '';
@@ -33,94 +120,721 @@ async function ensureGitignore(cwd: string, outputDir: string): Promise<void> {
       // Add entry to gitignore
       const newContent =
         content.trimEnd() + '\n\n# v-skills auto-generated documentation\n' + ignoreEntry + '\n';
-      await writeFile(gitignorePath, newContent, 'utf-8');
+      await writeOutput(gitignorePath, newContent, plan);
     }
   } catch {
     // Can't update gitignore, silently continue
   }
 }
 
+/**
+ * Everything needed to generate one skill set (one output folder)
+ */
+interface SkillSetContext {
+  /** Project root, used for the .gitignore entry */
+  cwd: string;
+  outputDir: string;
+  workspace: WorkspaceInfo;
+  nodeModulesPaths: string[];
+  graph: DependencyGraph | null;
+  /** Direct dependencies (depth 0) of this skill set */
+  roots: Set<string>;
+  /** Workspace package folders, documented from source as internal packages */
+  internalDirs: string[];
+  /** Other skill sets linked from this set's index */
+  linkedSets?: WorkspaceSkillSet[];
+  /** Output targets written for this set */
+  targets: OutputTargetName[];
+  /** Records the writes instead of performing them (dry runs) */
+  plan?: FilePlan;
+}
+
 export async function generate(options: GenerateOptions = {}): Promise<GenerateResult> {
   const startTime = Date.now();
   const cwd = options.cwd || process.cwd();
   const outputDir = options.output || join(cwd, DEFAULT_OUTPUT);
 
-  // Clean output directory to remove stale files
-  await rm(outputDir, { recursive: true, force: true });
+  // Detect workspace configuration
+  const workspace = await detectWorkspace(cwd);
+  const graph = await readDependencyGraph(cwd);
+  const internalDirs = await getWorkspacePackageDirs(workspace);
+  const targets = options.targets ?? DEFAULT_TARGETS;
+  const unknown = targets.find(target => !TARGET_NAMES.includes(target));
+  if (unknown) {
+    throw new Error(`Unknown output target "${unknown}" (${TARGET_NAMES.join(', ')})`);
+  }
+  const plan = options.dryRun ? createFilePlan() : undefined;
 
-  // Ensure output directory exists
-  await mkdir(outputDir, { recursive: true });
+  const result = options.perWorkspace
+    ? await generatePerWorkspace(
+        { cwd, outputDir, workspace, graph, internalDirs, targets, plan },
+        options
+      )
+    : await generateSkillSet(
+        {
+          cwd,
+          outputDir,
+          workspace,
+          graph,
+          // Get all node_modules paths (root + workspace packages)
+          nodeModulesPaths: await getNodeModulesPaths(workspace),
+          roots: new Set([...(await getDirectDependencies(cwd)), ...(graph?.roots ?? [])]),
+          internalDirs,
+          targets,
+          plan,
+        },
+        options
+      );
+  return {
+    ...result,
+    ...(plan ? { plan: await summarizePlan(plan, cwd) } : {}),
+    duration: Date.now() - startTime,
+  };
+}
 
-  // Ensure gitignore entry
-  await ensureGitignore(cwd, outputDir);
+/**
+ * Generate one skill set for the root package and one for each workspace package,
+ * each limited to that package's own dependencies (direct only unless `depth` is set)
+ *
+ * Rule files of other tools are written for the root package only; workspace
+ * sets get the skill folders (and their own AGENTS.md section).
+ */
+async function generatePerWorkspace(
+  project: Pick<
+    SkillSetContext,
+    'cwd' | 'outputDir' | 'workspace' | 'graph' | 'internalDirs' | 'targets' | 'plan'
+  >,
+  options: GenerateOptions
+): Promise<Omit<GenerateResult, 'duration'>> {
+  const { cwd, outputDir, workspace, graph, internalDirs, targets, plan } = project;
+  const setTargets = targets.filter(target => SKILL_TREE_TARGETS.includes(target));
+  const setOptions: GenerateOptions = { ...options, depth: options.depth ?? 0 };
+  const rootNodeModules = await getNodeModulesPaths({ ...workspace, packages: [] });
+  const sets: WorkspaceSkillSet[] = [];
+  const pending: { dir: string; set: WorkspaceSkillSet }[] = [];
 
-  // Detect workspace configuration
-  const workspace = await detectWorkspace(cwd);
+  for (const dir of setTargets.length > 0 ? internalDirs : []) {
+    const path = relative(cwd, dir).split(sep).join('/');
+    const pkg = await readJson<{ name?: string }>(join(dir, 'package.json'));
+    const set: WorkspaceSkillSet = {
+      name: pkg?.name || path,
+      path,
+      output: getWorkspaceOutputDir(cwd, outputDir, dir, options.perWorkspace!),
+    };
+    sets.push(set);
+    pending.push({ dir, set });
+  }
+
+  // The root set comes first: it starts fresh when it has no manifest, which
+  // would remove workspace sets nested inside its output folder
+  const result = await generateSkillSet(
+    {
+      cwd,
+      outputDir,
+      workspace,
+      graph,
+      nodeModulesPaths: rootNodeModules,
+      roots: await getDirectDependencies(cwd),
+      internalDirs,
+      linkedSets: sets,
+      targets,
+      plan,
+    },
+    setOptions
+  );
 
-  // Get direct dependencies if filtering
-  let directDeps: Set<string> | null = null;
-  if (options.directOnly) {
-    directDeps = await getDirectDependencies(cwd);
+  for (const { dir, set } of pending) {
+    const ownNodeModules = join(dir, 'node_modules');
+    set.result = await generateSkillSet(
+      {
+        cwd,
+        outputDir: set.output,
+        workspace: { ...workspace, root: dir, packages: [] },
+        graph,
+        // Workspace packages resolve their own node_modules first, then the root's
+        nodeModulesPaths: [
+          ...((await fileExists(ownNodeModules)) ? [ownNodeModules] : []),
+          ...rootNodeModules,
+        ],
+        roots: await getDirectDependencies(dir),
+        internalDirs,
+        targets: setTargets,
+        plan,
+      },
+      setOptions
+    );
   }
 
-  // Get all node_modules paths (root + workspace packages)
-  const nodeModulesPaths = await getNodeModulesPaths(workspace);
+  return { ...result, workspaces: sets };
+}
+
+/**
+ * Get the output folder of a workspace package's skill set
+ *
+ * - `package`: inside the workspace package (`apps/web/.claude/skills/v-skills`)
+ * - `root`: namespaced under the root output (`<output>/_workspaces/apps/web`);
+ *   npm package names can't start with "_", so this never clashes with a skill
+ */
+function getWorkspaceOutputDir(
+  cwd: string,
+  outputDir: string,
+  dir: string,
+  mode: NonNullable<GenerateOptions['perWorkspace']>
+): string {
+  return mode === 'root'
+    ? join(outputDir, WORKSPACES_FOLDER, relative(cwd, dir))
+    : join(dir, DEFAULT_OUTPUT);
+}
+
+/**
+ * Get the size limits of a package's SKILL.md: its `packageLimits` entry,
+ * falling back to the global limits for the fields it doesn't set
+ */
+function getSkillLimits(name: string, options: GenerateOptions): SkillLimits | undefined {
+  const override = Object.entries(options.packageLimits ?? {}).find(([pattern]) =>
+    matchPattern(name, pattern)
+  )?.[1];
+  const maxTokens = override?.maxTokens ?? options.maxTokens;
+  const maxBytes = override?.maxBytes ?? options.maxBytes;
+  if (maxTokens === undefined && maxBytes === undefined) return undefined;
+  return { maxTokens, maxBytes };
+}
+
+/**
+ * Generate one skill set: the skill folders with their index and manifest,
+ * and the files of the other selected output targets
+ */
+async function generateSkillSet(
+  context: SkillSetContext,
+  options: GenerateOptions
+): Promise<Omit<GenerateResult, 'duration'>> {
+  const { cwd, outputDir, workspace, targets } = context;
+  const { processed, packagesScanned } = await collectPackages(context, options);
+  sanitizeReadmes(processed.values(), options);
+
+  const renderOptions = {
+    frontmatter: options.frontmatter,
+    changelogVersions: options.changelogVersions,
+    date: getGenerationDate(options.deterministic),
+  };
+
+  // Remove the files of targets written last time but no longer selected
+  const previousTargets = (await readManifest(outputDir))?.targets ?? [];
+  for (const target of previousTargets.filter(target => !targets.includes(target))) {
+    await removeTarget(target, cwd, [workspace.root], context.plan);
+  }
+
+  const hasTree = targets.some(target => SKILL_TREE_TARGETS.includes(target));
+  if (!hasTree && previousTargets.some(target => SKILL_TREE_TARGETS.includes(target))) {
+    await removeOutput(outputDir, context.plan, { recursive: true });
+  }
+  const tree = hasTree
+    ? await writeSkillTree(context, options, processed, renderOptions)
+    : { skills: [], changes: { added: 0, updated: 0, removed: 0, unchanged: 0 } };
+
+  // Other tools get one file per package name, for the newest installed version
+  const newest = new Map<string, PackageInfo>();
+  for (const pkg of processed.values()) {
+    if (!hasSkillContent(pkg)) continue;
+    const current = newest.get(pkg.name);
+    if (!current || compareVersions(pkg.version, current.version) > 0) {
+      newest.set(pkg.name, pkg);
+    }
+  }
+  const packages = [...newest.values()];
+  const outputs: TargetOutput[] = [];
+  for (const target of targets) {
+    if (isRuleTarget(target)) {
+      outputs.push(
+        await writeRuleTarget(target, {
+          cwd,
+          packages,
+          renderOptions,
+          getLimits: name => getSkillLimits(name, options),
+          plan: context.plan,
+        })
+      );
+      await ensureGitignore(cwd, RULE_TARGETS[target].ignoreEntry, context.plan);
+    } else if (target === 'agents-md') {
+      outputs.push(await writeAgentsMd(cwd, workspace.root, outputDir, packages, context.plan));
+    }
+  }
+
+  return {
+    ...tree,
+    workspaceType: workspace.type,
+    packagesScanned,
+    ...(outputs.length > 0 ? { targets: outputs } : {}),
+  };
+}
+
+/**
+ * Drop badges, HTML layout and sponsor sections from READMEs before rendering
+ */
+function sanitizeReadmes(packages: Iterable<PackageInfo>, options: GenerateOptions): void {
+  if (options.sanitize === false) return;
+  for (const pkg of packages) {
+    if (pkg.docs?.readme) {
+      pkg.docs.readme = sanitizeMarkdown(pkg.docs.readme, options.sanitize);
+    }
+  }
+}
+
+/**
+ * Find the packages `generate()` would document, with cleaned-up READMEs,
+ * without writing anything
+ *
+ * Used to serve documentation on demand (`v-skills mcp`).
+ */
+export async function scanPackages(options: GenerateOptions = {}): Promise<PackageInfo[]> {
+  const cwd = options.cwd || process.cwd();
+  const workspace = await detectWorkspace(cwd);
+  const graph = await readDependencyGraph(cwd);
+
+  const { processed } = await collectPackages(
+    {
+      cwd,
+      outputDir: options.output || join(cwd, DEFAULT_OUTPUT),
+      workspace,
+      graph,
+      nodeModulesPaths: await getNodeModulesPaths(workspace),
+      roots: new Set([...(await getDirectDependencies(cwd)), ...(graph?.roots ?? [])]),
+      internalDirs: await getWorkspacePackageDirs(workspace),
+      targets: [],
+    },
+    options
+  );
+  const packages = [...processed.values()].filter(hasSkillContent);
+  sanitizeReadmes(packages, options);
+  return packages;
+}
+
+/**
+ * Find the packages of a skill set, keeping the first occurrence of each
+ * package (or of each version with `allVersions`)
+ */
+async function collectPackages(
+  context: SkillSetContext,
+  options: GenerateOptions
+): Promise<{ processed: Map<string, PackageInfo>; packagesScanned: number }> {
+  const { graph, roots } = context;
+
+  // Place every package in the lockfile's dependency graph
+  const maxDepth = getMaxDepth(options);
+  const depths = computeDepths(graph, roots);
+  const dependents = graph ? getDependents(graph) : new Map<string, Set<string>>();
 
   // Track processed packages to avoid duplicates
   const processed = new Map<string, PackageInfo>();
   let packagesScanned = 0;
 
   // Traverse all node_modules
-  for (const nmPath of nodeModulesPaths) {
-    for await (const pkg of traverseNodeModules(nmPath, options)) {
-      packagesScanned++;
+  for await (const pkg of discoverPackages(context, options)) {
+    packagesScanned++;
 
-      // Skip if not a direct dependency (when filtering)
-      if (directDeps && !directDeps.has(pkg.name)) {
-        continue;
-      }
+    // Skip packages deeper than the requested depth (when filtering)
+    const depth = depths.get(pkg.name);
+    if (maxDepth !== undefined && (depth === undefined || depth > maxDepth)) {
+      continue;
+    }
 
-      // Keep the first occurrence (usually from root node_modules)
-      const key = pkg.name;
-      if (!processed.has(key)) {
-        processed.set(key, pkg);
-      }
+    // Keep the first occurrence (usually from root node_modules), per version if requested
+    const key = options.allVersions ? `${pkg.name}@${pkg.version}` : pkg.name;
+    if (!processed.has(key)) {
+      pkg.depth = depth;
+      pkg.dependents = [...(dependents.get(pkg.name) ?? [])].sort(
+        (a, b) => (depths.get(a) ?? Infinity) - (depths.get(b) ?? Infinity) || compareStrings(a, b)
+      );
+      processed.set(key, pkg);
     }
   }
 
-  // Create skill files with folder structure
+  return { processed, packagesScanned };
+}
+
+/**
+ * Write the skill folders of a skill set with their index and manifest,
+ * skipping unchanged packages
+ */
+async function writeSkillTree(
+  context: SkillSetContext,
+  options: GenerateOptions,
+  processed: Map<string, PackageInfo>,
+  renderOptions: SkillRenderOptions
+): Promise<Pick<GenerateResult, 'skills' | 'changes' | 'versionChanges'>> {
+  const { cwd, outputDir, workspace, plan } = context;
+
+  // Without a manifest we can't tell which files are ours, so start fresh
+  const previous = await readManifest(outputDir);
+  if (!previous) {
+    await removeOutput(outputDir, plan, { recursive: true });
+  }
+
+  // Ensure gitignore entry
+  await ensureGitignore(cwd, `${relative(cwd, outputDir).split(sep).join('/')}/`, plan);
+
+  // Create skill files with folder structure, skipping unchanged packages
+  const configHash = hashConfig({
+    ...renderOptions,
+    // Today's date isn't a config change, a date from SOURCE_DATE_EPOCH is
+    date:
+      options.deterministic === false && !process.env.SOURCE_DATE_EPOCH
+        ? undefined
+        : renderOptions.date,
+    deterministic: options.deterministic !== false,
+    maxTokens: options.maxTokens,
+    maxBytes: options.maxBytes,
+    packageLimits: options.packageLimits,
+    split: options.split,
+    sanitize: options.sanitize,
+  });
+  const configChanged = previous?.configHash !== configHash;
+  const manifest: SkillManifest = {
+    version: MANIFEST_VERSION,
+    configHash,
+    packages: {},
+    targets: context.targets,
+  };
+  const changes: GenerateChanges = { added: 0, updated: 0, removed: 0, unchanged: 0 };
   const skills: SkillFile[] = [];
 
+  // Packages with several installed versions get one folder per version
+  const versionsByName = new Map<string, PackageInfo[]>();
   for (const pkg of processed.values()) {
-    const skill = await createSkillFile(pkg, outputDir, { useFolderStructure: true });
-    if (skill) {
-      skills.push(skill);
+    if (!hasSkillContent(pkg)) continue;
+    versionsByName.set(pkg.name, [...(versionsByName.get(pkg.name) ?? []), pkg]);
+  }
+
+  // Versions documented by the previous generation
+  const previousVersions = new Map<string, string[]>();
+  for (const entry of Object.values(previous?.packages ?? {})) {
+    previousVersions.set(entry.name, [...(previousVersions.get(entry.name) ?? []), entry.version]);
+  }
+
+  for (const pkg of processed.values()) {
+    if (!hasSkillContent(pkg)) continue;
+
+    const versioned = versionsByName.get(pkg.name)!.length > 1;
+    const targetPath = getSkillTargetPath(pkg, outputDir, { versioned });
+    const key = getManifestKey(outputDir, targetPath);
+    const sources = await hashSources(pkg);
+    const location = getPackageLocation(pkg, outputDir);
+    const entry = previous?.packages[key];
+
+    // Remember the old version of an upgraded (or downgraded) package until it changes again
+    const before = previousVersions.get(pkg.name);
+    if (!versioned && before?.length === 1 && before[0] !== pkg.version) {
+      pkg.previousVersion = before[0];
+    } else if (entry?.version === pkg.version && entry.previousVersion) {
+      pkg.previousVersion = entry.previousVersion;
     }
+
+    const isUnchanged =
+      entry &&
+      !configChanged &&
+      entry.version === pkg.version &&
+      entry.location === location &&
+      sameSources(entry.sources, sources) &&
+      (await hashFile(targetPath)) === entry.outputHash &&
+      (await sameOutputs(outputDir, entry.references));
+
+    if (isUnchanged) {
+      manifest.packages[key] = entry;
+      changes.unchanged++;
+      skills.push({
+        name: pkg.name,
+        version: pkg.version,
+        sourcePath: pkg.packagePath || pkg.readmePath || '',
+        targetPath,
+        tokens: entry.tokens,
+      });
+      continue;
+    }
+
+    const skill = await createSkillFile(pkg, outputDir, {
+      useFolderStructure: true,
+      versioned,
+      limits: getSkillLimits(pkg.name, options),
+      split: options.split,
+      plan: context.plan,
+      ...renderOptions,
+    });
+    if (!skill) continue;
+
+    const references: Record<string, string> = {};
+    for (const reference of skill.references ?? []) {
+      references[getManifestKey(outputDir, reference.targetPath)] = hashContent(reference.content);
+    }
+    // Reference files no longer generated (split turned off, no changelog anymore)
+    for (const referenceKey of Object.keys(entry?.references ?? {})) {
+      if (!references[referenceKey]) {
+        await removeSkillFile(outputDir, join(outputDir, referenceKey), plan);
+      }
+    }
+
+    manifest.packages[key] = {
+      name: pkg.name,
+      version: pkg.version,
+      ...(location ? { location } : {}),
+      sources,
+      outputHash: hashContent(skill.content ?? ''),
+      tokens: skill.tokens,
+      ...(pkg.previousVersion ? { previousVersion: pkg.previousVersion } : {}),
+      ...(skill.references ? { references } : {}),
+    };
+    if (entry) {
+      changes.updated++;
+    } else {
+      changes.added++;
+    }
+    skills.push(skill);
+  }
+
+  // Write a version selector for packages with several installed versions
+  const usage = await getWorkspaceUsage(workspace);
+  const files: string[] = [];
+  for (const versions of versionsByName.values()) {
+    if (versions.length < 2) continue;
+
+    const selectorPath = getSkillTargetPath(versions[0], outputDir);
+    await writeOutput(
+      selectorPath,
+      generateVersionSelector(versions, outputDir, usage, renderOptions),
+      plan
+    );
+    files.push(getManifestKey(outputDir, selectorPath));
+  }
+  if (files.length > 0) {
+    manifest.files = files.sort();
+  }
+
+  // Remove skills for packages that are gone
+  for (const key of Object.keys(previous?.packages ?? {})) {
+    if (!manifest.packages[key]) {
+      for (const referenceKey of Object.keys(previous!.packages[key].references ?? {})) {
+        await removeSkillFile(outputDir, join(outputDir, referenceKey), plan);
+      }
+      if (!files.includes(key)) {
+        await removeSkillFile(outputDir, join(outputDir, key), plan);
+      }
+      changes.removed++;
+    }
+  }
+  for (const key of previous?.files ?? []) {
+    if (!files.includes(key) && !manifest.packages[key]) {
+      await removeSkillFile(outputDir, join(outputDir, key), plan);
+    }
+  }
+
+  // Version changes since the previous generation
+  let versionChanges: VersionChanges | undefined;
+  if (previous) {
+    versionChanges = diffVersions(previousVersions, versionsByName);
+  }
+
+  // UPGRADES.md lists the packages whose SKILL.md has a "Changes since" section
+  const changed = [...versionsByName.values()].flat().filter(pkg => pkg.previousVersion);
+  if (changed.length > 0) {
+    await generateUpgrades(outputDir, changed, versionsByName, plan, renderOptions.date);
+  } else {
+    await removeOutput(join(outputDir, UPGRADES_FILE), plan);
   }
 
   // Generate index file
-  await generateIndex(outputDir, skills, workspace.type, processed);
+  await generateIndex(
+    outputDir,
+    skills,
+    workspace.type,
+    processed,
+    usage,
+    context.linkedSets,
+    plan,
+    renderOptions.date
+  );
+  await generateJsonIndex(context, versionsByName, manifest, usage);
+  const documented = [...versionsByName.values()].flat();
+  await writeSearchIndex(documented, outputDir, plan);
+
+  // The same documentation as single files, for tools that take one file
+  if (options.llmsTxt) {
+    await writeOutput(
+      join(outputDir, LLMS_TXT),
+      formatLlmsTxt(documented, outputDir, workspace.type),
+      plan
+    );
+    await writeOutput(
+      join(outputDir, LLMS_FULL_TXT),
+      formatLlmsFullTxt(documented, name => getSkillLimits(name, options)),
+      plan
+    );
+  } else {
+    await removeOutput(join(outputDir, LLMS_TXT), plan);
+    await removeOutput(join(outputDir, LLMS_FULL_TXT), plan);
+  }
 
   // Generate CLAUDE.md with instructions
-  await generateClaudeMd(outputDir);
+  if (context.targets.includes('claude-skills')) {
+    await generateClaudeMd(outputDir, plan);
+  } else {
+    await removeOutput(join(outputDir, 'CLAUDE.md'), plan);
+  }
 
-  return {
-    skills,
-    workspaceType: workspace.type,
-    packagesScanned,
-    duration: Date.now() - startTime,
-  };
+  await writeManifest(outputDir, manifest, plan);
+
+  return { skills, changes, ...(versionChanges ? { versionChanges } : {}) };
+}
+
+/**
+ * Compare the versions documented by the previous generation with the current ones
+ *
+ * A package with a single version before and after is upgraded or downgraded;
+ * with several versions, each version is added or removed on its own.
+ */
+function diffVersions(
+  previousVersions: Map<string, string[]>,
+  versionsByName: Map<string, PackageInfo[]>
+): VersionChanges {
+  const changes: VersionChanges = { upgraded: [], downgraded: [], added: [], removed: [] };
+
+  for (const [name, versions] of versionsByName) {
+    const before = previousVersions.get(name) ?? [];
+    if (before.length === 1 && versions.length === 1) {
+      const [pkg] = versions;
+      const from = before[0];
+      if (from === pkg.version) continue;
+
+      if (compareVersions(pkg.version, from) > 0) {
+        const entries = selectChangelogEntriesSince(
+          pkg.docs?.changelogEntries ?? [],
+          from,
+          pkg.version
+        );
+        const breaking = isBreakingUpgrade(from, pkg.version, entries);
+        changes.upgraded.push({ name, from, to: pkg.version, breaking });
+      } else {
+        changes.downgraded.push({ name, from, to: pkg.version });
+      }
+      continue;
+    }
+
+    const current = versions.map(pkg => pkg.version);
+    for (const to of current.filter(version => !before.includes(version))) {
+      changes.added.push({ name, to });
+    }
+    for (const from of before.filter(version => !current.includes(version))) {
+      changes.removed.push({ name, from });
+    }
+  }
+
+  for (const [name, before] of previousVersions) {
+    if (versionsByName.has(name)) continue;
+    changes.removed.push(...before.map(from => ({ name, from })));
+  }
+
+  for (const list of Object.values(changes) as VersionChange[][]) {
+    list.sort((a, b) => compareStrings(a.name, b.name));
+  }
+  return changes;
+}
+
+/**
+ * Get the deepest dependency level to include, or undefined for all packages
+ * (`directOnly` is shorthand for depth 0)
+ */
+function getMaxDepth(options: GenerateOptions): number | undefined {
+  return options.depth ?? (options.directOnly ? 0 : undefined);
+}
+
+/**
+ * Yield the project's workspace packages, then packages from every node_modules
+ * folder and Yarn's Plug'n'Play cache, followed by pnpm's virtual store
+ * (transitive dependencies) unless only direct dependencies are wanted
+ */
+async function* discoverPackages(
+  context: SkillSetContext,
+  options: GenerateOptions
+): AsyncGenerator<PackageInfo> {
+  const { workspace, nodeModulesPaths } = context;
+
+  // Local packages come first so they win over their node_modules symlinks
+  yield* traverseWorkspacePackages(
+    context.internalDirs,
+    join(context.cwd, 'node_modules'),
+    options
+  );
+
+  for (const nmPath of nodeModulesPaths) {
+    yield* traverseNodeModules(nmPath, options);
+  }
+
+  if (workspace.pnpPath) {
+    yield* traversePnp(workspace.pnpPath, options);
+  }
+
+  if (getMaxDepth(options) === 0) return;
+
+  for (const nmPath of nodeModulesPaths) {
+    yield* traversePnpmStore(nmPath, options);
+  }
+}
+
+/**
+ * Check that generated files still have the hashes recorded in the manifest
+ */
+async function sameOutputs(
+  outputDir: string,
+  hashes: Record<string, string> = {}
+): Promise<boolean> {
+  for (const [key, hash] of Object.entries(hashes)) {
+    if ((await hashFile(join(outputDir, key))) !== hash) return false;
+  }
+  return true;
+}
+
+/**
+ * Remove a generated skill file and any folders it leaves empty
+ */
+async function removeSkillFile(
+  outputDir: string,
+  targetPath: string,
+  plan?: FilePlan
+): Promise<void> {
+  await removeOutput(targetPath, plan);
+  if (plan) return;
+
+  let dir = dirname(targetPath);
+  while (dir.startsWith(outputDir) && dir !== outputDir) {
+    try {
+      if ((await readdir(dir)).length > 0) break;
+      await rmdir(dir);
+    } catch {
+      break;
+    }
+    dir = dirname(dir);
+  }
 }
 
 async function generateIndex(
   outputDir: string,
   skills: SkillFile[],
   workspaceType: string,
-  packages?: Map<string, PackageInfo>
+  packages?: Map<string, PackageInfo>,
+  usage: Map<string, string[]> = new Map(),
+  workspaceSets: WorkspaceSkillSet[] = [],
+  plan?: FilePlan,
+  date?: string
 ): Promise<void> {
-  await mkdir(outputDir, { recursive: true });
-  const sorted = [...skills].sort((a, b) => a.name.localeCompare(b.name));
-  const now = new Date().toISOString().split('T')[0];
+  // One row per package: several installed versions share a row linking to the selector
+  const versionsByName = new Map<string, SkillFile[]>();
+  for (const skill of skills) {
+    versionsByName.set(skill.name, [...(versionsByName.get(skill.name) ?? []), skill]);
+  }
+  const multiVersion = [...versionsByName.values()]
+    .filter(versions => versions.length > 1)
+    .map(versions => versions.sort((a, b) => compareVersions(b.version, a.version)));
+  const sorted = [...versionsByName.values()]
+    .map(versions => ({ ...versions[0], version: versions.map(s => s.version).join(', ') }))
+    .sort((a, b) => compareStrings(a.name, b.name));
 
   // Group by scope for better organization
   const scoped: Record<string, SkillFile[]> = {};
@@ -138,23 +852,35 @@ async function generateIndex(
     }
   }
 
+  const internalCount = new Set(
+    [...(packages?.values() ?? [])].filter(pkg => pkg.internal).map(pkg => pkg.name)
+  ).size;
+
   const lines: string[] = [
     '<!-- v-skills index - auto-generated -->',
     '# Dependency Skills Index',
     '',
-    `> Generated by v-skills | Workspace: ${workspaceType} | ${skills.length} packages`,
+    `> Generated by v-skills | Workspace: ${workspaceType} | ${sorted.length} packages`,
     '',
     '## Quick Stats',
     '',
-    `- **Total Packages:** ${skills.length}`,
+    `- **Total Packages:** ${sorted.length}`,
     `- **Scoped Packages:** ${sorted.length - unscoped.length}`,
+    ...(internalCount > 0 ? [`- **Internal Packages:** ${internalCount}`] : []),
     `- **Workspace Type:** ${workspaceType}`,
-    `- **Last Updated:** ${now}`,
+    ...(date ? [`- **Last Updated:** ${date}`] : []),
     '',
   ];
 
-  // Helper to get package metadata
-  const getPackageInfo = (name: string) => packages?.get(name);
+  // Helper to get package metadata (the newest version when several are installed)
+  const newest = new Map<string, PackageInfo>();
+  for (const pkg of packages?.values() ?? []) {
+    const current = newest.get(pkg.name);
+    if (!current || compareVersions(pkg.version, current.version) > 0) {
+      newest.set(pkg.name, pkg);
+    }
+  }
+  const getPackageInfo = (name: string) => newest.get(name);
   const formatKeywords = (keywords?: string[]) => {
     if (!keywords || !Array.isArray(keywords) || keywords.length === 0) {
       return '-';
@@ -163,6 +889,14 @@ async function generateIndex(
   };
   const truncate = (text: string, maxLen: number) =>
     text.length > maxLen ? text.slice(0, maxLen - 3) + '...' : text;
+  const formatDescription = (pkg?: PackageInfo) => {
+    const desc = pkg?.description ? truncate(pkg.description, 60) : '-';
+    if (!pkg?.depth || !pkg.dependents?.length) return desc;
+
+    const shown = pkg.dependents.slice(0, 3).join(', ');
+    const more = pkg.dependents.length > 3 ? ` +${pkg.dependents.length - 3} more` : '';
+    return `${desc} _(pulled in by ${shown}${more})_`;
+  };
 
   // Unscoped packages
   if (unscoped.length > 0) {
@@ -173,10 +907,11 @@ async function generateIndex(
 
     for (const skill of unscoped) {
       const pkg = getPackageInfo(skill.name);
-      const desc = pkg?.description ? truncate(pkg.description, 60) : '-';
+      const desc = formatDescription(pkg);
       const keywords = formatKeywords(pkg?.keywords);
+      const label = pkg?.internal ? `${skill.name} (internal)` : skill.name;
       lines.push(
-        `| [${skill.name}](./${skill.name}/SKILL.md) | ${skill.version} | ${desc} | ${keywords} |`
+        `| [${label}](./${skill.name}/SKILL.md) | ${skill.version} | ${desc} | ${keywords} |`
       );
     }
     lines.push('');
@@ -196,9 +931,10 @@ async function generateIndex(
       lines.push('|---------|---------|-------------|----------|');
 
       for (const skill of scopeSkills) {
-        const shortName = skill.name.replace(`${scope}/`, '');
         const pkg = getPackageInfo(skill.name);
-        const desc = pkg?.description ? truncate(pkg.description, 60) : '-';
+        const shortName =
+          skill.name.replace(`${scope}/`, '') + (pkg?.internal ? ' (internal)' : '');
+        const desc = formatDescription(pkg);
         const keywords = formatKeywords(pkg?.keywords);
         lines.push(
           `| [${shortName}](./${skill.name}/SKILL.md) | ${skill.version} | ${desc} | ${keywords} |`
@@ -208,6 +944,37 @@ async function generateIndex(
     }
   }
 
+  // Skill sets of the workspace packages (perWorkspace mode)
+  if (workspaceSets.length > 0) {
+    lines.push('## Workspaces');
+    lines.push('');
+    lines.push('| Workspace | Path | Index |');
+    lines.push('|-----------|------|-------|');
+
+    for (const set of workspaceSets) {
+      const link = relative(outputDir, join(set.output, '_index.md')).split(sep).join('/');
+      lines.push(`| ${set.name} | ${set.path} | [_index.md](${link}) |`);
+    }
+    lines.push('');
+  }
+
+  // Which workspace uses which version
+  if (multiVersion.length > 0) {
+    lines.push('## Multiple Versions');
+    lines.push('');
+    lines.push('| Package | Version | Used By |');
+    lines.push('|---------|---------|---------|');
+
+    for (const versions of multiVersion) {
+      for (const skill of versions) {
+        const link = getManifestKey(outputDir, skill.targetPath);
+        const usedBy = usage.get(`${skill.name}@${skill.version}`)?.join(', ') || '-';
+        lines.push(`| [${skill.name}](./${link}) | ${skill.version} | ${usedBy} |`);
+      }
+    }
+    lines.push('');
+  }
+
   lines.push(
     '## About',
     '',
@@ -220,13 +987,173 @@ async function generateIndex(
     '- Additional documentation (CONTRIBUTING, API, etc.)',
     '',
     '---',
-    `*Auto-generated by v-skills on ${now}. Do not edit manually.*`
+    `*Auto-generated by v-skills${date ? ` on ${date}` : ''}. Do not edit manually.*`
+  );
+
+  await writeOutput(join(outputDir, '_index.md'), lines.join('\n'), plan);
+}
+
+/**
+ * Write skills.json: every documented package with its metadata, paths and
+ * the size and hash of its SKILL.md
+ */
+async function generateJsonIndex(
+  context: SkillSetContext,
+  versionsByName: Map<string, PackageInfo[]>,
+  manifest: SkillManifest,
+  usage: Map<string, string[]>
+): Promise<void> {
+  const { outputDir } = context;
+  const toIndexPath = (path: string) => relative(outputDir, path).split(sep).join('/');
+  const packages: SkillsIndexEntry[] = [];
+
+  for (const versions of versionsByName.values()) {
+    for (const pkg of versions) {
+      const versioned = versions.length > 1;
+      const skillPath = getSkillTargetPath(pkg, outputDir, { versioned });
+      const entry = manifest.packages[getManifestKey(outputDir, skillPath)];
+      if (!entry) continue;
+
+      const usedBy = usage.get(`${pkg.name}@${pkg.version}`);
+      packages.push({
+        name: pkg.name,
+        version: pkg.version,
+        description: pkg.description,
+        keywords: Array.isArray(pkg.keywords) ? pkg.keywords.map(String) : undefined,
+        license: pkg.licenseType,
+        homepage: pkg.homepage,
+        skillPath: toIndexPath(skillPath),
+        sourcePath: pkg.packagePath ? toIndexPath(pkg.packagePath) : undefined,
+        entryPoints: pkg.docs?.entryPoints?.map(({ subpath, typesPath }) => ({
+          subpath,
+          ...(typesPath ? { typesPath: toIndexPath(typesPath) } : {}),
+        })),
+        typesPath: pkg.docs?.typesPath ? toIndexPath(pkg.docs.typesPath) : undefined,
+        direct: pkg.depth === 0,
+        depth: pkg.depth,
+        internal: pkg.internal || undefined,
+        dependents: pkg.dependents?.length ? pkg.dependents : undefined,
+        usedBy: usedBy?.length ? usedBy : undefined,
+        tokens: entry.tokens,
+        contentHash: entry.outputHash,
+      });
+    }
+  }
+  packages.sort((a, b) => compareStrings(a.name, b.name) || compareVersions(a.version, b.version));
+
+  const index: SkillsIndex = {
+    schemaVersion: SKILLS_INDEX_VERSION,
+    workspaceType: context.workspace.type,
+    packages,
+    ...(context.linkedSets?.length
+      ? {
+          workspaces: context.linkedSets.map(set => ({
+            name: set.name,
+            path: set.path,
+            index: toIndexPath(join(set.output, SKILLS_INDEX_FILE)),
+          })),
+        }
+      : {}),
+  };
+
+  await writeOutput(
+    join(outputDir, SKILLS_INDEX_FILE),
+    JSON.stringify(index, null, 2) + '\n',
+    context.plan
+  );
+}
+
+/**
+ * Write UPGRADES.md: packages whose version changed since they were first
+ * documented, with the changelog entries of upgraded packages
+ *
+ * @param changed - Packages with a previous version, kept until their version changes again
+ */
+async function generateUpgrades(
+  outputDir: string,
+  changed: PackageInfo[],
+  versionsByName: Map<string, PackageInfo[]>,
+  plan?: FilePlan,
+  date?: string
+): Promise<void> {
+  const skillLink = (name: string, version?: string) => {
+    const pkg = versionsByName.get(name)?.find(candidate => candidate.version === version);
+    if (!pkg) return name;
+    const versioned = versionsByName.get(name)!.length > 1;
+    const link = getManifestKey(outputDir, getSkillTargetPath(pkg, outputDir, { versioned }));
+    return `[${name}](./${link})`;
+  };
+
+  const upgraded: VersionChange[] = [];
+  const downgraded: VersionChange[] = [];
+  for (const pkg of [...changed].sort((a, b) => compareStrings(a.name, b.name))) {
+    const from = pkg.previousVersion!;
+    if (compareVersions(pkg.version, from) > 0) {
+      const entries = selectChangelogEntriesSince(
+        pkg.docs?.changelogEntries ?? [],
+        from,
+        pkg.version
+      );
+      upgraded.push({
+        name: pkg.name,
+        from,
+        to: pkg.version,
+        breaking: isBreakingUpgrade(from, pkg.version, entries),
+      });
+    } else {
+      downgraded.push({ name: pkg.name, from, to: pkg.version });
+    }
+  }
+
+  const lines: string[] = [
+    '<!-- v-skills upgrades - auto-generated -->',
+    '# Dependency Upgrades',
+    '',
+    `> Version changes found by v-skills${date ? ` on ${date}` : ''}. ` +
+      'Code written for the old versions may need updating.',
+    '',
+  ];
+
+  if (upgraded.length > 0) {
+    lines.push('## Upgraded');
+    lines.push('');
+    for (const change of upgraded) {
+      const breaking = change.breaking ? ' **BREAKING**' : '';
+      lines.push(`### ${change.name}: ${change.from} → ${change.to}${breaking}`);
+      lines.push('');
+      lines.push(`Skill: ${skillLink(change.name, change.to)}`);
+      lines.push('');
+
+      const pkg = versionsByName
+        .get(change.name)
+        ?.find(candidate => candidate.version === change.to);
+      const entries = selectChangelogEntriesSince(
+        pkg?.docs?.changelogEntries ?? [],
+        change.from!,
+        change.to!
+      );
+      lines.push(...formatChangelogEntries(entries, 4));
+    }
+  }
+
+  if (downgraded.length > 0) {
+    lines.push('## Downgraded');
+    lines.push('');
+    for (const change of downgraded) {
+      lines.push(`- ${skillLink(change.name, change.to)}: ${change.from} → ${change.to}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(
+    '---',
+    `*Auto-generated by v-skills${date ? ` on ${date}` : ''}. Do not edit manually.*`
   );
 
-  await writeFile(join(outputDir, '_index.md'), lines.join('\n'));
+  await writeOutput(join(outputDir, UPGRADES_FILE), lines.join('\n'), plan);
 }
 
-async function generateClaudeMd(outputDir: string): Promise<void> {
+async function generateClaudeMd(outputDir: string, plan?: FilePlan): Promise<void> {
   const content = `# v-skills Documentation
 
 This folder contains auto-generated skill files for installed npm packages.
@@ -245,6 +1172,7 @@ The index contains:
 1. **Start with the index**: Read \`_index.md\` to get an overview and find relevant packages
 2. **Use descriptions/keywords**: Search the index for packages related to your task
 3. **Read specific SKILL.md**: Once you identify relevant packages, read their full documentation
+4. **Check \`UPGRADES.md\`**: If it exists, it lists dependencies whose version changed recently and what changed, so code written for the old versions can be updated
 
 This approach is much more efficient than randomly opening SKILL.md files, especially in projects with 100+ dependencies.
 
@@ -252,12 +1180,25 @@ This approach is much more efficient than randomly opening SKILL.md files, espec
 *Generated by v-skills*
 `;
 
-  await writeFile(join(outputDir, 'CLAUDE.md'), content);
+  await writeOutput(join(outputDir, 'CLAUDE.md'), content, plan);
 }
 
-export async function clean(options: { cwd?: string; output?: string } = {}): Promise<void> {
+export async function clean(
+  options: { cwd?: string; output?: string; perWorkspace?: GenerateOptions['perWorkspace'] } = {}
+): Promise<void> {
   const cwd = options.cwd || process.cwd();
   const outputDir = options.output || join(cwd, DEFAULT_OUTPUT);
 
   await rm(outputDir, { recursive: true, force: true });
+
+  // Rule files of other tools and AGENTS.md sections, in the workspace packages too
+  const workspaceDirs = await getWorkspacePackageDirs(await detectWorkspace(cwd));
+  await cleanTargets(cwd, [cwd, ...workspaceDirs]);
+
+  // Workspace skill sets written inside each workspace package
+  if (options.perWorkspace === 'package') {
+    for (const dir of workspaceDirs) {
+      await rm(join(dir, DEFAULT_OUTPUT), { recursive: true, force: true });
+    }
+  }
 }
@@ -1,19 +1,80 @@
-export { generate, clean } from './generator.js';
-export { detectWorkspace, getNodeModulesPaths } from './workspace.js';
+export {
+  generate,
+  clean,
+  scanPackages,
+  SKILLS_INDEX_FILE,
+  SKILLS_INDEX_VERSION,
+} from './generator.js';
+export {
+  detectWorkspace,
+  getNodeModulesPaths,
+  getWorkspacePackageDirs,
+  getWorkspaceUsage,
+} from './workspace.js';
 export { traverseNodeModules, getDirectDependencies } from './traverse.js';
+export { traversePnpmStore } from './pnpm.js';
+export { readDependencyGraph } from './lockfile.js';
+export type { DependencyGraph } from './lockfile.js';
+export { traversePnp, findPnpFile } from './pnp.js';
+export type { PnpLocator } from './pnp.js';
+export { extractApi, findSourceEntry } from './api.js';
+export type { ApiFiles } from './api.js';
+export { resolveEntryPoints } from './exports.js';
+export type { ResolvedEntryPoint } from './exports.js';
+export { sanitizeMarkdown } from './sanitize.js';
+export {
+  parseChangelog,
+  selectChangelogEntries,
+  selectChangelogEntriesSince,
+} from './changelog.js';
+export { writeAgentsMd, writeRuleTarget, RULE_TARGETS, TARGET_NAMES } from './targets.js';
+export type { RuleTarget, RuleTargetName, TargetContext } from './targets.js';
+export { formatLlmsFullTxt, formatLlmsTxt } from './llms.js';
+export { watch } from './watch.js';
+export { diff } from './diff.js';
+export { check } from './check.js';
+export type { CheckEntry, CheckResult } from './check.js';
+export type { WatchOptions, WatchUpdate, Watcher } from './watch.js';
+export { search, SEARCH_INDEX_FILE } from './search.js';
+export type { SearchDocument, SearchResult } from './search.js';
+export { createMcpServer, serveMcp } from './mcp.js';
+export type { JsonRpcMessage } from './mcp.js';
 export {
   createSkillFile,
   createSkillFileName,
   createSkillFolderName,
+  createSkillName,
   generateMarkdown,
+  generateVersionSelector,
+  getSkillTargetPath,
+  hasSkillContent,
 } from './linker.js';
+export type { SkillRenderOptions } from './linker.js';
 export { loadConfig, mergeConfig } from './config.js';
 export type {
+  ApiSymbol,
+  ApiSymbolKind,
+  ChangelogEntry,
   DocumentationSources,
+  EntryPoint,
+  FrontmatterFields,
+  OutputTargetName,
   PackageInfo,
+  PlannedOperation,
+  ReferenceFile,
+  SanitizeOptions,
   WorkspaceInfo,
+  GenerateChanges,
+  WorkspaceSkillSet,
   GenerateOptions,
   GenerateResult,
   SkillFile,
+  SkillLimits,
+  SkillsIndex,
+  SkillsIndexEntry,
+  SkillsIndexVersion,
+  TargetOutput,
+  VersionChange,
+  VersionChanges,
   VSkillsConfig,
 } from './types.js';
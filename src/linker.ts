@@ -1,16 +1,74 @@
-import { writeFile, mkdir, rm } from 'node:fs/promises';
-import { join, relative, dirname } from 'node:path';
-import type { PackageInfo, SkillFile } from './types.js';
-import { fileExists } from './utils.js';
+import { basename, join, relative, dirname, sep } from 'node:path';
+import type {
+  ApiSymbol,
+  ApiSymbolKind,
+  FrontmatterFields,
+  PackageInfo,
+  ReferenceFile,
+  SkillFile,
+  SkillLimits,
+} from './types.js';
+import { compareVersions, fileExists } from './utils.js';
+import { removeOutput, writeOutput, type FilePlan } from './plan.js';
+import { stringifyFrontmatter, type YamlValue } from './yaml.js';
+import { hashContent } from './manifest.js';
+import {
+  applyBudget,
+  createTruncationMarker,
+  estimateTokens,
+  splitReadme,
+  type BudgetResult,
+  type SectionKind,
+  type SkillSection,
+} from './tokens.js';
+import {
+  DEFAULT_CHANGELOG_VERSIONS,
+  formatChangelogEntries,
+  isBreakingUpgrade,
+  selectChangelogEntriesSince,
+} from './changelog.js';
 
-async function ensureDir(path: string): Promise<void> {
-  try {
-    await mkdir(path, { recursive: true });
-  } catch {
-    // Directory exists
-  }
+/** Maximum length of the frontmatter `name` field accepted by skill loaders */
+const MAX_SKILL_NAME_LENGTH = 64;
+
+/** Hash characters added to skill names changed by folding */
+const SKILL_NAME_HASH_LENGTH = 6;
+
+/** Maximum length of the frontmatter `description` field accepted by skill loaders */
+const MAX_SKILL_DESCRIPTION_LENGTH = 1024;
+
+/** Built-in frontmatter keys that custom fields cannot override */
+const BUILT_IN_FRONTMATTER_KEYS = ['name', 'description', 'version', 'keywords', 'homepage'];
+
+/**
+ * Options that affect how SKILL.md content is rendered
+ */
+export interface SkillRenderOptions {
+  /** Custom frontmatter fields appended after the built-in ones */
+  frontmatter?: FrontmatterFields;
+  /** One of several installed versions: written to name/version/SKILL.md */
+  versioned?: boolean;
+  /** Size limits: the least important sections are cut to fit */
+  limits?: SkillLimits;
+  /** Short SKILL.md linking to reference files with the README, API and changelog */
+  split?: boolean;
+  /** Changelog entries shown before the installed version's (default: 3) */
+  changelogVersions?: number;
+  /** Frontmatter written instead of the skill's own (rule files of other tools) */
+  frontmatterBlock?: string;
+  /** Generation date in the footer (YYYY-MM-DD), none when undefined */
+  date?: string;
 }
 
+/** Folder next to a SKILL.md holding its reference files (split mode) */
+const REFERENCE_DIR = 'reference';
+
+/** README heading levels listed in the table of contents of a split SKILL.md */
+const MAX_TOC_LEVEL = 3;
+
+/** Headings listed in the table of contents, the rest are counted */
+const MAX_TOC_ENTRIES = 100;
+
 /**
  * Create a safe folder name from package name
  *
@@ -51,6 +109,75 @@ export function createSkillFileName(name: string, version: string): string {
   return `${safeName}@${version}.md`;
 }
 
+/**
+ * Create a skill name suitable for the frontmatter `name` field
+ *
+ * Skill loaders only accept lowercase letters, numbers and hyphens, so scopes
+ * and other separators are folded into hyphens. Folding can map two packages
+ * to the same name (`@babel/core` and `babel-core`), so folded names end with
+ * a short hash of the package name; names that are already valid stay as they are.
+ *
+ * @param name - Package name (e.g., "react" or "@scope/package")
+ * @returns Skill name (max 64 characters)
+ *
+ * @example
+ * ```typescript
+ * createSkillName('react') // => 'react'
+ * createSkillName('@tanstack/react-query') // => 'tanstack-react-query-8e213e'
+ * ```
+ */
+export function createSkillName(name: string): string {
+  if (/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name) && name.length <= MAX_SKILL_NAME_LENGTH) {
+    return name;
+  }
+  const hash = hashContent(name).slice(0, SKILL_NAME_HASH_LENGTH);
+  const folded = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SKILL_NAME_LENGTH - SKILL_NAME_HASH_LENGTH - 1)
+    .replace(/-+$/, '');
+  return folded ? `${folded}-${hash}` : `package-${hash}`;
+}
+
+/**
+ * Get the one-line description of a package used in frontmatter, with a
+ * fallback for packages without one
+ */
+export function getSkillDescription(pkg: PackageInfo): string {
+  const description = (pkg.description || `Documentation for the ${pkg.name} package.`)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return description.length > MAX_SKILL_DESCRIPTION_LENGTH
+    ? description.slice(0, MAX_SKILL_DESCRIPTION_LENGTH - 3) + '...'
+    : description;
+}
+
+/**
+ * Build the YAML frontmatter block for a package
+ */
+function generateFrontmatter(
+  pkg: PackageInfo,
+  custom: FrontmatterFields = {},
+  versioned = false
+): string {
+  const fields: Record<string, YamlValue> = {
+    name: createSkillName(versioned ? `${pkg.name}-${pkg.version}` : pkg.name),
+    description: getSkillDescription(pkg),
+    version: pkg.version,
+    keywords: Array.isArray(pkg.keywords) ? pkg.keywords.map(String) : undefined,
+    homepage: pkg.homepage,
+  };
+
+  for (const [key, value] of Object.entries(custom)) {
+    if (!BUILT_IN_FRONTMATTER_KEYS.includes(key)) {
+      fields[key] = value;
+    }
+  }
+
+  return stringifyFrontmatter(fields);
+}
+
 /**
  * Get repository URL from various formats
  */
@@ -68,13 +195,396 @@ function getRelativePath(skillPath: string, targetPath: string): string {
   return relative(skillDir, targetPath);
 }
 
+/**
+ * Render a markdown link to a package file
+ *
+ * Files inside zip archives (Yarn PnP cache) can't be linked by relative path:
+ * the package's own files link to the published copy on unpkg for the exact
+ * installed version, anything else is shown as its in-archive path.
+ */
+function formatFileLink(
+  label: string,
+  pkg: PackageInfo,
+  skillPath: string,
+  targetPath: string
+): string {
+  if (/\.zip[\\/]/.test(targetPath)) {
+    if (pkg.archivePath && pkg.packagePath && targetPath.startsWith(pkg.packagePath)) {
+      const filePath = relative(pkg.packagePath, targetPath).split(sep).join('/');
+      return `[${label}](https://unpkg.com/${pkg.name}@${pkg.version}/${filePath})`;
+    }
+    return `${label} (\`${targetPath.replace(/^.*\.zip[\\/]/, '')}\` in Yarn cache)`;
+  }
+
+  const href = pkg.packagePath ? getRelativePath(skillPath, targetPath) : targetPath;
+  return `[${label}](${href})`;
+}
+
+/** Symbols shown in full in the "API Surface" section, the rest are only named */
+const MAX_SURFACE_SYMBOLS = 50;
+
+/** "API Surface" groups, in order */
+const SURFACE_GROUPS: [string, ApiSymbolKind[]][] = [
+  ['Functions', ['function']],
+  ['Classes', ['class']],
+  ['Interfaces & Types', ['interface', 'type']],
+  ['Enums', ['enum']],
+  ['Constants', ['const', 'variable']],
+  ['Namespaces', ['namespace']],
+];
+
+/**
+ * Format a declaration with its members, as TypeScript
+ */
+function formatDeclaration(symbol: ApiSymbol): string {
+  if (!symbol.members) return symbol.signature;
+  if (symbol.members.length === 0) return `${symbol.signature} {}`;
+
+  const separator = symbol.kind === 'enum' ? ',' : ';';
+  const members = symbol.members.map(member =>
+    member.startsWith('//') ? `  ${member}` : `  ${member}${separator}`
+  );
+  return [`${symbol.signature} {`, ...members, '}'].join('\n');
+}
+
+/**
+ * Get the first sentence of a JSDoc summary
+ */
+function firstSentence(text: string): string {
+  return /^.*?[.!?](?=\s|$)/.exec(text)?.[0] ?? text;
+}
+
+/**
+ * Format the symbols exported by a package's type definitions as an
+ * "API Surface" section, grouped by kind
+ *
+ * Large declaration files are summarized: only the first symbols are shown
+ * in full, the others are listed by name.
+ */
+function formatApiSurfaceSection(pkg: PackageInfo, skillPath: string): string[] {
+  const { apiSurface = [], typesPath } = pkg.docs;
+  const lines: string[] = ['## API Surface', ''];
+
+  if (typesPath) {
+    // Definitions from an @types package are named after it
+    const typesFile =
+      pkg.packagePath && typesPath.startsWith(pkg.packagePath + sep)
+        ? relative(pkg.packagePath, typesPath)
+        : typesPath.replace(/^.*node_modules[\\/]/, '');
+    const label = `\`${typesFile.split(sep).join('/')}\``;
+    lines.push(`Exports declared in ${formatFileLink(label, pkg, skillPath, typesPath)}:`);
+    lines.push('');
+  }
+
+  const shown = apiSurface.slice(0, MAX_SURFACE_SYMBOLS);
+  for (const [title, kinds] of SURFACE_GROUPS) {
+    const symbols = shown.filter(symbol => kinds.includes(symbol.kind));
+    if (symbols.length === 0) continue;
+
+    lines.push(`### ${title}`);
+    lines.push('');
+    lines.push('```ts');
+    symbols.forEach((symbol, index) => {
+      if (index > 0) lines.push('');
+      const summary = [
+        symbol.deprecated ? '@deprecated' : '',
+        symbol.description ? firstSentence(symbol.description) : '',
+      ]
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\*\//g, '*\\/');
+      if (summary) lines.push(`/** ${summary} */`);
+      lines.push(formatDeclaration(symbol));
+    });
+    lines.push('```');
+    lines.push('');
+  }
+
+  const hidden = apiSurface.slice(MAX_SURFACE_SYMBOLS);
+  if (hidden.length > 0) {
+    const names = hidden.map(symbol => `\`${symbol.name}\``).join(', ');
+    lines.push(`*...and ${hidden.length} more exports: ${names}*`);
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Format the entry points of a package as an "Entry Points" table
+ */
+function formatEntryPointsSection(pkg: PackageInfo, skillPath: string): string[] {
+  const lines: string[] = ['## Entry Points', '', '| Import | Types |', '|--------|-------|'];
+
+  for (const entryPoint of pkg.docs.entryPoints ?? []) {
+    const specifier = pkg.name + entryPoint.subpath.slice(1);
+    let types = '-';
+    if (entryPoint.typesPath) {
+      const typesFile = pkg.packagePath
+        ? relative(pkg.packagePath, entryPoint.typesPath)
+        : entryPoint.typesPath;
+      const label = `\`${typesFile.split(sep).join('/')}\``;
+      types = formatFileLink(label, pkg, skillPath, entryPoint.typesPath);
+    }
+    lines.push(`| \`${specifier}\` | ${types} |`);
+  }
+
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Format the exported symbols of a package as an "API" section
+ */
+function formatApiSection(pkg: PackageInfo, skillPath: string): string[] {
+  const { api = [], apiEntry } = pkg.docs;
+  const lines: string[] = ['## API', ''];
+
+  if (apiEntry && pkg.packagePath) {
+    lines.push(
+      `Exports of ${formatFileLink(`\`${apiEntry}\``, pkg, skillPath, join(pkg.packagePath, apiEntry))}:`
+    );
+    lines.push('');
+  }
+
+  for (const symbol of api) {
+    lines.push(`### \`${symbol.name}\``);
+    lines.push('');
+    lines.push('```ts');
+    lines.push(formatDeclaration(symbol));
+    lines.push('```');
+    lines.push('');
+    if (symbol.deprecated) {
+      lines.push('**Deprecated.**');
+      lines.push('');
+    }
+    if (symbol.description) {
+      lines.push(symbol.description);
+      lines.push('');
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Format what changed since the previously documented version as a
+ * "Changes since" section
+ */
+function formatUpgradeSection(pkg: PackageInfo, skillPath: string): string[] {
+  const from = pkg.previousVersion!;
+  const docs = pkg.docs || {};
+  const lines: string[] = [`## Changes since ${from}`, ''];
+
+  if (compareVersions(pkg.version, from) < 0) {
+    lines.push(
+      `Downgraded from ${from} to ${pkg.version}: code written for ${from} may use features ` +
+        'this version does not have.'
+    );
+    lines.push('');
+    return lines;
+  }
+
+  const entries = selectChangelogEntriesSince(docs.changelogEntries ?? [], from, pkg.version);
+  const breaking = isBreakingUpgrade(from, pkg.version, entries)
+    ? ', with **breaking changes**'
+    : '';
+  const changelog = docs.changelogPath
+    ? formatFileLink(basename(docs.changelogPath), pkg, skillPath, docs.changelogPath)
+    : 'the changelog';
+  if (entries.length > 0) {
+    lines.push(
+      `Upgraded from ${from} to ${pkg.version}${breaking}. ` +
+        'Check code written for the old version against these changes:'
+    );
+    lines.push('');
+    lines.push(...formatChangelogEntries(entries));
+  } else {
+    lines.push(`Upgraded from ${from} to ${pkg.version}${breaking}. See ${changelog} for details.`);
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Create a heading anchor the way GitHub does (lowercase, punctuation removed,
+ * spaces replaced with hyphens)
+ */
+function slugifyHeading(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Format the headings of a README as a nested list of links into the
+ * reference copy of the README
+ *
+ * The title is skipped, as it's usually the package name again. Anchors of
+ * repeated headings get a numeric suffix, like on GitHub.
+ */
+function formatReadmeToc(readme: string, href: string): string[] {
+  const headings: { level: number; text: string; slug: string }[] = [];
+  const slugs = new Map<string, number>();
+  let inFence = false;
+  let seenHeading = false;
+
+  for (const line of readme.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = inFence ? null : /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/.exec(line);
+    if (!match) continue;
+
+    // Anchors come from the rendered text: no links, images, HTML or code marks
+    const text = match[2]
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/`/g, '')
+      .trim();
+    let slug = slugifyHeading(text);
+    const count = slugs.get(slug) ?? 0;
+    slugs.set(slug, count + 1);
+    if (count > 0) slug = `${slug}-${count}`;
+
+    const level = match[1].length;
+    const isTitle = level === 1 && !seenHeading;
+    seenHeading = true;
+    if (!isTitle && level <= MAX_TOC_LEVEL && text) headings.push({ level, text, slug });
+  }
+
+  const minLevel = Math.min(...headings.map(heading => heading.level));
+  const lines = headings
+    .slice(0, MAX_TOC_ENTRIES)
+    .map(
+      ({ level, text, slug }) =>
+        `${'  '.repeat(level - minLevel)}- [${text.replace(/[[\]]/g, '\\$&')}](${href}#${slug})`
+    );
+  if (headings.length > MAX_TOC_ENTRIES) {
+    lines.push(`- *...and ${headings.length - MAX_TOC_ENTRIES} more sections*`);
+  }
+  return lines;
+}
+
+/**
+ * Get the date stamped into generated files (YYYY-MM-DD)
+ *
+ * `SOURCE_DATE_EPOCH` (seconds since 1970) fixes the date for reproducible
+ * builds. Otherwise deterministic output has no date, so that generating
+ * twice gives the same bytes.
+ *
+ * @param deterministic - Leave the date out unless SOURCE_DATE_EPOCH is set (default: true)
+ * @throws When SOURCE_DATE_EPOCH isn't a number of seconds
+ */
+export function getGenerationDate(deterministic = true): string | undefined {
+  const epoch = process.env.SOURCE_DATE_EPOCH?.trim();
+  if (epoch) {
+    if (!/^\d+$/.test(epoch)) {
+      throw new Error(`SOURCE_DATE_EPOCH must be a number of seconds, got "${epoch}"`);
+    }
+    return new Date(Number(epoch) * 1000).toISOString().split('T')[0];
+  }
+  return deterministic ? undefined : new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Footer lines of generated files
+ */
+function formatFooter(date?: string): string[] {
+  const generated = date ? `Auto-generated by v-skills on ${date}` : 'Auto-generated by v-skills';
+  return ['---', `*${generated}. Do not edit manually.*`];
+}
+
+/**
+ * Generate the reference files of a split SKILL.md: the full README, the API
+ * (entry points and exported symbols) and the changelog, each only if the
+ * package has it
+ */
+function generateReferenceFiles(
+  pkg: PackageInfo,
+  skillPath: string,
+  date?: string
+): ReferenceFile[] {
+  const docs = pkg.docs || {};
+  const files: ReferenceFile[] = [];
+  const header = `<!-- v-skills: ${pkg.name}@${pkg.version} -->`;
+  const add = (name: string, body: (targetPath: string) => string[]) => {
+    const targetPath = join(dirname(skillPath), REFERENCE_DIR, name);
+    const content = [header, ...body(targetPath), ...formatFooter(date)].join('\n');
+    files.push({ targetPath, content });
+  };
+
+  const readme = docs.readme ?? pkg.readme;
+  if (readme) {
+    add('readme.md', () => [readme.trimEnd(), '']);
+  }
+
+  if (docs.api?.length || docs.apiSurface?.length || (docs.entryPoints?.length ?? 0) > 1) {
+    add('api.md', targetPath => {
+      const lines = [`# ${pkg.name} API`, ''];
+      if (docs.entryPoints && docs.entryPoints.length > 1) {
+        lines.push(...formatEntryPointsSection(pkg, targetPath));
+      }
+      if (docs.api?.length) {
+        lines.push(...formatApiSection(pkg, targetPath));
+      } else if (docs.apiSurface?.length) {
+        lines.push(...formatApiSurfaceSection(pkg, targetPath));
+      }
+      return lines;
+    });
+  }
+
+  if (docs.changelogEntries?.length) {
+    add('changelog.md', () => [
+      `# ${pkg.name} Changelog`,
+      '',
+      ...formatChangelogEntries(docs.changelogEntries!, 2),
+    ]);
+  } else if (docs.changelog) {
+    add('changelog.md', () => [docs.changelog!.trimEnd(), '']);
+  }
+
+  return files;
+}
+
+/**
+ * Rendered SKILL.md and the reference files it links to
+ */
+interface SkillContent extends BudgetResult {
+  references: ReferenceFile[];
+}
+
 /**
  * Generate the unified SKILL.md content
  */
-function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
-  const lines: string[] = [];
+function generateSkillContent(
+  pkg: PackageInfo,
+  skillPath: string,
+  options: SkillRenderOptions = {}
+): SkillContent {
+  const sections: SkillSection[] = [];
+  let lines: string[] = [];
   const repoUrl = getRepositoryUrl(pkg.repository);
-  const now = new Date().toISOString().split('T')[0];
+  const references = options.split ? generateReferenceFiles(pkg, skillPath, options.date) : [];
+  const referenceLink = (name: string) => {
+    const path = `${REFERENCE_DIR}/${name}`;
+    return references.some(file => basename(file.targetPath) === name) ? path : undefined;
+  };
+
+  // Move the lines written so far into a section
+  const endSection = (kind: SectionKind, marker?: string) => {
+    if (lines.length > 0) sections.push({ kind, content: lines.join('\n'), marker });
+    lines = [];
+  };
+  // Marker pointing at the full file when a section is cut
+  const markerFor = (path?: string) =>
+    createTruncationMarker(path ? formatFileLink(basename(path), pkg, skillPath, path) : undefined);
+
+  // Frontmatter must come first so skill loaders can discover the file
+  lines.push(
+    options.frontmatterBlock ?? generateFrontmatter(pkg, options.frontmatter, options.versioned)
+  );
 
   // Header comment for v-skills identification
   lines.push(`<!-- v-skills: ${pkg.name}@${pkg.version} -->`);
@@ -95,6 +605,10 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
   if (pkg.licenseType) {
     lines.push(`**License:** ${pkg.licenseType}`);
   }
+  if (pkg.internal && pkg.packagePath) {
+    const source = getRelativePath(skillPath, pkg.packagePath).split(sep).join('/');
+    lines.push(`**Internal:** workspace package ([source](${source}))`);
+  }
   if (pkg.engines && Object.keys(pkg.engines).length > 0) {
     const enginesStr = Object.entries(pkg.engines)
       .map(([k, v]) => `${k}: ${v}`)
@@ -112,12 +626,32 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
   lines.push('---');
   lines.push('');
 
-  // README section
+  // What changed since the version documented by the previous generation
+  if (pkg.previousVersion) {
+    endSection('metadata');
+    lines.push(...formatUpgradeSection(pkg, skillPath));
+    endSection('usage', markerFor(pkg.docs?.changelogPath));
+  }
+
+  // README section, split by heading so size limits can cut the least useful parts
   const readme = pkg.docs?.readme ?? pkg.readme;
-  if (readme) {
+  const readmeLink = referenceLink('readme.md');
+  if (readme && readmeLink) {
+    // Split mode: a table of contents linking into the full README
+    lines.push('## Documentation');
+    lines.push('');
+    const toc = formatReadmeToc(readme, readmeLink);
+    lines.push(`The full README is in [${readmeLink}](${readmeLink})${toc.length ? ':' : '.'}`);
+    lines.push('');
+    endSection('metadata');
+    lines.push(...toc);
+    if (toc.length > 0) lines.push('');
+    endSection('usage', createTruncationMarker(`[${readmeLink}](${readmeLink})`));
+  } else if (readme) {
     lines.push('## Documentation');
     lines.push('');
-    lines.push(readme);
+    endSection('metadata');
+    sections.push(...splitReadme(readme, markerFor(pkg.docs?.readmePath ?? pkg.readmePath)));
     lines.push('');
   } else if (pkg.description) {
     lines.push('## About');
@@ -125,9 +659,50 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
     lines.push(pkg.description);
     lines.push('');
   }
+  endSection('metadata');
 
-  // Additional Documentation section
+  // Reference files of a split SKILL.md, loaded when the details are needed
   const docs = pkg.docs || {};
+  if (references.length > 0) {
+    const descriptions: [string, string][] = [
+      ['readme.md', 'the full README'],
+      [
+        'api.md',
+        docs.api?.length || docs.apiSurface?.length
+          ? `exported symbols with their signatures (${(docs.api ?? docs.apiSurface)!.length})`
+          : 'entry points',
+      ],
+      ['changelog.md', 'the changelog'],
+    ];
+    lines.push('## Reference Files');
+    lines.push('');
+    for (const [name, description] of descriptions) {
+      const link = referenceLink(name);
+      if (link) lines.push(`- [${link}](${link}): ${description}`);
+    }
+    lines.push('');
+    endSection('metadata');
+  }
+
+  // Subpath imports, when there is more than the main entry
+  if (docs.entryPoints && docs.entryPoints.length > 1 && !referenceLink('api.md')) {
+    lines.push(...formatEntryPointsSection(pkg, skillPath));
+    endSection('api');
+  }
+
+  // Exported symbols: from source for internal packages, or from type definitions
+  if (referenceLink('api.md')) {
+    // Listed in reference/api.md
+  } else if (docs.api?.length) {
+    lines.push(...formatApiSection(pkg, skillPath));
+    const entry = docs.apiEntry && pkg.packagePath ? join(pkg.packagePath, docs.apiEntry) : '';
+    endSection('api', markerFor(entry || undefined));
+  } else if (docs.apiSurface?.length) {
+    lines.push(...formatApiSurfaceSection(pkg, skillPath));
+    endSection('api', markerFor(docs.typesPath));
+  }
+
+  // Additional Documentation section
   const hasAdditionalDocs =
     docs.docsPath || docs.additionalDocs?.length || pkg.homepage || docs.typesPath;
 
@@ -137,13 +712,10 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
 
     // Docs folder
     if (docs.docsPath && docs.docFiles?.length) {
-      const docsRelPath = pkg.packagePath
-        ? getRelativePath(skillPath, docs.docsPath)
-        : docs.docsPath;
       lines.push('### Local Documentation');
       lines.push('');
       for (const docFile of docs.docFiles.slice(0, 10)) {
-        lines.push(`- [${docFile}](${docsRelPath}/${docFile})`);
+        lines.push(`- ${formatFileLink(docFile, pkg, skillPath, join(docs.docsPath, docFile))}`);
       }
       if (docs.docFiles.length > 10) {
         lines.push(`- *...and ${docs.docFiles.length - 10} more files*`);
@@ -156,8 +728,7 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
       lines.push('### Additional Docs');
       lines.push('');
       for (const doc of docs.additionalDocs) {
-        const relPath = pkg.packagePath ? getRelativePath(skillPath, doc.path) : doc.path;
-        lines.push(`- [${doc.name}](${relPath})`);
+        lines.push(`- ${formatFileLink(doc.name, pkg, skillPath, doc.path)}`);
       }
       lines.push('');
     }
@@ -172,19 +743,33 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
 
     // TypeScript types
     if (docs.typesPath) {
-      const typesRelPath = pkg.packagePath
-        ? getRelativePath(skillPath, docs.typesPath)
-        : docs.typesPath;
       const typesSource = docs.typesFromDefinitelyTyped ? ' (from DefinitelyTyped)' : '';
       lines.push('### API Reference');
       lines.push('');
-      lines.push(`- [TypeScript Definitions${typesSource}](${typesRelPath})`);
+      lines.push(
+        `- ${formatFileLink(`TypeScript Definitions${typesSource}`, pkg, skillPath, docs.typesPath)}`
+      );
       lines.push('');
     }
   }
+  endSection('metadata');
 
-  // Changelog section (truncated)
-  if (docs.changelog) {
+  // Changelog section: the installed version and the ones before it, or the start of the file
+  const changelogEntries = docs.changelogEntries?.slice(
+    0,
+    (options.changelogVersions ?? DEFAULT_CHANGELOG_VERSIONS) + 1
+  );
+  if (changelogEntries?.length && !referenceLink('changelog.md')) {
+    lines.push('## Recent Changes');
+    lines.push('');
+    const source = docs.changelogPath
+      ? ` from ${formatFileLink(basename(docs.changelogPath), pkg, skillPath, docs.changelogPath)}`
+      : '';
+    lines.push(`Releases up to the installed version (${pkg.version})${source}:`);
+    lines.push('');
+    lines.push(...formatChangelogEntries(changelogEntries));
+    endSection('changelog', markerFor(docs.changelogPath));
+  } else if (docs.changelog && !referenceLink('changelog.md')) {
     lines.push('## Recent Changes');
     lines.push('');
     // Only include first 50 lines of changelog
@@ -195,6 +780,7 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
       lines.push('*[Changelog truncated - see full file for complete history]*');
     }
     lines.push('');
+    endSection('changelog', markerFor(docs.changelogPath));
   }
 
   // Keywords section
@@ -203,13 +789,18 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
     lines.push('');
     lines.push(pkg.keywords.join(', '));
     lines.push('');
+    endSection('badges');
   }
 
   // Footer
-  lines.push('---');
-  lines.push(`*Auto-generated by v-skills on ${now}. Do not edit manually.*`);
+  lines.push(...formatFooter(options.date));
+  endSection('metadata');
 
-  return lines.join('\n');
+  if (options.limits?.maxTokens === undefined && options.limits?.maxBytes === undefined) {
+    const content = sections.map(section => section.content).join('\n');
+    return { content, truncated: false, references };
+  }
+  return { ...applyBudget(sections, options.limits), references };
 }
 
 /**
@@ -223,6 +814,9 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
  * @param outputDir - Directory where the skill file should be created
  * @param options - Configuration options
  * @param options.useFolderStructure - Use folder structure (package-name/SKILL.md) vs flat (package-name@version.md). Default: true
+ * @param options.frontmatter - Custom frontmatter fields (e.g. `allowed-tools`)
+ * @param options.split - Write the README, API and changelog to reference/*.md next to
+ *   SKILL.md, which keeps a table of contents (folder structure only)
  * @returns Skill file information, or null if package has no content
  *
  * @example
@@ -245,49 +839,33 @@ function generateSkillContent(pkg: PackageInfo, skillPath: string): string {
 export async function createSkillFile(
   pkg: PackageInfo,
   outputDir: string,
-  options: { useFolderStructure?: boolean } = {}
+  options: { useFolderStructure?: boolean; plan?: FilePlan } & SkillRenderOptions = {}
 ): Promise<SkillFile | null> {
-  const { useFolderStructure = true } = options;
-
-  // Check if package has any useful content
-  const docs = pkg.docs || {};
-  const hasAnyContent =
-    docs.readme ||
-    docs.changelog ||
-    docs.docsPath ||
-    docs.typesPath ||
-    docs.additionalDocs?.length ||
-    pkg.description ||
-    pkg.homepage ||
-    // Legacy check
-    pkg.readme;
+  const { useFolderStructure = true, plan, ...renderOptions } = options;
 
-  if (!hasAnyContent) {
+  if (!hasSkillContent(pkg)) {
     return null;
   }
 
-  let targetPath: string;
-  if (useFolderStructure) {
-    // New folder structure: package-name/SKILL.md
-    const folderName = createSkillFolderName(pkg.name);
-    const folderPath = join(outputDir, folderName);
-    await ensureDir(folderPath);
-    targetPath = join(folderPath, 'SKILL.md');
-  } else {
-    // Legacy flat structure: package-name@version.md
-    await ensureDir(outputDir);
-    const fileName = createSkillFileName(pkg.name, pkg.version);
-    targetPath = join(outputDir, fileName);
-  }
+  const targetPath = getSkillTargetPath(pkg, outputDir, {
+    useFolderStructure,
+    versioned: renderOptions.versioned,
+  });
 
   // Remove existing file
   if (await fileExists(targetPath)) {
-    await rm(targetPath, { force: true });
+    await removeOutput(targetPath, plan);
   }
 
   // Generate and write content
-  const content = generateSkillContent(pkg, targetPath);
-  await writeFile(targetPath, content, 'utf-8');
+  const { content, truncated, references } = generateSkillContent(pkg, targetPath, {
+    ...renderOptions,
+    split: renderOptions.split && useFolderStructure,
+  });
+  await writeOutput(targetPath, content, plan);
+  for (const reference of references) {
+    await writeOutput(reference.targetPath, reference.content, plan);
+  }
 
   return {
     name: pkg.name,
@@ -295,9 +873,114 @@ export async function createSkillFile(
     sourcePath: pkg.packagePath || pkg.readmePath || '',
     targetPath,
     content,
+    tokens: estimateTokens(content),
+    ...(truncated ? { truncated } : {}),
+    ...(references.length > 0 ? { references } : {}),
   };
 }
 
+/**
+ * Check whether a package has any useful content to document
+ */
+export function hasSkillContent(pkg: PackageInfo): boolean {
+  const docs = pkg.docs || {};
+  return Boolean(
+    docs.readme ||
+    docs.changelog ||
+    docs.docsPath ||
+    docs.typesPath ||
+    docs.additionalDocs?.length ||
+    docs.api?.length ||
+    docs.apiSurface?.length ||
+    pkg.description ||
+    pkg.homepage ||
+    // Legacy check
+    pkg.readme
+  );
+}
+
+/**
+ * Get the path where a package's skill file is written
+ *
+ * @param pkg - Package information
+ * @param outputDir - Output directory for skills
+ * @param options.useFolderStructure - Use package-name/SKILL.md (default) vs package-name@version.md
+ * @param options.versioned - Use package-name/version/SKILL.md (folder structure only)
+ * @returns Path of the skill file inside the output directory
+ */
+export function getSkillTargetPath(
+  pkg: PackageInfo,
+  outputDir: string,
+  options: { useFolderStructure?: boolean; versioned?: boolean } = {}
+): string {
+  const { useFolderStructure = true, versioned = false } = options;
+
+  if (useFolderStructure && versioned) {
+    // One folder per installed version: package-name/version/SKILL.md
+    return join(outputDir, createSkillFolderName(pkg.name), pkg.version, 'SKILL.md');
+  }
+  if (useFolderStructure) {
+    // New folder structure: package-name/SKILL.md
+    return join(outputDir, createSkillFolderName(pkg.name), 'SKILL.md');
+  }
+  // Legacy flat structure: package-name@version.md
+  return join(outputDir, createSkillFileName(pkg.name, pkg.version));
+}
+
+/**
+ * Generate the root SKILL.md of a package with several installed versions
+ *
+ * Lists every version (newest first) with the workspaces that use it and a
+ * link to that version's own SKILL.md.
+ *
+ * @param versions - The installed versions of one package
+ * @param outputDir - Output directory for skills
+ * @param usage - Workspace names keyed by "name@version"
+ * @param options - Render options (custom frontmatter fields)
+ */
+export function generateVersionSelector(
+  versions: PackageInfo[],
+  outputDir: string,
+  usage: Map<string, string[]> = new Map(),
+  options: SkillRenderOptions = {}
+): string {
+  const sorted = [...versions].sort((a, b) => compareVersions(b.version, a.version));
+  const latest = sorted[0];
+  const selectorPath = getSkillTargetPath(latest, outputDir);
+  const versionList = sorted.map(pkg => pkg.version).join(', ');
+
+  const lines: string[] = [
+    generateFrontmatter(
+      {
+        ...latest,
+        description: `${latest.name} (installed versions: ${versionList}). ${
+          latest.description || ''
+        }`.trim(),
+        version: versionList,
+      },
+      options.frontmatter
+    ),
+    `<!-- v-skills: ${latest.name} (${sorted.length} versions) -->`,
+    `# ${latest.name}`,
+    '',
+    `Several versions of ${latest.name} are installed. Read the SKILL.md of the version ` +
+      'used by the workspace you are working in.',
+    '',
+    '| Version | Used By | Documentation |',
+    '|---------|---------|---------------|',
+  ];
+
+  for (const pkg of sorted) {
+    const usedBy = usage.get(`${pkg.name}@${pkg.version}`)?.join(', ') || '-';
+    const target = getSkillTargetPath(pkg, outputDir, { versioned: true });
+    const link = getRelativePath(selectorPath, target).split(sep).join('/');
+    lines.push(`| ${pkg.version} | ${usedBy} | [SKILL.md](./${link}) |`);
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 /**
  * Generate markdown content for a package (standalone utility)
  *
@@ -305,6 +988,7 @@ export async function createSkillFile(
  * writing to disk. Useful for previewing content or custom integrations.
  *
  * The generated markdown includes:
+ * - YAML frontmatter (name, description, version, keywords, homepage)
  * - Package metadata (version, description, homepage, repository, license)
  * - README documentation
  * - Links to TypeScript definitions
@@ -314,6 +998,7 @@ export async function createSkillFile(
  *
  * @param pkg - Package information to generate documentation from
  * @param skillPath - Path where the skill file would be written (used for relative links)
+ * @param options - Render options (custom frontmatter fields)
  * @returns Formatted markdown content as a string
  *
  * @example
@@ -329,12 +1014,22 @@ export async function createSkillFile(
  * const markdown = generateMarkdown(pkg, '.claude/skills/v-skills/react/SKILL.md');
  * console.log(markdown);
  * // Output:
+ * // ---
+ * // name: react
+ * // description: React is a JavaScript library for building user interfaces
+ * // version: "18.3.1"
+ * // homepage: https://react.dev
+ * // ---
  * // <!-- v-skills: react@18.3.1 -->
  * // # react
  * // **Version:** 18.3.1
  * // ...
  * ```
  */
-export function generateMarkdown(pkg: PackageInfo, skillPath: string): string {
-  return generateSkillContent(pkg, skillPath);
+export function generateMarkdown(
+  pkg: PackageInfo,
+  skillPath: string,
+  options: SkillRenderOptions = {}
+): string {
+  return generateSkillContent(pkg, skillPath, options).content;
 }
@@ -0,0 +1,134 @@
+import { relative, sep } from 'node:path';
+import type { PackageInfo, SkillLimits } from './types.js';
+import { getSkillTargetPath } from './linker.js';
+import { applyBudget, splitReadme } from './tokens.js';
+import { compareStrings, compareVersions } from './utils.js';
+
+/** Link index of the skills, following the llms.txt convention */
+export const LLMS_TXT = 'llms.txt';
+
+/** Every package's documentation in one file */
+export const LLMS_FULL_TXT = 'llms-full.txt';
+
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Sort packages by name, then by version
+ */
+function sortPackages(packages: PackageInfo[]): PackageInfo[] {
+  return [...packages].sort(
+    (a, b) => compareStrings(a.name, b.name) || compareVersions(a.version, b.version)
+  );
+}
+
+/**
+ * Move the headings of a Markdown document one level down, so it can be
+ * nested under a heading of its own
+ */
+function nestHeadings(markdown: string): string {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (FENCE.test(line)) inFence = !inFence;
+      return !inFence && /^#{1,5}\s/.test(line) ? `#${line}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Build `llms.txt`: a title, a summary and a link to each package's SKILL.md
+ *
+ * Direct dependencies and workspace packages are listed under "Packages",
+ * transitive dependencies under "Optional" (the section tools may skip).
+ *
+ * @param packages - Documented packages, several versions of a package allowed
+ * @param outputDir - Output directory the links are relative to
+ * @param workspaceType - Detected workspace type
+ */
+export function formatLlmsTxt(
+  packages: PackageInfo[],
+  outputDir: string,
+  workspaceType: string
+): string {
+  const names = new Set(packages.map(pkg => pkg.name));
+  const versionCounts = new Map<string, number>();
+  for (const pkg of packages) {
+    versionCounts.set(pkg.name, (versionCounts.get(pkg.name) ?? 0) + 1);
+  }
+
+  const formatLink = (pkg: PackageInfo) => {
+    const versioned = versionCounts.get(pkg.name)! > 1;
+    const target = getSkillTargetPath(pkg, outputDir, { versioned });
+    const link = relative(outputDir, target).split(sep).join('/');
+    const description = pkg.description?.replace(/\s+/g, ' ').trim();
+    return `- [${pkg.name}@${pkg.version}](${link})${description ? `: ${description}` : ''}`;
+  };
+
+  const sorted = sortPackages(packages);
+  const direct = sorted.filter(pkg => pkg.internal || !pkg.depth);
+  const transitive = sorted.filter(pkg => !pkg.internal && pkg.depth);
+
+  const lines = [
+    '# Dependency Documentation',
+    '',
+    `> Documentation of the ${names.size} npm packages installed in this project ` +
+      `(${workspaceType} workspace), for the installed versions. Generated by v-skills.`,
+    '',
+    "Each link points to a package's SKILL.md with its metadata, README, API and changelog. " +
+      `[_index.md](_index.md) lists the packages with their keywords, and ` +
+      `[${LLMS_FULL_TXT}](${LLMS_FULL_TXT}) has the documentation of every package in one file.`,
+    '',
+  ];
+  if (direct.length > 0) {
+    lines.push('## Packages', '', ...direct.map(formatLink), '');
+  }
+  if (transitive.length > 0) {
+    lines.push('## Optional', '', ...transitive.map(formatLink), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build `llms-full.txt`: the cleaned README of every package, by name and version
+ *
+ * Each package gets a heading with its version and description; README
+ * headings are nested below it. READMEs are cut to the package's size limits
+ * like SKILL.md files.
+ *
+ * @param packages - Documented packages, several versions of a package allowed
+ * @param getLimits - Size limits of a package's documentation
+ */
+export function formatLlmsFullTxt(
+  packages: PackageInfo[],
+  getLimits: (name: string) => SkillLimits | undefined = () => undefined
+): string {
+  const sorted = sortPackages(packages);
+  const lines = [
+    '# Dependency Documentation',
+    '',
+    `> Documentation of the ${new Set(sorted.map(pkg => pkg.name)).size} npm packages ` +
+      'installed in this project, for the installed versions. Generated by v-skills.',
+    '',
+  ];
+
+  for (const pkg of sorted) {
+    lines.push(`# ${pkg.name}@${pkg.version}`, '');
+    if (pkg.description) {
+      lines.push(`> ${pkg.description.replace(/\s+/g, ' ').trim()}`, '');
+    }
+    if (pkg.homepage) {
+      lines.push(`Homepage: ${pkg.homepage}`, '');
+    }
+
+    const readme = (pkg.docs?.readme ?? pkg.readme)?.trim();
+    if (readme) {
+      const limits = getLimits(pkg.name);
+      const content = limits ? applyBudget(splitReadme(readme), limits).content : readme;
+      lines.push(nestHeadings(content.trim()), '');
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,277 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parsePnpmPackageKey } from './pnpm.js';
+import { parseYamlDocument } from './yaml.js';
+
+/**
+ * Package dependency graph read from a lockfile
+ *
+ * Packages are keyed by name: when several versions of a package are
+ * installed, their dependencies are merged.
+ */
+export interface DependencyGraph {
+  /** Lockfile the graph was read from */
+  lockfile: string;
+  /** Dependencies declared by the project and its workspaces */
+  roots: Set<string>;
+  /** Dependency names of each package */
+  dependencies: Map<string, Set<string>>;
+}
+
+/** Lockfiles in order of preference */
+export const LOCKFILES = [
+  'pnpm-lock.yaml',
+  'yarn.lock',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+];
+
+/** package.json dependency fields followed by the graph */
+const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+  'peerDependencies',
+] as const;
+
+type DependencyMap = Record<string, unknown> | undefined;
+
+function createGraph(lockfile: string): DependencyGraph {
+  return { lockfile, roots: new Set(), dependencies: new Map() };
+}
+
+function addDependencies(graph: DependencyGraph, name: string, deps: Iterable<string>): void {
+  let set = graph.dependencies.get(name);
+  if (!set) {
+    set = new Set();
+    graph.dependencies.set(name, set);
+  }
+  for (const dep of deps) {
+    if (dep !== name) set.add(dep);
+  }
+}
+
+function dependencyNames(entry: Record<string, DependencyMap> | undefined, dev = true): string[] {
+  if (!entry || typeof entry !== 'object') return [];
+  return DEPENDENCY_FIELDS.filter(field => dev || field !== 'devDependencies').flatMap(field => {
+    const deps = entry[field];
+    return deps && typeof deps === 'object' ? Object.keys(deps) : [];
+  });
+}
+
+/**
+ * Parse `package-lock.json` / `npm-shrinkwrap.json` (lockfile versions 1 to 3)
+ */
+export function parsePackageLock(content: string, lockfile = 'package-lock.json'): DependencyGraph {
+  const graph = createGraph(lockfile);
+  let lock: {
+    packages?: Record<string, Record<string, DependencyMap> & { name?: string; link?: boolean }>;
+    dependencies?: Record<string, V1Dependency>;
+  };
+  try {
+    lock = JSON.parse(content);
+  } catch {
+    return graph;
+  }
+
+  // v2/v3: flat "packages" map keyed by install path
+  if (lock.packages) {
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      if (entry.link) continue;
+
+      const index = path.lastIndexOf('node_modules/');
+      if (index === -1) {
+        // The project root ("") or a workspace folder
+        dependencyNames(entry).forEach(dep => graph.roots.add(dep));
+        if (path && entry.name) {
+          addDependencies(graph, entry.name, dependencyNames(entry, false));
+        }
+        continue;
+      }
+
+      const name = path.slice(index + 'node_modules/'.length);
+      addDependencies(graph, name, dependencyNames(entry, false));
+    }
+    return graph;
+  }
+
+  // v1: nested "dependencies" tree with "requires" edges
+  const visit = (deps: Record<string, V1Dependency>) => {
+    for (const [name, dep] of Object.entries(deps)) {
+      addDependencies(graph, name, Object.keys(dep.requires ?? {}));
+      if (dep.dependencies) visit(dep.dependencies);
+    }
+  };
+  visit(lock.dependencies ?? {});
+  return graph;
+}
+
+interface V1Dependency {
+  requires?: Record<string, string>;
+  dependencies?: Record<string, V1Dependency>;
+}
+
+/**
+ * Get the package name from a Yarn descriptor (e.g. `"@babel/core@npm:^7.0.0"`)
+ */
+function descriptorName(descriptor: string): string {
+  const unquoted = descriptor.trim().replace(/^"|"$/g, '');
+  const at = unquoted.indexOf('@', 1);
+  return at === -1 ? unquoted : unquoted.slice(0, at);
+}
+
+/**
+ * Parse `yarn.lock`, both the classic v1 format and Berry's YAML format
+ *
+ * Berry workspace entries (`name@workspace:path`) contribute their
+ * dependencies to the graph roots.
+ */
+export function parseYarnLock(content: string, lockfile = 'yarn.lock'): DependencyGraph {
+  const graph = createGraph(lockfile);
+
+  let current: { name: string; workspace: boolean } | null = null;
+  let inDependencies = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      inDependencies = false;
+      const header = text.replace(/:$/, '');
+      if (header === '__metadata') {
+        current = null;
+        continue;
+      }
+      const descriptors = header.replace(/^"|"$/g, '').split(/,\s*/);
+      current = {
+        name: descriptorName(descriptors[0]),
+        workspace: descriptors.some(d => d.includes('@workspace:')),
+      };
+      addDependencies(graph, current.name, []);
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (indent <= 2) {
+      const field = text.replace(/:$/, '');
+      inDependencies =
+        text.endsWith(':') && (field === 'dependencies' || field === 'optionalDependencies');
+      continue;
+    }
+
+    if (inDependencies) {
+      // v1: `name "range"`, Berry: `name: range`
+      const match = /^("(?:[^"]+)"|[^\s:]+):?\s/.exec(text);
+      if (!match) continue;
+      const dep = match[1].replace(/^"|"$/g, '');
+      addDependencies(graph, current.name, [dep]);
+      if (current.workspace) graph.roots.add(dep);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Parse `pnpm-lock.yaml` (lockfile v5 to v9)
+ */
+export function parsePnpmLock(content: string, lockfile = 'pnpm-lock.yaml'): DependencyGraph {
+  const graph = createGraph(lockfile);
+  const doc = parseYamlDocument(content) as Record<string, Record<string, DependencyMap>> | null;
+  if (!doc || typeof doc !== 'object') return graph;
+
+  // Importers (workspaces), or the top-level dependency maps of single projects
+  const importers = doc.importers ? Object.values(doc.importers) : [doc];
+  for (const importer of importers) {
+    dependencyNames(importer as Record<string, DependencyMap>).forEach(dep => graph.roots.add(dep));
+  }
+
+  for (const section of ['packages', 'snapshots']) {
+    const entries = doc[section];
+    if (!entries || typeof entries !== 'object') continue;
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const ref = parsePnpmPackageKey(key);
+      if (!ref) continue;
+      addDependencies(
+        graph,
+        ref.name,
+        dependencyNames(entry as Record<string, DependencyMap> | undefined, false)
+      );
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Read the dependency graph from the project's lockfile
+ * Returns null if there is no readable lockfile
+ */
+export async function readDependencyGraph(cwd: string): Promise<DependencyGraph | null> {
+  for (const lockfile of LOCKFILES) {
+    let content: string;
+    try {
+      content = await readFile(join(cwd, lockfile), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    if (lockfile === 'pnpm-lock.yaml') return parsePnpmLock(content, lockfile);
+    if (lockfile === 'yarn.lock') return parseYarnLock(content, lockfile);
+    return parsePackageLock(content, lockfile);
+  }
+  return null;
+}
+
+/**
+ * Compute each package's depth: 0 for direct dependencies, 1 for their
+ * dependencies, and so on (shortest path)
+ *
+ * @param graph - Dependency graph, or null to only place the roots
+ * @param roots - Direct dependencies of the project
+ */
+export function computeDepths(
+  graph: DependencyGraph | null,
+  roots: Iterable<string>
+): Map<string, number> {
+  const depths = new Map<string, number>();
+  let level = [...new Set(roots)];
+  level.forEach(name => depths.set(name, 0));
+
+  for (let depth = 1; level.length > 0; depth++) {
+    const next: string[] = [];
+    for (const name of level) {
+      for (const dep of graph?.dependencies.get(name) ?? []) {
+        if (depths.has(dep)) continue;
+        depths.set(dep, depth);
+        next.push(dep);
+      }
+    }
+    level = next;
+  }
+
+  return depths;
+}
+
+/**
+ * Invert a dependency graph: for each package, the packages that depend on it
+ */
+export function getDependents(graph: DependencyGraph): Map<string, Set<string>> {
+  const dependents = new Map<string, Set<string>>();
+  for (const [name, deps] of graph.dependencies) {
+    for (const dep of deps) {
+      let set = dependents.get(dep);
+      if (!set) {
+        set = new Set();
+        dependents.set(dep, set);
+      }
+      set.add(name);
+    }
+  }
+  return dependents;
+}
@@ -0,0 +1,170 @@
+import { readFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join, relative, sep } from 'node:path';
+import type { OutputTargetName, PackageInfo } from './types.js';
+import { readJson } from './utils.js';
+import { writeOutput, type FilePlan } from './plan.js';
+
+/** Manifest file name, stored inside the output directory */
+export const MANIFEST_FILE = '.v-skills-manifest.json';
+
+/** Manifest schema version */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Output format version, part of the config hash.
+ * Bump it whenever the generated SKILL.md layout changes so that
+ * existing outputs are regenerated.
+ */
+const FORMAT_VERSION = 2;
+
+/**
+ * Manifest record for one generated skill
+ */
+export interface ManifestEntry {
+  /** Package name */
+  name: string;
+  /** Package version */
+  version: string;
+  /** Package folder, relative to the output directory (SKILL.md links point into it) */
+  location?: string;
+  /** Hashes of the package files the skill was generated from */
+  sources: Record<string, string>;
+  /** Hash of the generated SKILL.md content */
+  outputHash: string;
+  /** Estimated token count of the generated SKILL.md */
+  tokens?: number;
+  /** Version documented before the last version change */
+  previousVersion?: string;
+  /** Hashes of the generated reference files, keyed by their manifest key (split mode) */
+  references?: Record<string, string>;
+}
+
+/**
+ * Manifest written to the output directory after each generation
+ */
+export interface SkillManifest {
+  /** Manifest schema version */
+  version: typeof MANIFEST_VERSION;
+  /** Hash of the options that affect rendered output */
+  configHash: string;
+  /** Generated skills keyed by their path relative to the output directory */
+  packages: Record<string, ManifestEntry>;
+  /** Other generated files (version selectors), relative to the output directory */
+  files?: string[];
+  /** Output targets written, so the files of targets no longer selected are removed */
+  targets?: OutputTargetName[];
+}
+
+/**
+ * Hash a string or buffer (sha256, hex)
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash a file, or return null if it can't be read
+ */
+export async function hashFile(path: string): Promise<string | null> {
+  try {
+    return hashContent(await readFile(path));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hash the options that affect rendered output
+ */
+export function hashConfig(renderOptions: unknown): string {
+  return hashContent(JSON.stringify({ format: FORMAT_VERSION, options: renderOptions ?? null }));
+}
+
+/**
+ * Create the manifest key for a skill file (output-relative, forward slashes)
+ */
+export function getManifestKey(outputDir: string, targetPath: string): string {
+  return relative(outputDir, targetPath).split(sep).join('/');
+}
+
+/**
+ * Get the folder of a package relative to the output directory, so a skill
+ * is regenerated when its package moves (hoisting, a workspace move)
+ */
+export function getPackageLocation(pkg: PackageInfo, outputDir: string): string | undefined {
+  return pkg.packagePath ? getManifestKey(outputDir, pkg.packagePath) : undefined;
+}
+
+/**
+ * Hash every source file a package's skill is generated from
+ *
+ * Keys are paths relative to the package folder (absolute for files outside it,
+ * such as @types definitions).
+ */
+export async function hashSources(pkg: PackageInfo): Promise<Record<string, string>> {
+  const docs = pkg.docs || {};
+  const paths = new Set<string>();
+
+  // Cache archives are immutable and named by checksum, so hash the archive itself
+  if (pkg.archivePath) paths.add(pkg.archivePath);
+  else if (pkg.packagePath) paths.add(join(pkg.packagePath, 'package.json'));
+  for (const path of [docs.readmePath ?? pkg.readmePath, docs.changelogPath, docs.typesPath]) {
+    if (path) paths.add(path);
+  }
+  for (const doc of docs.additionalDocs ?? []) {
+    paths.add(doc.path);
+  }
+
+  const sources: Record<string, string> = {};
+  for (const path of paths) {
+    // Files inside an archive are covered by the archive hash
+    if (pkg.archivePath && path !== pkg.archivePath && path.startsWith(pkg.archivePath)) continue;
+    const key = pkg.packagePath ? getManifestKey(pkg.packagePath, path) : path;
+    sources[key] = (await hashFile(path)) ?? '';
+  }
+
+  // Doc folder listings are linked, so track the file list itself
+  if (docs.docsPath && docs.docFiles?.length) {
+    sources['docs/*'] = hashContent(docs.docFiles.join('\n'));
+  }
+
+  // The API of internal packages is read from any number of source files
+  if (docs.api?.length) {
+    sources['api/*'] = hashContent(JSON.stringify(docs.api));
+  }
+
+  return sources;
+}
+
+/**
+ * Check whether two source hash records are identical
+ */
+export function sameSources(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(key => a[key] === b[key]);
+}
+
+/**
+ * Read the manifest from an output directory
+ * Returns null if it doesn't exist or uses an unknown schema version
+ */
+export async function readManifest(outputDir: string): Promise<SkillManifest | null> {
+  const manifest = await readJson<SkillManifest>(join(outputDir, MANIFEST_FILE));
+  if (!manifest || manifest.version !== MANIFEST_VERSION || !manifest.packages) {
+    return null;
+  }
+  return manifest;
+}
+
+/**
+ * Write the manifest to an output directory
+ */
+export async function writeManifest(
+  outputDir: string,
+  manifest: SkillManifest,
+  plan?: FilePlan
+): Promise<void> {
+  await writeOutput(join(outputDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n', plan);
+}
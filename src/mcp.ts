@@ -0,0 +1,422 @@
+import { createInterface } from 'node:readline';
+import { join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Readable, Writable } from 'node:stream';
+import type { ApiSymbol, GenerateOptions, PackageInfo } from './types.js';
+import { DEFAULT_OUTPUT, scanPackages } from './generator.js';
+import { generateMarkdown, getGenerationDate, getSkillTargetPath } from './linker.js';
+import { buildSearchIndex, searchIndex, type SearchIndex } from './search.js';
+import {
+  DEFAULT_CHANGELOG_VERSIONS,
+  formatChangelogEntries,
+  selectChangelogEntries,
+  selectChangelogEntriesSince,
+} from './changelog.js';
+import { compareStrings, compareVersions, readJson } from './utils.js';
+
+/** MCP protocol versions this server speaks, newest first */
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** Scheme of the SKILL.md resources: v-skills://skills/react/SKILL.md */
+const RESOURCE_PREFIX = 'v-skills://skills/';
+
+/** JSON-RPC error codes */
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/** Symbols listed when a requested symbol doesn't exist */
+const MAX_LISTED_SYMBOLS = 50;
+
+/**
+ * A JSON-RPC 2.0 message (request, notification or response)
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * An error returned to the client as a JSON-RPC error
+ */
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Content returned by a tool call
+ */
+interface ToolResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+}
+
+/**
+ * A tool exposed to MCP clients
+ */
+interface Tool {
+  description: string;
+  /** JSON Schema of the arguments */
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, { type: string; description: string }>;
+    required?: string[];
+  };
+  run: (args: Record<string, unknown>) => Promise<string>;
+}
+
+/**
+ * Read the server version from package.json (works from src/ and dist/)
+ */
+async function readServerVersion(): Promise<string> {
+  const pkg = await readJson<{ version?: string }>(
+    fileURLToPath(new URL('../package.json', import.meta.url))
+  );
+  return pkg?.version ?? '0.0.0';
+}
+
+/**
+ * Read a string argument of a tool call
+ */
+function readString(args: Record<string, unknown>, name: string, required: true): string;
+function readString(args: Record<string, unknown>, name: string): string | undefined;
+function readString(args: Record<string, unknown>, name: string, required = false) {
+  const value = args[name];
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new RpcError(INVALID_PARAMS, `Missing argument "${name}"`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new RpcError(INVALID_PARAMS, `Argument "${name}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Format an exported symbol with its signature, JSDoc and members
+ */
+function formatSymbol(symbol: ApiSymbol): string {
+  const lines = [`## ${symbol.name} (${symbol.kind})`, '', '```ts', symbol.signature, '```', ''];
+  if (symbol.deprecated) lines.push('**Deprecated**', '');
+  if (symbol.description) lines.push(symbol.description, '');
+  if (symbol.members?.length) {
+    lines.push('Members:', '', '```ts', ...symbol.members, '```', '');
+  }
+  lines.push(`Declared in \`${symbol.source}\``);
+  return lines.join('\n');
+}
+
+/**
+ * Create an MCP server for the documentation of a project's packages
+ *
+ * Packages are found the way `generate()` finds them (on the first request
+ * that needs them) and rendered on demand, so no prior `generate` run is
+ * needed and nothing is written.
+ *
+ * @param options - Package selection and render options, as for `generate()`
+ * @returns Handler for one JSON-RPC message, resolving to the response
+ *   (null for notifications)
+ */
+export function createMcpServer(options: GenerateOptions = {}) {
+  const cwd = options.cwd || process.cwd();
+  const outputDir = options.output || join(cwd, DEFAULT_OUTPUT);
+  let packages: Promise<PackageInfo[]> | undefined;
+  let index: Promise<SearchIndex> | undefined;
+
+  // A failed scan (node_modules in the middle of an install) is retried on the next request
+  const loadPackages = () =>
+    (packages ??= scanPackages({ ...options, cwd }).catch(err => {
+      packages = undefined;
+      throw err;
+    }));
+
+  const loadIndex = () =>
+    (index ??= loadPackages()
+      .then(list => buildSearchIndex(list, outputDir))
+      .catch(err => {
+        index = undefined;
+        throw err;
+      }));
+
+  // Packages with several versions are addressed as name/version
+  const skillPath = async (pkg: PackageInfo) => {
+    const versioned = (await loadPackages()).filter(p => p.name === pkg.name).length > 1;
+    return getSkillTargetPath(pkg, outputDir, { versioned });
+  };
+
+  const findPackage = async (name: string, version?: string): Promise<PackageInfo> => {
+    const candidates = (await loadPackages()).filter(pkg => pkg.name === name);
+    if (candidates.length === 0) {
+      throw new RpcError(INVALID_PARAMS, `Package "${name}" is not installed`);
+    }
+    const pkg = version
+      ? candidates.find(candidate => candidate.version === version)
+      : candidates.sort((a, b) => compareVersions(b.version, a.version))[0];
+    if (!pkg) {
+      const installed = candidates.map(candidate => candidate.version).join(', ');
+      throw new RpcError(INVALID_PARAMS, `${name}@${version} is not installed (${installed})`);
+    }
+    return pkg;
+  };
+
+  const renderSkill = async (pkg: PackageInfo) =>
+    generateMarkdown(pkg, await skillPath(pkg), {
+      frontmatter: options.frontmatter,
+      changelogVersions: options.changelogVersions,
+      date: getGenerationDate(options.deterministic),
+    });
+
+  const tools: Record<string, Tool> = {
+    list_packages: {
+      description:
+        'List the installed npm packages with documentation, with their version and description.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filter: { type: 'string', description: 'Only packages whose name contains this text' },
+        },
+      },
+      run: async args => {
+        const filter = readString(args, 'filter')?.toLowerCase();
+        const lines = (await loadPackages())
+          .filter(pkg => !filter || pkg.name.toLowerCase().includes(filter))
+          .sort((a, b) => compareStrings(a.name, b.name) || compareVersions(a.version, b.version))
+          .map(pkg => {
+            const kind = pkg.internal ? ' (internal)' : pkg.depth === 0 ? ' (direct)' : '';
+            return `- ${pkg.name}@${pkg.version}${kind}${pkg.description ? `: ${pkg.description}` : ''}`;
+          });
+        return lines.length > 0 ? lines.join('\n') : 'No packages found.';
+      },
+    },
+    get_skill: {
+      description:
+        'Get the documentation of an installed package: metadata, README, API and changelog for the installed version.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Package name, e.g. "react" or "@tanstack/query"' },
+          version: {
+            type: 'string',
+            description: 'Installed version, when several are installed (default: newest)',
+          },
+        },
+        required: ['name'],
+      },
+      run: async args =>
+        renderSkill(await findPackage(readString(args, 'name', true), readString(args, 'version'))),
+    },
+    search_docs: {
+      description:
+        'Search the documentation of all installed packages. Returns ranked package sections with snippets.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for, e.g. "parse dates"' },
+        },
+        required: ['query'],
+      },
+      run: async args => {
+        const query = readString(args, 'query', true);
+        const results = searchIndex(await loadIndex(), query);
+        if (results.length === 0) return `No results for "${query}".`;
+        return results
+          .map(
+            (result, i) =>
+              `${i + 1}. ${result.name}@${result.version} › ${result.section}\n   ${result.snippet}`
+          )
+          .join('\n\n');
+      },
+    },
+    get_api: {
+      description: 'Get the signature and documentation of a symbol exported by a package.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Package name' },
+          symbol: { type: 'string', description: 'Exported symbol, e.g. "useQuery"' },
+        },
+        required: ['name', 'symbol'],
+      },
+      run: async args => {
+        const pkg = await findPackage(readString(args, 'name', true));
+        const symbol = readString(args, 'symbol', true);
+        const symbols = [...(pkg.docs?.api ?? []), ...(pkg.docs?.apiSurface ?? [])];
+        const matches = symbols.filter(candidate => candidate.name === symbol);
+        if (matches.length > 0) {
+          return matches.map(formatSymbol).join('\n\n');
+        }
+        if (symbols.length === 0) {
+          return `No API information found for ${pkg.name}@${pkg.version}.`;
+        }
+        const names = [...new Set(symbols.map(candidate => candidate.name))];
+        const listed = names.slice(0, MAX_LISTED_SYMBOLS).join(', ');
+        const more =
+          names.length > MAX_LISTED_SYMBOLS ? ` +${names.length - MAX_LISTED_SYMBOLS} more` : '';
+        return `${pkg.name} doesn't export "${symbol}". Exported symbols: ${listed}${more}`;
+      },
+    },
+    get_changelog: {
+      description:
+        'Get the changelog entries of a package between two versions, e.g. to see what changed in an upgrade.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Package name' },
+          from: {
+            type: 'string',
+            description: 'Version to start after (default: the few entries before "to")',
+          },
+          to: { type: 'string', description: 'Last version to include (default: installed)' },
+        },
+        required: ['name'],
+      },
+      run: async args => {
+        const pkg = await findPackage(readString(args, 'name', true));
+        const from = readString(args, 'from');
+        const to = readString(args, 'to') ?? pkg.version;
+        const entries = pkg.docs?.changelogEntries ?? [];
+        const selected = from
+          ? selectChangelogEntriesSince(entries, from, to)
+          : selectChangelogEntries(
+              entries,
+              to,
+              (options.changelogVersions ?? DEFAULT_CHANGELOG_VERSIONS) + 1
+            );
+        if (selected.length === 0) {
+          return `No changelog entries found for ${pkg.name}${from ? ` after ${from}` : ''} up to ${to}.`;
+        }
+        return formatChangelogEntries(selected, 2).join('\n').trim();
+      },
+    },
+  };
+
+  const resourceUri = async (pkg: PackageInfo) =>
+    RESOURCE_PREFIX +
+    relative(outputDir, await skillPath(pkg))
+      .split(sep)
+      .join('/');
+
+  const handlers: Record<string, (params: Record<string, unknown>) => Promise<unknown>> = {
+    initialize: async params => {
+      const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+      return {
+        protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: { name: 'v-skills', version: await readServerVersion() },
+        instructions:
+          'Documentation of the npm packages installed in this project, for the installed versions. ' +
+          'Use search_docs to find the package for a task, then get_skill or get_api before writing code that uses it.',
+      };
+    },
+    ping: async () => ({}),
+    'tools/list': async () => ({
+      tools: Object.entries(tools).map(([name, { description, inputSchema }]) => ({
+        name,
+        description,
+        inputSchema,
+      })),
+    }),
+    'tools/call': async params => {
+      const name = typeof params.name === 'string' ? params.name : '';
+      const tool = Object.hasOwn(tools, name) ? tools[name] : undefined;
+      if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool "${name}"`);
+      const args = (params.arguments ?? {}) as Record<string, unknown>;
+      try {
+        const result: ToolResult = { content: [{ type: 'text', text: await tool.run(args) }] };
+        return result;
+      } catch (err) {
+        // Bad arguments are reported to the model, which can retry
+        if (!(err instanceof RpcError)) throw err;
+        const result: ToolResult = {
+          content: [{ type: 'text', text: err.message }],
+          isError: true,
+        };
+        return result;
+      }
+    },
+    'resources/list': async () => ({
+      resources: await Promise.all(
+        (await loadPackages()).map(async pkg => ({
+          uri: await resourceUri(pkg),
+          name: `${pkg.name}@${pkg.version}`,
+          ...(pkg.description ? { description: pkg.description } : {}),
+          mimeType: 'text/markdown',
+        }))
+      ),
+    }),
+    'resources/read': async params => {
+      const uri = typeof params.uri === 'string' ? params.uri : '';
+      for (const pkg of await loadPackages()) {
+        if ((await resourceUri(pkg)) === uri) {
+          return { contents: [{ uri, mimeType: 'text/markdown', text: await renderSkill(pkg) }] };
+        }
+      }
+      throw new RpcError(INVALID_PARAMS, `Unknown resource "${uri}"`);
+    },
+  };
+
+  return async function handle(message: JsonRpcMessage): Promise<JsonRpcMessage | null> {
+    const isRequest = message.id !== undefined && message.id !== null;
+    // Notifications (notifications/initialized, cancellations) need no answer
+    if (!isRequest) return null;
+    const id = message.id;
+
+    try {
+      if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        throw new RpcError(INVALID_REQUEST, 'Invalid JSON-RPC request');
+      }
+      const handler = Object.hasOwn(handlers, message.method)
+        ? handlers[message.method]
+        : undefined;
+      if (!handler) {
+        throw new RpcError(METHOD_NOT_FOUND, `Method "${message.method}" not found`);
+      }
+      return { jsonrpc: '2.0', id, result: await handler(message.params ?? {}) };
+    } catch (err) {
+      const code = err instanceof RpcError ? err.code : INTERNAL_ERROR;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return { jsonrpc: '2.0', id, error: { code, message: errorMessage } };
+    }
+  };
+}
+
+/**
+ * Serve MCP over stdio: one JSON-RPC message per line in, one per line out
+ *
+ * Messages are answered in order. Resolves when the input ends.
+ *
+ * @param options - Package selection and render options, as for `generate()`
+ * @param input - Message source (default: process.stdin)
+ * @param output - Response sink (default: process.stdout)
+ */
+export async function serveMcp(
+  options: GenerateOptions = {},
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Promise<void> {
+  const handle = createMcpServer(options);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let response: JsonRpcMessage | null;
+    try {
+      response = await handle(JSON.parse(line) as JsonRpcMessage);
+    } catch {
+      response = { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+    }
+    if (response) output.write(JSON.stringify(response) + '\n');
+  }
+}
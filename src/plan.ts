@@ -0,0 +1,137 @@
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+import type { PlannedOperation } from './types.js';
+import { estimateTokens } from './tokens.js';
+import { writeFileIfChanged } from './utils.js';
+
+/**
+ * File writes and removals of a dry run, recorded instead of performed
+ */
+export interface FilePlan {
+  /** Final content of each written file, null when removed */
+  files: Map<string, string | null>;
+  /** Folders removed with everything in them */
+  removedDirs: string[];
+}
+
+/**
+ * Create an empty plan for a dry run
+ */
+export function createFilePlan(): FilePlan {
+  return { files: new Map(), removedDirs: [] };
+}
+
+/**
+ * Check whether a path is inside a folder (or is the folder)
+ */
+function isInside(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir + sep);
+}
+
+/**
+ * Read a file as it would be at this point of the plan (null if missing)
+ */
+async function readPlanned(path: string, plan?: FilePlan): Promise<string | null> {
+  if (plan?.files.has(path)) return plan.files.get(path)!;
+  if (plan?.removedDirs.some(dir => isInside(path, dir))) return null;
+  try {
+    return await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a generated file, creating its folder, unless its content is unchanged
+ * (on a dry run the write is only recorded in the plan)
+ *
+ * @returns True if the content changed
+ */
+export async function writeOutput(
+  path: string,
+  content: string,
+  plan?: FilePlan
+): Promise<boolean> {
+  if (plan) {
+    const current = await readPlanned(path, plan);
+    plan.files.set(path, content);
+    return current !== content;
+  }
+  await mkdir(dirname(path), { recursive: true });
+  return writeFileIfChanged(path, content);
+}
+
+/**
+ * Remove a generated file, or a folder with `recursive` (on a dry run the
+ * removal is only recorded in the plan)
+ */
+export async function removeOutput(
+  path: string,
+  plan?: FilePlan,
+  options: { recursive?: boolean } = {}
+): Promise<void> {
+  if (!plan) {
+    await rm(path, { recursive: options.recursive ?? false, force: true });
+    return;
+  }
+  if (options.recursive) {
+    plan.removedDirs.push(path);
+    for (const file of plan.files.keys()) {
+      if (isInside(file, path)) plan.files.set(file, null);
+    }
+  } else {
+    plan.files.set(path, null);
+  }
+}
+
+/**
+ * List the files in a folder and its subfolders
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Compare a plan with the files on disk: the files it would add, change and
+ * remove, sorted by path
+ *
+ * @param plan - Recorded writes and removals
+ * @param cwd - Project root the paths are made relative to
+ */
+export async function summarizePlan(plan: FilePlan, cwd: string): Promise<PlannedOperation[]> {
+  const paths = new Set(plan.files.keys());
+  for (const dir of plan.removedDirs) {
+    for (const file of await listFiles(dir)) paths.add(file);
+  }
+
+  const operations: PlannedOperation[] = [];
+  for (const path of [...paths].sort()) {
+    const before = await readPlanned(path);
+    const after = plan.files.get(path) ?? null;
+    if (before === after) continue;
+
+    operations.push({
+      type: before === null ? 'add' : after === null ? 'remove' : 'change',
+      path: relative(cwd, path).split(sep).join('/'),
+      bytes: Buffer.byteLength(after ?? '') - Buffer.byteLength(before ?? ''),
+      tokens: estimateTokens(after ?? '') - estimateTokens(before ?? ''),
+      ...(after !== null ? { content: after } : {}),
+    });
+  }
+  return operations;
+}
@@ -0,0 +1,252 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join, posix, resolve } from 'node:path';
+import type { GenerateOptions, PackageInfo } from './types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  createFsPackageFiles,
+  extractPackageInfoFromFiles,
+  isDocFile,
+  shouldInclude,
+  type PackageFiles,
+  type PackageListing,
+} from './traverse.js';
+import { fileExists, mapConcurrent } from './utils.js';
+import { openZip, type ZipReader } from './zip.js';
+
+/** Plug'n'Play files, in order of preference */
+const PNP_FILES = ['.pnp.data.json', '.pnp.cjs', '.pnp.js'];
+
+/**
+ * An installed package from the Plug'n'Play package registry
+ */
+export interface PnpLocator {
+  /** Package name */
+  name: string;
+  /** Yarn reference (e.g. "npm:4.17.21", "workspace:packages/ui") */
+  reference: string;
+  /** Package location, relative to the project root (may point inside a zip) */
+  location: string;
+}
+
+type PnpRegistryData = [
+  string | null,
+  [string | null, { packageLocation?: string; linkType?: string }][],
+][];
+
+/**
+ * Find the Plug'n'Play data file for a project
+ */
+export async function findPnpFile(cwd: string): Promise<string | null> {
+  for (const fileName of PNP_FILES) {
+    const filePath = join(cwd, fileName);
+    if (await fileExists(filePath)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the serialized runtime state embedded in a `.pnp.cjs` file
+ *
+ * Yarn stores it as a single-quoted string literal assigned to
+ * `RAW_RUNTIME_STATE`, using backslash line continuations.
+ */
+export function parsePnpRuntimeState(source: string): unknown {
+  const marker = source.indexOf('RAW_RUNTIME_STATE');
+  if (marker === -1) return null;
+
+  const start = source.indexOf("'", marker);
+  if (start === -1) return null;
+
+  let json = '';
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (char === "'") {
+      try {
+        return JSON.parse(json);
+      } catch {
+        return null;
+      }
+    }
+    if (char !== '\\') {
+      json += char;
+      continue;
+    }
+
+    const next = source[++i];
+    if (next === '\n') continue;
+    if (next === '\r' && source[i + 1] === '\n') {
+      i++;
+      continue;
+    }
+    json += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+  }
+  return null;
+}
+
+/**
+ * Read every package locator from a Plug'n'Play file
+ *
+ * Virtual locators (peer-dependency instances) are skipped since they point at
+ * the same package as their underlying locator, as is the project root itself.
+ */
+export async function readPnpLocators(pnpPath: string): Promise<PnpLocator[]> {
+  let state: { packageRegistryData?: PnpRegistryData } | null;
+  try {
+    const content = await readFile(pnpPath, 'utf-8');
+    state = pnpPath.endsWith('.json') ? JSON.parse(content) : parsePnpRuntimeState(content);
+  } catch {
+    return [];
+  }
+
+  const locators: PnpLocator[] = [];
+  for (const [name, references] of state?.packageRegistryData ?? []) {
+    if (!name || !Array.isArray(references)) continue;
+
+    for (const [reference, info] of references) {
+      if (!reference || reference.startsWith('virtual:')) continue;
+      const location = info?.packageLocation;
+      if (!location || location === './') continue;
+      locators.push({ name, reference, location });
+    }
+  }
+
+  return locators.sort((a, b) =>
+    a.name === b.name ? (a.reference < b.reference ? -1 : 1) : a.name < b.name ? -1 : 1
+  );
+}
+
+/**
+ * Create file access for a package stored inside a zip archive
+ *
+ * @param zip - Open archive
+ * @param prefix - Folder of the package inside the archive (e.g. "node_modules/lodash/")
+ * @param root - Path used to build documentation paths (archive path + prefix)
+ */
+export function createZipPackageFiles(zip: ZipReader, prefix: string, root: string): PackageFiles {
+  const base = prefix.endsWith('/') ? prefix : `${prefix}/`;
+  const names = [...zip.entries.keys()]
+    .filter(name => name.startsWith(base))
+    .map(name => name.slice(base.length));
+
+  const listing: PackageListing = { files: new Set(), dirs: new Set() };
+  for (const name of names) {
+    const slash = name.indexOf('/');
+    if (slash === -1) {
+      listing.files.add(name);
+    } else {
+      listing.dirs.add(name.slice(0, slash));
+    }
+  }
+
+  const entryName = (relPath: string) => base + posix.normalize(relPath).replace(/^\.\//, '');
+
+  return {
+    root,
+    listing,
+    readText: async (relPath, maxLines) => {
+      const buffer = await zip.readFile(entryName(relPath)).catch(() => null);
+      if (!buffer) return null;
+      const content = buffer.toString('utf-8');
+      return maxLines ? content.split('\n').slice(0, maxLines).join('\n') : content;
+    },
+    exists: async relPath => zip.entries.has(entryName(relPath)),
+    scanDocs: async relPath => {
+      const folder = `${posix.normalize(relPath)}/`;
+      return names
+        .filter(name => name.startsWith(folder))
+        .map(name => name.slice(folder.length))
+        .filter(name => name.split('/').length <= 3 && isDocFile(posix.basename(name)));
+    },
+  };
+}
+
+/**
+ * Split a locator location into its zip archive and in-archive folder
+ */
+function splitArchiveLocation(
+  root: string,
+  location: string
+): { archivePath: string; prefix: string } | null {
+  const match = /^(.*?\.zip)\/(.*)$/.exec(location);
+  if (!match) return null;
+  return { archivePath: resolve(root, match[1]), prefix: match[2] };
+}
+
+/**
+ * Traverse every package installed with Yarn Plug'n'Play
+ *
+ * Packages are read straight out of the `.yarn/cache/*.zip` archives (or from
+ * unplugged/workspace folders), sorted by name and de-duplicated by location.
+ *
+ * @param pnpPath - Path to `.pnp.data.json` or `.pnp.cjs`
+ * @param options - Generation options (include/exclude, concurrency)
+ */
+export async function* traversePnp(
+  pnpPath: string,
+  options: GenerateOptions = {}
+): AsyncGenerator<PackageInfo> {
+  const { include, exclude, additionalSources, concurrency = DEFAULT_CONCURRENCY } = options;
+  const root = dirname(pnpPath);
+  const locators = await readPnpLocators(pnpPath);
+
+  const byName = new Map<string, PnpLocator>();
+  for (const locator of locators) {
+    if (!byName.has(locator.name)) byName.set(locator.name, locator);
+  }
+
+  const seen = new Set<string>();
+  const candidates = locators.filter(locator => {
+    if (seen.has(locator.location)) return false;
+    seen.add(locator.location);
+    return shouldInclude(locator.name, include, exclude);
+  });
+
+  const infos = mapConcurrent(candidates, concurrency, async locator => {
+    const openArchives: ZipReader[] = [];
+
+    const openLocator = async (target: PnpLocator): Promise<PackageFiles | null> => {
+      const archive = splitArchiveLocation(root, target.location);
+      if (!archive) {
+        return createFsPackageFiles(resolve(root, target.location));
+      }
+      try {
+        const zip = await openZip(archive.archivePath);
+        openArchives.push(zip);
+        return createZipPackageFiles(
+          zip,
+          archive.prefix,
+          join(archive.archivePath, archive.prefix)
+        );
+      } catch {
+        return null;
+      }
+    };
+
+    try {
+      const files = await openLocator(locator);
+      if (!files) return null;
+
+      const info = await extractPackageInfoFromFiles(files, locator.name, {
+        additionalSources,
+        resolvePackage: async name => {
+          const target = byName.get(name);
+          return target ? openLocator(target) : null;
+        },
+      });
+
+      const archive = splitArchiveLocation(root, locator.location);
+      if (info && archive) {
+        info.archivePath = archive.archivePath;
+      }
+      return info;
+    } finally {
+      await Promise.all(openArchives.map(zip => zip.close()));
+    }
+  });
+
+  for await (const info of infos) {
+    if (info) yield info;
+  }
+}
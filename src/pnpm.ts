@@ -0,0 +1,149 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import type { GenerateOptions, PackageInfo } from './types.js';
+import { DEFAULT_CONCURRENCY, extractPackageInfo, shouldInclude } from './traverse.js';
+import { fileExists, mapConcurrent } from './utils.js';
+import { parseYamlDocument } from './yaml.js';
+
+/**
+ * A package name and version resolved from pnpm metadata
+ */
+export interface PnpmPackageRef {
+  name: string;
+  version: string;
+}
+
+/**
+ * Parse a pnpm lockfile package key into name and version
+ *
+ * Handles every lockfile generation:
+ * - v5: `/@scope/name/1.0.0` or `/name/1.0.0_peer@1.0.0`
+ * - v6: `/@scope/name@1.0.0(peer@1.0.0)`
+ * - v9: `@scope/name@1.0.0(peer@1.0.0)`
+ */
+export function parsePnpmPackageKey(key: string): PnpmPackageRef | null {
+  // Drop the leading slash and v6+ peer suffixes
+  const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+
+  // v5 format: name/version[_peers]
+  const v5 = /^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/.exec(spec);
+  if (v5) {
+    return { name: v5[1], version: v5[2].split('_')[0] };
+  }
+
+  const at = spec.indexOf('@', 1);
+  if (at <= 0) return null;
+  const version = spec.slice(at + 1).split('_')[0];
+  return version ? { name: spec.slice(0, at), version } : null;
+}
+
+/**
+ * Parse a virtual store folder name (e.g. `@babel+core@7.22.0_peer`) into name and version
+ */
+export function parsePnpmStoreDirName(dirName: string): PnpmPackageRef | null {
+  const at = dirName.indexOf('@', 1);
+  if (at <= 0) return null;
+
+  const name = dirName.slice(0, at).replace('+', '/');
+  const version = dirName.slice(at + 1).split(/[_(]/)[0];
+  return version ? { name, version } : null;
+}
+
+/**
+ * List every package recorded in a pnpm lockfile (`packages` and `snapshots`)
+ */
+export function parsePnpmLockPackages(content: string): PnpmPackageRef[] {
+  const doc = parseYamlDocument(content) as Record<string, unknown> | null;
+  if (!doc || typeof doc !== 'object') return [];
+
+  const refs = new Map<string, PnpmPackageRef>();
+  for (const section of ['packages', 'snapshots']) {
+    const entries = doc[section];
+    if (!entries || typeof entries !== 'object') continue;
+
+    for (const key of Object.keys(entries)) {
+      const ref = parsePnpmPackageKey(key);
+      if (ref) refs.set(`${ref.name}@${ref.version}`, ref);
+    }
+  }
+  return [...refs.values()];
+}
+
+/**
+ * Find pnpm's virtual store for a node_modules folder
+ *
+ * Uses `virtualStoreDir` from `node_modules/.modules.yaml` when present,
+ * falling back to `node_modules/.pnpm`. Returns null if there is no store.
+ */
+export async function getPnpmVirtualStoreDir(nodeModulesPath: string): Promise<string | null> {
+  let storeDir = join(nodeModulesPath, '.pnpm');
+
+  try {
+    const content = await readFile(join(nodeModulesPath, '.modules.yaml'), 'utf-8');
+    const modules = parseYamlDocument(content) as { virtualStoreDir?: unknown } | null;
+    if (typeof modules?.virtualStoreDir === 'string') {
+      storeDir = resolve(nodeModulesPath, modules.virtualStoreDir);
+    }
+  } catch {
+    // Not installed by pnpm, or .modules.yaml is missing
+  }
+
+  return (await fileExists(storeDir)) ? storeDir : null;
+}
+
+/**
+ * Traverse every package in pnpm's virtual store
+ *
+ * Transitive dependencies of pnpm projects only exist under
+ * `node_modules/.pnpm/<name>@<version>/node_modules/<name>`. When `pnpm-lock.yaml`
+ * is available next to node_modules, only the packages it lists are included;
+ * otherwise every store entry is. Each name@version is yielded once, sorted.
+ *
+ * @param nodeModulesPath - Path to a node_modules folder installed by pnpm
+ * @param options - Generation options (include/exclude, concurrency)
+ */
+export async function* traversePnpmStore(
+  nodeModulesPath: string,
+  options: GenerateOptions = {}
+): AsyncGenerator<PackageInfo> {
+  const { include, exclude, additionalSources, concurrency = DEFAULT_CONCURRENCY } = options;
+
+  const storeDir = await getPnpmVirtualStoreDir(nodeModulesPath);
+  if (!storeDir) return;
+
+  let storeEntries: string[];
+  try {
+    storeEntries = (await readdir(storeDir)).filter(name => !name.startsWith('.')).sort();
+  } catch {
+    return;
+  }
+
+  // Restrict to what the lockfile says is installed, if we have one
+  let locked: Set<string> | null = null;
+  try {
+    const lockContent = await readFile(join(dirname(nodeModulesPath), 'pnpm-lock.yaml'), 'utf-8');
+    locked = new Set(parsePnpmLockPackages(lockContent).map(ref => `${ref.name}@${ref.version}`));
+  } catch {
+    // No lockfile, use every store entry
+  }
+
+  const candidates = new Map<string, { name: string; path: string; nodeModules: string }>();
+  for (const dirName of storeEntries) {
+    const ref = parsePnpmStoreDirName(dirName);
+    if (!ref) continue;
+
+    const key = `${ref.name}@${ref.version}`;
+    if (candidates.has(key) || (locked && !locked.has(key))) continue;
+    if (!shouldInclude(ref.name, include, exclude)) continue;
+
+    const nodeModules = join(storeDir, dirName, 'node_modules');
+    candidates.set(key, { name: ref.name, path: join(nodeModules, ref.name), nodeModules });
+  }
+
+  const infos = mapConcurrent([...candidates.values()], concurrency, candidate =>
+    extractPackageInfo(candidate.path, candidate.name, candidate.nodeModules, additionalSources)
+  );
+  for await (const info of infos) {
+    if (info) yield info;
+  }
+}
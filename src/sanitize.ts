@@ -0,0 +1,160 @@
+import type { SanitizeOptions } from './types.js';
+
+/** Cleanup rules, all enabled by default */
+export const SANITIZE_RULES = ['badges', 'html', 'images', 'altText', 'sponsors'] as const;
+
+/** Lines made only of badges (shields, CI status images) */
+export const BADGE_LINE =
+  /^\s*(?:(?:\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)|!\[[^\]]*\]\([^)]*\)|<a\s[^>]*>\s*<img\s[^>]*>\s*<\/a>|<img\s[^>]*>)\s*)+$/i;
+
+/** Headings of sections collapsed by the `sponsors` rule */
+const SPONSOR_HEADING =
+  /\b(sponsors?|sponsorship|backers?|contributors?|supporters?|patrons?|donations?|donate)\b/i;
+
+/** Layout tags dropped by the `html` rule, keeping their content */
+const LAYOUT_TAGS =
+  /<\/?(p|div|span|center|details|picture|source|table|thead|tbody|tfoot|tr|td|th|sup|sub|small|a)\b[^>]*>/gi;
+
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Read an attribute of an HTML tag
+ */
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Convert simple HTML to Markdown: images, links, headings, emphasis and
+ * `<details>` summaries. Layout tags and comments are dropped.
+ */
+function htmlToMarkdown(text: string): string {
+  return (
+    text
+      // Indented HTML would otherwise turn into an indented code block
+      .replace(/^[ \t]+(?=<)/gm, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<img\s[^>]*>/gi, tag => {
+        const src = readAttribute(tag, 'src');
+        const alt = readAttribute(tag, 'alt') ?? '';
+        return src ? `![${alt}](${src})` : alt;
+      })
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+        (_, level: string, inner: string) => `${'#'.repeat(Number(level))} ${inner.trim()}`
+      )
+      .replace(/<summary\b[^>]*>([\s\S]*?)<\/summary>/gi, (_, inner: string) =>
+        inner.trim() ? `**${inner.trim()}**` : ''
+      )
+      .replace(/<a\s[^>]*>([\s\S]*?)<\/a>/gi, (tag: string, inner: string) => {
+        const href = readAttribute(tag, 'href');
+        return href && inner.trim() ? `[${inner.trim()}](${href})` : inner;
+      })
+      .replace(/<(b|strong)>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(i|em)>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<code>([^<`]*)<\/code>/gi, '`$1`')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<hr\s*\/?>/gi, '---')
+      .replace(LAYOUT_TAGS, '')
+  );
+}
+
+/**
+ * Drop Markdown images, keeping their alt text if requested
+ */
+function removeImages(text: string, altText: boolean): string {
+  return text
+    .replace(/\[!\[([^\]]*)\]\([^)]*\)\]\(([^)]*)\)/g, (_, alt: string, href: string) =>
+      altText && alt.trim() ? `[${alt.trim()}](${href})` : ''
+    )
+    .replace(/!\[([^\]]*)\](\([^)]*\)|\[[^\]]*\])/g, (_, alt: string) =>
+      altText ? alt.trim() : ''
+    );
+}
+
+/**
+ * Remove sections whose heading names sponsors, backers or contributors,
+ * with their subsections
+ */
+function collapseSponsorSections(lines: string[]): string[] {
+  const result: string[] = [];
+  let inFence = false;
+  let skipLevel = 0;
+
+  for (const line of lines) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      if (skipLevel && level <= skipLevel) skipLevel = 0;
+      if (!skipLevel && SPONSOR_HEADING.test(heading[2])) skipLevel = level;
+    }
+    if (!skipLevel) result.push(line);
+  }
+  return result;
+}
+
+/**
+ * Apply a transform to the prose of a Markdown document, leaving fenced code
+ * blocks untouched
+ */
+function mapProse(markdown: string, transform: (text: string) => string): string {
+  const chunks: string[] = [];
+  let prose: string[] = [];
+  let code: string[] = [];
+
+  for (const line of markdown.split('\n')) {
+    if (code.length > 0) {
+      code.push(line);
+      if (FENCE.test(line)) {
+        chunks.push(code.join('\n'));
+        code = [];
+      }
+    } else if (FENCE.test(line)) {
+      if (prose.length > 0) chunks.push(transform(prose.join('\n')));
+      prose = [];
+      code.push(line);
+    } else {
+      prose.push(line);
+    }
+  }
+  // An unclosed fence runs to the end of the document
+  if (code.length > 0) chunks.push(code.join('\n'));
+  if (prose.length > 0) chunks.push(transform(prose.join('\n')));
+
+  return chunks.join('\n');
+}
+
+/**
+ * Clean up a README for use in a skill file
+ *
+ * Removes content that costs tokens without documenting the package: badge
+ * rows, images, sponsor and contributor sections, and HTML layout. Each rule
+ * can be turned off; code blocks are never changed.
+ *
+ * @param markdown - README content
+ * @param options - Rules to apply (all enabled by default)
+ */
+export function sanitizeMarkdown(markdown: string, options: SanitizeOptions = {}): string {
+  const { badges = true, html = true, images = true, altText = true, sponsors = true } = options;
+
+  let lines = markdown.split('\n');
+  let inFence = false;
+  if (badges) {
+    lines = lines.filter(line => {
+      if (FENCE.test(line)) inFence = !inFence;
+      return inFence || !BADGE_LINE.test(line);
+    });
+  }
+
+  let text = lines.join('\n');
+  if (html) text = mapProse(text, htmlToMarkdown);
+  if (sponsors) text = collapseSponsorSections(text.split('\n')).join('\n');
+  if (images) text = mapProse(text, prose => removeImages(prose, altText));
+
+  // Tidy the blank lines left behind
+  return mapProse(text, prose =>
+    prose.replace(/^[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n')
+  ).replace(/^\n+/, '');
+}
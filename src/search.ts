@@ -0,0 +1,338 @@
+import { readFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import type { PackageInfo } from './types.js';
+import { DEFAULT_OUTPUT } from './generator.js';
+import { getSkillTargetPath } from './linker.js';
+import { compareStrings, compareVersions } from './utils.js';
+import { writeOutput, type FilePlan } from './plan.js';
+
+/** Search index, written next to `_index.md` */
+export const SEARCH_INDEX_FILE = 'search-index.json';
+
+/** Format version of the search index, bumped when it changes */
+const SEARCH_INDEX_VERSION = 1;
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 document length normalization */
+const B = 0.75;
+
+/** Weight of a package's name, description and keywords over its README sections */
+const METADATA_BOOST = 2;
+
+/** Characters of a section kept for snippets */
+const MAX_STORED_TEXT = 1000;
+
+/** Characters shown around the first match */
+const SNIPPET_LENGTH = 160;
+
+const FENCE = /^\s*(```|~~~)/;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be by can do for from has have how i if in into is it its of on or ' +
+    'so that the this to use was what when which will with you your'
+  ).split(' ')
+);
+
+/**
+ * A searchable chunk of a package's documentation
+ */
+export interface SearchDocument {
+  /** Package name */
+  name: string;
+  version: string;
+  /** "Overview" (name, description, keywords), "API" or a README heading */
+  section: string;
+  /** SKILL.md path, relative to the output directory */
+  path: string;
+  /** Start of the section text, used for snippets */
+  text: string;
+  /** Number of indexed terms */
+  length: number;
+  /** Score multiplier */
+  boost?: number;
+}
+
+/**
+ * BM25 inverted index over the documentation of a skill set
+ */
+export interface SearchIndex {
+  version: number;
+  documents: SearchDocument[];
+  /** Term → flat list of [document index, term frequency] pairs */
+  terms: Record<string, number[]>;
+  /** Average document length */
+  averageLength: number;
+}
+
+/**
+ * A ranked search result
+ */
+export interface SearchResult {
+  /** Package name */
+  name: string;
+  version: string;
+  /** Section the match is in */
+  section: string;
+  /** SKILL.md path, relative to the output directory */
+  path: string;
+  /** Text around the first matching term */
+  snippet: string;
+  score: number;
+}
+
+/**
+ * Reduce a word to a rough stem, so "parse", "parses" and "parsing" match
+ */
+function stem(word: string): string {
+  let result = word;
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (suffix === 's' && result.endsWith('ss')) break;
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return result.endsWith('e') && result.length > 3 ? result.slice(0, -1) : result;
+}
+
+/**
+ * Split text into search terms: lowercase stems of words, with camelCase and
+ * snake_case identifiers split into their parts as well
+ *
+ * @example
+ * ```typescript
+ * tokenize('parseISO dates') // => ['parseiso', 'pars', 'iso', 'dat']
+ * ```
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const parts = word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(' ');
+    const words = parts.length > 1 ? [word, ...parts] : parts;
+    for (const part of words) {
+      const lower = part.toLowerCase();
+      if (lower.length < 2 || STOP_WORDS.has(lower)) continue;
+      terms.push(stem(lower));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Split a README into sections at its level 1 to 3 headings
+ */
+function splitSections(readme: string): { section: string; text: string }[] {
+  const sections: { section: string; text: string }[] = [];
+  let section = 'README';
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) sections.push({ section, text });
+    lines = [];
+  };
+
+  for (const line of readme.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^#{1,3}\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      section = heading[1].replace(/[`*_[\]]|\([^)]*\)/g, '').trim() || section;
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Build a search index over the documentation of packages: their name,
+ * description and keywords, README sections and exported API symbols
+ *
+ * @param packages - Documented packages
+ * @param outputDir - Output directory the skill paths are relative to
+ */
+export function buildSearchIndex(packages: PackageInfo[], outputDir: string): SearchIndex {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, number[]>();
+  const versionCounts = new Map<string, number>();
+  for (const pkg of packages) {
+    versionCounts.set(pkg.name, (versionCounts.get(pkg.name) ?? 0) + 1);
+  }
+
+  const sorted = [...packages].sort(
+    (a, b) => compareStrings(a.name, b.name) || compareVersions(a.version, b.version)
+  );
+  for (const pkg of sorted) {
+    const versioned = versionCounts.get(pkg.name)! > 1;
+    const path = relative(outputDir, getSkillTargetPath(pkg, outputDir, { versioned }))
+      .split(sep)
+      .join('/');
+    // Every section matches the package name too
+    const nameTerms = tokenize(pkg.name.replace(/[@/-]/g, ' '));
+
+    const add = (section: string, text: string, extra = '', boost?: number) => {
+      const terms = [...nameTerms, ...tokenize(`${text}\n${extra}`)];
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+
+      const index = documents.length;
+      documents.push({
+        name: pkg.name,
+        version: pkg.version,
+        section,
+        path,
+        text: text.slice(0, MAX_STORED_TEXT),
+        length: terms.length,
+        ...(boost ? { boost } : {}),
+      });
+      for (const [term, frequency] of frequencies) {
+        const list = postings.get(term) ?? [];
+        list.push(index, frequency);
+        postings.set(term, list);
+      }
+    };
+
+    const keywords = Array.isArray(pkg.keywords) ? pkg.keywords.join(', ') : '';
+    add('Overview', pkg.description ?? '', keywords, METADATA_BOOST);
+
+    for (const { section, text } of splitSections(pkg.docs?.readme ?? pkg.readme ?? '')) {
+      add(section, text);
+    }
+
+    const symbols = [...(pkg.docs?.api ?? []), ...(pkg.docs?.apiSurface ?? [])];
+    if (symbols.length > 0) {
+      const names = [...new Set(symbols.map(symbol => symbol.name))];
+      const descriptions = symbols.map(symbol => symbol.description ?? '').join('\n');
+      add('API', names.join(', '), descriptions);
+    }
+  }
+
+  const totalLength = documents.reduce((sum, document) => sum + document.length, 0);
+  return {
+    version: SEARCH_INDEX_VERSION,
+    documents,
+    terms: Object.fromEntries([...postings].sort(([a], [b]) => compareStrings(a, b))),
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Cut the text around the first occurrence of a query term
+ */
+function createSnippet(text: string, queryTerms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const positions = queryTerms
+    .map(term => lower.search(new RegExp(`(?<![\\p{L}\\p{N}])${term}`, 'u')))
+    .filter(position => position !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Rank the documents of an index against a query with BM25
+ *
+ * @param index - Search index
+ * @param query - Free text query
+ * @param limit - Maximum number of results (default: 10)
+ */
+export function searchIndex(index: SearchIndex, query: string, limit = 10): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const scores = new Map<number, number>();
+  const count = index.documents.length;
+
+  for (const term of queryTerms) {
+    if (!Object.hasOwn(index.terms, term)) continue;
+    const postings = index.terms[term];
+    const documentFrequency = postings.length / 2;
+    const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    for (let i = 0; i < postings.length; i += 2) {
+      const document = index.documents[postings[i]];
+      const frequency = postings[i + 1];
+      const norm = 1 - B + (B * document.length) / (index.averageLength || 1);
+      const score = (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+      scores.set(postings[i], (scores.get(postings[i]) ?? 0) + score * (document.boost ?? 1));
+    }
+  }
+
+  return [...scores]
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a - b)
+    .slice(0, limit)
+    .map(([position, score]) => {
+      const document = index.documents[position];
+      return {
+        name: document.name,
+        version: document.version,
+        section: document.section,
+        path: document.path,
+        snippet: createSnippet(document.text, queryTerms),
+        score: Math.round(score * 1000) / 1000,
+      };
+    });
+}
+
+/**
+ * Write the search index of a skill set to its output directory
+ */
+export async function writeSearchIndex(
+  packages: PackageInfo[],
+  outputDir: string,
+  plan?: FilePlan
+): Promise<void> {
+  const index = buildSearchIndex(packages, outputDir);
+  await writeOutput(join(outputDir, SEARCH_INDEX_FILE), JSON.stringify(index), plan);
+}
+
+/**
+ * Search the generated skills of a project
+ *
+ * Reads the index written by `generate()`, so it runs offline and without
+ * reading node_modules.
+ *
+ * @param query - Free text query, e.g. "parse dates"
+ * @param options.output - Output directory of the skills (default: `DEFAULT_OUTPUT`)
+ * @param options.limit - Maximum number of results (default: 10)
+ * @throws When the index doesn't exist yet
+ *
+ * @example
+ * ```typescript
+ * const results = await search('date parsing');
+ * // => [{ name: 'date-fns', section: 'Parsing', path: 'date-fns/SKILL.md', ... }]
+ * ```
+ */
+export async function search(
+  query: string,
+  options: { cwd?: string; output?: string; limit?: number } = {}
+): Promise<SearchResult[]> {
+  const cwd = options.cwd || process.cwd();
+  const outputDir = options.output || join(cwd, DEFAULT_OUTPUT);
+  const indexPath = join(outputDir, SEARCH_INDEX_FILE);
+
+  let index: SearchIndex;
+  try {
+    index = JSON.parse(await readFile(indexPath, 'utf-8')) as SearchIndex;
+  } catch {
+    throw new Error(`No search index at ${indexPath}, run "v-skills generate" first`);
+  }
+  if (index.version !== SEARCH_INDEX_VERSION) {
+    throw new Error('The search index was written by another v-skills version, generate again');
+  }
+
+  return searchIndex(index, query, options.limit);
+}
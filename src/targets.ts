@@ -0,0 +1,364 @@
+import { readdir, readFile, rmdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import type { OutputTargetName, PackageInfo, SkillLimits, TargetOutput } from './types.js';
+import {
+  generateMarkdown,
+  getSkillDescription,
+  getSkillTargetPath,
+  type SkillRenderOptions,
+} from './linker.js';
+import { stringifyFrontmatter, type YamlValue } from './yaml.js';
+import { compareStrings, fileExists } from './utils.js';
+import { removeOutput, writeOutput, type FilePlan } from './plan.js';
+
+/** Every output target, in the order they are written */
+export const TARGET_NAMES: readonly OutputTargetName[] = [
+  'claude-skills',
+  'cursor',
+  'copilot',
+  'agents-md',
+  'windsurf',
+];
+
+/** Targets used when none are configured */
+export const DEFAULT_TARGETS: OutputTargetName[] = ['claude-skills'];
+
+/** Targets that need the skill folders (SKILL.md files, `_index.md`, manifest) */
+export const SKILL_TREE_TARGETS: readonly OutputTargetName[] = ['claude-skills', 'agents-md'];
+
+/** Targets writing one rule file per package */
+export type RuleTargetName = 'cursor' | 'copilot' | 'windsurf';
+
+/**
+ * How a tool reads rule files: where they live and which frontmatter decides
+ * when they apply
+ */
+export interface RuleTarget {
+  /** Folder of the rule files, relative to the project root */
+  dir: string;
+  /** File name prefix marking the files as written by v-skills */
+  prefix: string;
+  extension: string;
+  /** File name of the index rule */
+  indexName: string;
+  /** .gitignore entry covering the generated files */
+  ignoreEntry: string;
+  /** Frontmatter of a package rule; `globs` is only set for workspace packages */
+  frontmatter: (description: string, globs?: string) => Record<string, YamlValue>;
+  /** Frontmatter of the index rule, which always applies */
+  indexFrontmatter: (description: string) => Record<string, YamlValue>;
+  /** Size limits the tool puts on a rule file */
+  limits?: SkillLimits;
+}
+
+export const RULE_TARGETS: Record<RuleTargetName, RuleTarget> = {
+  cursor: {
+    dir: '.cursor/rules/v-skills',
+    prefix: '',
+    extension: '.mdc',
+    indexName: '_index.mdc',
+    ignoreEntry: '.cursor/rules/v-skills/',
+    frontmatter: (description, globs) => ({ description, globs, alwaysApply: false }),
+    indexFrontmatter: description => ({ description, alwaysApply: true }),
+  },
+  copilot: {
+    dir: '.github/instructions',
+    prefix: 'v-skills-',
+    extension: '.instructions.md',
+    indexName: 'v-skills.instructions.md',
+    ignoreEntry: '.github/instructions/v-skills*.instructions.md',
+    frontmatter: (description, globs) => ({ description, applyTo: globs }),
+    indexFrontmatter: description => ({ description, applyTo: '**' }),
+  },
+  windsurf: {
+    dir: '.windsurf/rules',
+    prefix: 'v-skills-',
+    extension: '.md',
+    indexName: 'v-skills.md',
+    ignoreEntry: '.windsurf/rules/v-skills*.md',
+    frontmatter: (description, globs) =>
+      globs ? { trigger: 'glob', globs, description } : { trigger: 'model_decision', description },
+    indexFrontmatter: description => ({ trigger: 'always_on', description }),
+    // Windsurf ignores rule files over 12,000 characters
+    limits: { maxBytes: 12000 },
+  },
+};
+
+/** Marks the section of AGENTS.md owned by v-skills */
+const AGENTS_MD_START = '<!-- v-skills:start -->';
+const AGENTS_MD_END = '<!-- v-skills:end -->';
+
+const INDEX_DESCRIPTION =
+  'Index of the documentation of installed npm packages. Read the rule of a package before using its API.';
+
+/**
+ * Everything a target needs to render the packages of a project
+ */
+export interface TargetContext {
+  /** Project root the target folders are relative to */
+  cwd: string;
+  /** Packages to document, one version per name */
+  packages: PackageInfo[];
+  /** Render options shared with the SKILL.md files */
+  renderOptions: SkillRenderOptions;
+  /** Size limits of a package's file */
+  getLimits: (name: string) => SkillLimits | undefined;
+  /** Records the writes instead of performing them (dry runs) */
+  plan?: FilePlan;
+}
+
+/**
+ * Check whether a target name is a rule target
+ */
+export function isRuleTarget(name: OutputTargetName): name is RuleTargetName {
+  return name in RULE_TARGETS;
+}
+
+/**
+ * Combine the configured size limits with a tool's own, keeping the lower of each
+ */
+function mergeLimits(limits?: SkillLimits, toolLimits?: SkillLimits): SkillLimits | undefined {
+  if (!toolLimits) return limits;
+  const lower = (a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : Math.min(a, b);
+  return {
+    maxTokens: lower(limits?.maxTokens, toolLimits.maxTokens),
+    maxBytes: lower(limits?.maxBytes, toolLimits.maxBytes),
+  };
+}
+
+/**
+ * Get the file name of a package's rule, without prefix and extension
+ *
+ * Scopes are kept apart with "__", as in flat skill file names, so
+ * `@babel/core` and `babel-core` don't share a rule file.
+ */
+function getRuleName(name: string): string {
+  return name.replace(/^@/, '').replace(/\//g, '__');
+}
+
+/**
+ * Shorten a table cell
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength - 3) + '...' : text;
+}
+
+/**
+ * Get a path relative to the project root, with forward slashes
+ */
+function toProjectPath(cwd: string, path: string): string {
+  return relative(cwd, path).split(sep).join('/');
+}
+
+/**
+ * Write one rule file per package plus an index rule for Cursor, Copilot or
+ * Windsurf, and remove the rules of packages that are gone
+ *
+ * Rules of dependencies apply when the tool finds their description relevant;
+ * rules of workspace packages also apply to the files in the package folder.
+ */
+export async function writeRuleTarget(
+  name: RuleTargetName,
+  context: TargetContext
+): Promise<TargetOutput> {
+  const target = RULE_TARGETS[name];
+  const dir = join(context.cwd, target.dir);
+
+  const written: string[] = [];
+  const rows: string[] = [];
+  const sorted = [...context.packages].sort((a, b) => compareStrings(a.name, b.name));
+
+  for (const pkg of sorted) {
+    const fileName = `${target.prefix}${getRuleName(pkg.name)}${target.extension}`;
+    const path = join(dir, fileName);
+    const globs =
+      pkg.internal && pkg.packagePath ? `${toProjectPath(context.cwd, pkg.packagePath)}/**` : '';
+
+    const content = generateMarkdown(pkg, path, {
+      ...context.renderOptions,
+      split: false,
+      limits: mergeLimits(context.getLimits(pkg.name), target.limits),
+      frontmatterBlock: stringifyFrontmatter(
+        target.frontmatter(getSkillDescription(pkg), globs || undefined)
+      ),
+    });
+    await writeOutput(path, content, context.plan);
+    written.push(fileName);
+
+    const description = truncate((pkg.description || '-').replace(/\s+/g, ' '), 100);
+    const cell = description.replace(/\|/g, '\\|');
+    rows.push(`| [${pkg.name}](${fileName}) | ${pkg.version} | ${cell} |`);
+  }
+
+  const index = [
+    stringifyFrontmatter(target.indexFrontmatter(INDEX_DESCRIPTION)),
+    '<!-- v-skills index - auto-generated -->',
+    '# Dependency Documentation',
+    '',
+    'Each installed package has a rule file with its documentation: README, API, ' +
+      'types and changelog for the installed version. Read the rule of a package ' +
+      'before writing code that uses it.',
+    '',
+    '| Package | Version | Description |',
+    '|---------|---------|-------------|',
+    ...rows,
+    '',
+  ].join('\n');
+  await writeOutput(join(dir, target.indexName), index, context.plan);
+  written.push(target.indexName);
+
+  await removeStaleRules(dir, target, written, context.plan);
+
+  return {
+    name,
+    files: written.map(fileName => `${target.dir}/${fileName}`),
+  };
+}
+
+/**
+ * Check whether a file in a rule folder was written by v-skills
+ */
+function isOwnRule(target: RuleTarget, fileName: string): boolean {
+  return (
+    fileName === target.indexName ||
+    (fileName.startsWith(target.prefix) && fileName.endsWith(target.extension))
+  );
+}
+
+/**
+ * Remove v-skills rule files that weren't written this time
+ */
+async function removeStaleRules(
+  dir: string,
+  target: RuleTarget,
+  written: string[],
+  plan?: FilePlan
+) {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return;
+  }
+  for (const fileName of entries) {
+    if (isOwnRule(target, fileName) && !written.includes(fileName)) {
+      await removeOutput(join(dir, fileName), plan);
+    }
+  }
+}
+
+/**
+ * Add (or update) the v-skills section of AGENTS.md, linking to the skill
+ * folders; the rest of the file is left as it is
+ *
+ * Only packages the project depends on directly are listed, `_index.md`
+ * links the rest.
+ *
+ * @param cwd - Project root
+ * @param root - Folder of the AGENTS.md file (a workspace package in perWorkspace mode)
+ * @param outputDir - Skill folder output directory
+ * @param plan - Records the write instead of performing it (dry runs)
+ */
+export async function writeAgentsMd(
+  cwd: string,
+  root: string,
+  outputDir: string,
+  packages: PackageInfo[],
+  plan?: FilePlan
+): Promise<TargetOutput> {
+  const path = join(root, 'AGENTS.md');
+  const link = (target: string) => toProjectPath(root, target);
+  const listed = packages.filter(pkg => !pkg.depth).sort((a, b) => compareStrings(a.name, b.name));
+
+  const section = [
+    AGENTS_MD_START,
+    '## Dependency Documentation',
+    '',
+    `Documentation of the installed npm packages, for the installed versions, is in \`${link(outputDir)}\`. ` +
+      `Before using a package's API, read its \`SKILL.md\`. ` +
+      `[_index.md](${link(join(outputDir, '_index.md'))}) lists every package with a description.`,
+    '',
+    ...listed.map(
+      pkg => `- [${pkg.name}](${link(getSkillTargetPath(pkg, outputDir))}) ${pkg.version}`
+    ),
+    ...(listed.length > 0 ? [''] : []),
+    AGENTS_MD_END,
+  ].join('\n');
+
+  const existing = (await fileExists(path)) ? await readFile(path, 'utf-8') : '';
+  await writeOutput(path, replaceAgentsMdSection(existing, section), plan);
+
+  return { name: 'agents-md', files: [toProjectPath(cwd, path)] };
+}
+
+/**
+ * Replace the v-skills section of AGENTS.md content, appending it when there is none
+ * (an empty section removes it)
+ */
+function replaceAgentsMdSection(content: string, section: string): string {
+  const start = content.indexOf(AGENTS_MD_START);
+  const end = content.indexOf(AGENTS_MD_END, start);
+  if (start !== -1 && end !== -1) {
+    const before = content.slice(0, start);
+    const after = content.slice(end + AGENTS_MD_END.length);
+    if (section) return before + section + after;
+    const rest = [before.trimEnd(), after.trim()].filter(Boolean).join('\n\n');
+    return rest ? `${rest}\n` : '';
+  }
+  if (!section) return content;
+  return content.trim() ? `${content.trimEnd()}\n\n${section}\n` : `${section}\n`;
+}
+
+/**
+ * Remove the files of an output target other than the skill folders: its
+ * v-skills rule files, or the v-skills section of AGENTS.md
+ *
+ * @param cwd - Project root
+ * @param agentsRoots - Folders whose AGENTS.md may have a v-skills section
+ * @param plan - Records the removals instead of performing them (dry runs)
+ */
+export async function removeTarget(
+  name: OutputTargetName,
+  cwd: string,
+  agentsRoots: string[] = [cwd],
+  plan?: FilePlan
+): Promise<void> {
+  if (isRuleTarget(name)) {
+    const target = RULE_TARGETS[name];
+    const dir = join(cwd, target.dir);
+    await removeStaleRules(dir, target, [], plan);
+    if (plan) return;
+    try {
+      if ((await readdir(dir)).length === 0) await rmdir(dir);
+    } catch {
+      // Folder doesn't exist
+    }
+    return;
+  }
+
+  if (name !== 'agents-md') return;
+  for (const root of agentsRoots) {
+    const path = join(root, 'AGENTS.md');
+    if (!(await fileExists(path))) continue;
+    const content = replaceAgentsMdSection(await readFile(path, 'utf-8'), '');
+    if (content.trim()) {
+      await writeOutput(path, content, plan);
+    } else {
+      await removeOutput(path, plan);
+    }
+  }
+}
+
+/**
+ * Remove the files of every output target other than the skill folders:
+ * v-skills rule files and the v-skills section of AGENTS.md
+ *
+ * @param cwd - Project root
+ * @param agentsRoots - Folders whose AGENTS.md may have a v-skills section
+ */
+export async function cleanTargets(cwd: string, agentsRoots: string[] = [cwd]): Promise<void> {
+  for (const name of TARGET_NAMES) {
+    await removeTarget(name, cwd, agentsRoots);
+  }
+}
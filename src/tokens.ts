@@ -0,0 +1,234 @@
+import type { SkillLimits } from './types.js';
+import { BADGE_LINE } from './sanitize.js';
+
+/**
+ * Section priorities, from most to least important
+ * Metadata is never cut; the other kinds are cut from the bottom of this list up.
+ */
+export const SECTION_PRIORITIES = {
+  metadata: 0,
+  usage: 1,
+  api: 2,
+  examples: 3,
+  other: 4,
+  changelog: 5,
+  badges: 6,
+} as const;
+
+export type SectionKind = keyof typeof SECTION_PRIORITIES;
+
+/**
+ * A chunk of a skill file that can be cut as a whole or shortened
+ */
+export interface SkillSection {
+  kind: SectionKind;
+  /** Markdown content, starting with its heading if it has one */
+  content: string;
+  /** Line added where the section was cut (e.g. a link to the full file) */
+  marker?: string;
+}
+
+/**
+ * Result of fitting sections to a budget
+ */
+export interface BudgetResult {
+  content: string;
+  /** Whether any section was cut */
+  truncated: boolean;
+}
+
+/**
+ * Create the marker left where a section was cut
+ *
+ * @param link - Markdown link to the full content, if there is one
+ */
+export function createTruncationMarker(link?: string): string {
+  return link
+    ? `*[Truncated to fit the size limit, see ${link}]*`
+    : '*[Truncated to fit the size limit]*';
+}
+
+/** Heading levels a README is split at */
+const README_SPLIT_HEADING = /^#{1,2}\s+(.*)$/;
+
+/** README section kinds by heading, checked in order */
+const HEADING_KINDS: [RegExp, SectionKind][] = [
+  [/changelog|change log|release notes|history|what'?s new|migrat|upgrad/, 'changelog'],
+  [
+    /contribut|sponsor|backer|author|maintainer|acknowledg|credit|thank|donat|license|code of conduct|badge|support|team|community/,
+    'badges',
+  ],
+  [/example|demo|recipe|tutorial|cookbook|snippet|showcase/, 'examples'],
+  [/\bapi\b|reference|method|function|option|config|props|parameter|argument|types?\b/, 'api'],
+  [
+    /install|setup|getting started|quick ?start|usage|how to use|overview|introduction|basic/,
+    'usage',
+  ],
+];
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * A tokenizer-free approximation: words count one token per 4 letters, numbers
+ * one per 3 digits, and every other non-space character (punctuation, symbols,
+ * non-Latin characters) counts as a token of its own.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[A-Za-z]+|\d+|\S/g)) {
+    if (/^[A-Za-z]/.test(piece)) tokens += Math.ceil(piece.length / 4);
+    else if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else tokens++;
+  }
+  return tokens;
+}
+
+/**
+ * Classify a README section by its heading
+ */
+export function classifyHeading(heading: string): SectionKind {
+  const text = heading.toLowerCase();
+  return HEADING_KINDS.find(([pattern]) => pattern.test(text))?.[1] ?? 'other';
+}
+
+/**
+ * Split a README into sections at its level 1 and 2 headings
+ *
+ * The title and introduction count as usage, and badge rows become sections
+ * of their own.
+ */
+export function splitReadme(readme: string, marker?: string): SkillSection[] {
+  const sections: SkillSection[] = [];
+  let kind: SectionKind = 'usage';
+  let lines: string[] = [];
+  let inFence = false;
+  let seenHeading = false;
+
+  const flush = () => {
+    if (lines.length === 0) return;
+    // Blank lines between sections are kept as they are
+    const blank = lines.every(line => !line.trim());
+    sections.push({ kind: blank ? 'metadata' : kind, content: lines.join('\n'), marker });
+    lines = [];
+  };
+
+  // Kind of the text following a badge row
+  let resumeKind: SectionKind = 'usage';
+  let inBadgeRow = false;
+
+  for (const line of readme.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const heading = inFence ? null : README_SPLIT_HEADING.exec(line);
+    const isBadge = !inFence && BADGE_LINE.test(line);
+    if (heading) {
+      flush();
+      kind = seenHeading || !line.startsWith('# ') ? classifyHeading(heading[1]) : 'usage';
+      resumeKind = kind;
+      seenHeading = true;
+      inBadgeRow = false;
+    } else if (isBadge && !inBadgeRow) {
+      flush();
+      kind = 'badges';
+      inBadgeRow = true;
+    } else if (inBadgeRow && line.trim() && !isBadge) {
+      flush();
+      kind = resumeKind;
+      inBadgeRow = false;
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Replacement for a section cut entirely: its heading and the marker
+ */
+function cutSection(section: SkillSection): string {
+  const marker = section.marker ?? createTruncationMarker();
+  const firstLine = section.content.split('\n', 1)[0];
+  return /^#{1,6}\s/.test(firstLine) ? `${firstLine}\n\n${marker}\n` : `${marker}\n`;
+}
+
+/**
+ * Keep the first lines of a section and add the marker, closing any open code fence
+ */
+function shortenSection(section: SkillSection, lineCount: number): string {
+  const marker = section.marker ?? createTruncationMarker();
+  const kept = section.content.split('\n').slice(0, lineCount);
+  const fences = kept.filter(line => /^\s*(```|~~~)/.test(line)).length;
+  if (fences % 2 === 1) kept.push('```');
+  return `${kept.join('\n')}\n\n${marker}\n`;
+}
+
+/**
+ * Join sections, collapsing consecutive identical markers of cut sections
+ */
+function renderSections(contents: string[], cut: boolean[]): string {
+  return contents
+    .filter((content, i) => !(cut[i] && cut[i - 1] && content === contents[i - 1]))
+    .join('\n');
+}
+
+/**
+ * Fit sections within size limits, cutting the least important ones first
+ *
+ * Sections are cut from the lowest priority up, and from the end of the file
+ * within a priority. The last section cut keeps as many of its first lines
+ * as fit. Metadata sections are never cut, so the result can still exceed the
+ * limits when they alone do.
+ */
+export function applyBudget(sections: SkillSection[], limits: SkillLimits): BudgetResult {
+  // Sections are measured one by one: tokens and bytes add up (plus a newline per join)
+  const measure = (text: string) => ({
+    tokens: limits.maxTokens !== undefined ? estimateTokens(text) : 0,
+    bytes: Buffer.byteLength(text, 'utf-8') + 1,
+  });
+  const contents = sections.map(section => section.content);
+  const sizes = contents.map(measure);
+  const cut = sections.map(() => false);
+  const fits = () =>
+    (limits.maxTokens === undefined ||
+      sizes.reduce((sum, size) => sum + size.tokens, 0) <= limits.maxTokens) &&
+    (limits.maxBytes === undefined ||
+      sizes.reduce((sum, size) => sum + size.bytes, 0) - 1 <= limits.maxBytes);
+  const replace = (index: number, content: string) => {
+    contents[index] = content;
+    sizes[index] = measure(content);
+    cut[index] = true;
+  };
+
+  if (fits()) {
+    return { content: renderSections(contents, cut), truncated: false };
+  }
+
+  const order = sections
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => section.kind !== 'metadata')
+    .sort(
+      (a, b) =>
+        SECTION_PRIORITIES[b.section.kind] - SECTION_PRIORITIES[a.section.kind] || b.index - a.index
+    );
+
+  for (const { section, index } of order) {
+    replace(index, cutSection(section));
+    if (!fits()) continue;
+
+    // Keep as many leading lines of this section as fit
+    let low = 0;
+    let high = section.content.split('\n').length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      replace(index, shortenSection(section, mid));
+      if (fits()) low = mid;
+      else high = mid - 1;
+    }
+    // A heading alone isn't worth keeping
+    replace(index, low > 1 ? shortenSection(section, low) : cutSection(section));
+    break;
+  }
+
+  return { content: renderSections(contents, cut), truncated: true };
+}
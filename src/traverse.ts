@@ -1,7 +1,10 @@
 import { readdir, readFile, stat } from 'node:fs/promises';
 import { join } from 'node:path';
 import type { PackageInfo, GenerateOptions, DocumentationSources } from './types.js';
-import { fileExists, readJson } from './utils.js';
+import { compareStrings, fileExists, mapConcurrent, readJson } from './utils.js';
+import { extractApi, findSourceEntry } from './api.js';
+import { resolveEntryPoints, type ExportsField } from './exports.js';
+import { parseChangelog, selectChangelogEntries } from './changelog.js';
 
 async function isDirectoryOrSymlinkToDir(
   entry: { isDirectory: () => boolean; isSymbolicLink: () => boolean; name: string },
@@ -51,11 +54,83 @@ export async function getDirectDependencies(cwd: string): Promise<Set<string>> {
   return deps;
 }
 
+/** Default number of packages extracted in parallel */
+export const DEFAULT_CONCURRENCY = 16;
+
 export async function* traverseNodeModules(
   nodeModulesPath: string,
   options: GenerateOptions = {}
 ): AsyncGenerator<PackageInfo> {
-  const { include, exclude, additionalSources } = options;
+  const { include, exclude, additionalSources, concurrency = DEFAULT_CONCURRENCY } = options;
+
+  const candidates = await listPackageDirs(nodeModulesPath);
+  const included = candidates.filter(c => shouldInclude(c.name, include, exclude));
+
+  // Extract in parallel, but yield in the (sorted) listing order
+  const infos = mapConcurrent(included, concurrency, candidate =>
+    extractPackageInfo(candidate.path, candidate.name, nodeModulesPath, additionalSources)
+  );
+  for await (const info of infos) {
+    if (info) yield info;
+  }
+}
+
+/**
+ * Traverse the project's own workspace packages
+ *
+ * Local packages are documented from their source: besides the usual docs,
+ * the exported symbols and their JSDoc are read from the source entry point.
+ * Packages are yielded sorted by name and marked as internal.
+ *
+ * @param packageDirs - Workspace package folders
+ * @param nodeModulesPath - Root node_modules (used to find @types packages)
+ * @param options - Generation options (include/exclude, concurrency)
+ */
+export async function* traverseWorkspacePackages(
+  packageDirs: string[],
+  nodeModulesPath: string,
+  options: GenerateOptions = {}
+): AsyncGenerator<PackageInfo> {
+  const { include, exclude, additionalSources, concurrency = DEFAULT_CONCURRENCY } = options;
+
+  const candidates: { name: string; path: string }[] = [];
+  for (const dir of packageDirs) {
+    const pkg = await readJson<PackageJson>(join(dir, 'package.json'));
+    if (pkg?.name && shouldInclude(pkg.name, include, exclude)) {
+      candidates.push({ name: pkg.name, path: dir });
+    }
+  }
+  candidates.sort((a, b) => compareStrings(a.name, b.name));
+
+  const infos = mapConcurrent(candidates, concurrency, async candidate => {
+    const info = await extractPackageInfo(
+      candidate.path,
+      candidate.name,
+      nodeModulesPath,
+      additionalSources
+    );
+    if (!info) return null;
+
+    info.internal = true;
+    const entry = await findSourceEntry(candidate.path);
+    if (entry) {
+      info.docs.apiEntry = entry;
+      info.docs.api = await extractApi(candidate.path, entry);
+      // The source API supersedes any built declaration files
+      delete info.docs.apiSurface;
+    }
+    return info;
+  });
+  for await (const info of infos) {
+    if (info) yield info;
+  }
+}
+
+/**
+ * List package folders in node_modules (including scoped packages), sorted by name
+ */
+async function listPackageDirs(nodeModulesPath: string): Promise<{ name: string; path: string }[]> {
+  const candidates: { name: string; path: string }[] = [];
 
   try {
     const entries = await readdir(nodeModulesPath, { withFileTypes: true });
@@ -66,43 +141,36 @@ export async function* traverseNodeModules(
       // Handle scoped packages (@org/package)
       if (entry.name.startsWith('@')) {
         const scopePath = join(nodeModulesPath, entry.name);
-        const scopedEntries = await readdir(scopePath, { withFileTypes: true });
-
-        for (const scopedEntry of scopedEntries) {
-          if (!(await isDirectoryOrSymlinkToDir(scopedEntry, scopePath))) continue;
-
-          const fullName = `${entry.name}/${scopedEntry.name}`;
-          if (shouldInclude(fullName, include, exclude)) {
-            const info = await extractPackageInfo(
-              join(scopePath, scopedEntry.name),
-              fullName,
-              nodeModulesPath,
-              additionalSources
-            );
-            if (info) yield info;
+        try {
+          const scopedEntries = await readdir(scopePath, { withFileTypes: true });
+          for (const scopedEntry of scopedEntries) {
+            if (!(await isDirectoryOrSymlinkToDir(scopedEntry, scopePath))) continue;
+            candidates.push({
+              name: `${entry.name}/${scopedEntry.name}`,
+              path: join(scopePath, scopedEntry.name),
+            });
           }
+        } catch {
+          // Scope folder can't be read
         }
       } else {
         // Skip hidden folders and common non-package directories
         if (entry.name.startsWith('.') || entry.name === '.bin') continue;
-
-        if (shouldInclude(entry.name, include, exclude)) {
-          const info = await extractPackageInfo(
-            join(nodeModulesPath, entry.name),
-            entry.name,
-            nodeModulesPath,
-            additionalSources
-          );
-          if (info) yield info;
-        }
+        candidates.push({ name: entry.name, path: join(nodeModulesPath, entry.name) });
       }
     }
   } catch {
     // node_modules doesn't exist or can't be read
   }
+
+  // readdir order differs between filesystems; sort for deterministic output
+  return candidates.sort((a, b) => compareStrings(a.name, b.name));
 }
 
-function shouldInclude(name: string, include?: string[], exclude?: string[]): boolean {
+/**
+ * Check a package name against include/exclude patterns
+ */
+export function shouldInclude(name: string, include?: string[], exclude?: string[]): boolean {
   if (exclude?.some(pattern => matchPattern(name, pattern))) {
     return false;
   }
@@ -112,7 +180,10 @@ function shouldInclude(name: string, include?: string[], exclude?: string[]): bo
   return true;
 }
 
-function matchPattern(name: string, pattern: string): boolean {
+/**
+ * Check a package name against a pattern (exact name, scope prefix or glob)
+ */
+export function matchPattern(name: string, pattern: string): boolean {
   if (pattern.includes('*')) {
     const regex = new RegExp('^' + pattern.replace(/\*/g, '.*') + '$');
     return regex.test(name);
@@ -120,32 +191,191 @@ function matchPattern(name: string, pattern: string): boolean {
   return name === pattern || name.startsWith(pattern + '/');
 }
 
-async function extractPackageInfo(
+interface PackageJson {
+  name?: string;
+  version?: string;
+  description?: string;
+  homepage?: string;
+  repository?: string | { type?: string; url?: string };
+  license?: string;
+  peerDependencies?: Record<string, string>;
+  engines?: Record<string, string>;
+  keywords?: string[];
+  types?: string;
+  typings?: string;
+  main?: string;
+  exports?: ExportsField;
+  typesVersions?: Record<string, Record<string, string[]>>;
+  readme?: string;
+}
+
+const README_NAMES = [
+  'README.md',
+  'readme.md',
+  'Readme.md',
+  'README.MD',
+  'README',
+  'readme',
+  'README.markdown',
+  'readme.markdown',
+  'README.txt',
+  'readme.txt',
+];
+
+const CHANGELOG_NAMES = [
+  'CHANGELOG.md',
+  'changelog.md',
+  'Changelog.md',
+  'CHANGELOG',
+  'changelog',
+  'HISTORY.md',
+  'history.md',
+  'CHANGES.md',
+  'changes.md',
+];
+
+/** Changelog lines read to find the installed version's entry */
+const MAX_CHANGELOG_LINES = 10000;
+
+/** Changelog entries kept per package, newest first from the installed version */
+const MAX_CHANGELOG_ENTRIES = 20;
+
+const LICENSE_NAMES = [
+  'LICENSE',
+  'LICENSE.md',
+  'LICENSE.txt',
+  'license',
+  'license.md',
+  'license.txt',
+  'LICENCE',
+  'LICENCE.md',
+  'LICENCE.txt',
+];
+
+const DOCS_FOLDER_NAMES = ['docs', 'doc', 'documentation', 'Docs', 'Doc'];
+
+const DEFAULT_ADDITIONAL_DOCS = [
+  'CONTRIBUTING.md',
+  'contributing.md',
+  'ARCHITECTURE.md',
+  'architecture.md',
+  'API.md',
+  'api.md',
+  'GUIDE.md',
+  'guide.md',
+  'USAGE.md',
+  'usage.md',
+];
+
+/**
+ * Top-level entries of a package, read once and matched in memory
+ */
+export interface PackageListing {
+  files: Set<string>;
+  dirs: Set<string>;
+}
+
+/**
+ * File access for a package, backed by a folder or an archive
+ */
+export interface PackageFiles {
+  /** Package root, used to build documentation paths */
+  root: string;
+  /** Top-level files and folders */
+  listing: PackageListing;
+  /** Read a text file relative to the root, optionally only the first lines */
+  readText(relPath: string, maxLines?: number): Promise<string | null>;
+  /** Check whether a file exists relative to the root */
+  exists(relPath: string): Promise<boolean>;
+  /** List doc files under a folder (max 2 levels of subfolders) */
+  scanDocs(relPath: string): Promise<string[]>;
+}
+
+/**
+ * Options for extracting package information
+ */
+export interface ExtractOptions {
+  /** Additional doc files to look for */
+  additionalSources?: string[];
+  /** Locate another installed package (used to find @types packages) */
+  resolvePackage?: (name: string) => Promise<PackageFiles | null>;
+}
+
+async function listPackage(packagePath: string): Promise<PackageListing> {
+  const listing: PackageListing = { files: new Set(), dirs: new Set() };
+  try {
+    const entries = await readdir(packagePath, { withFileTypes: true });
+    for (const entry of entries) {
+      if (await isDirectoryOrSymlinkToDir(entry, packagePath)) {
+        listing.dirs.add(entry.name);
+      } else {
+        listing.files.add(entry.name);
+      }
+    }
+  } catch {
+    // Can't read package folder
+  }
+  return listing;
+}
+
+/**
+ * Create file access for a package folder on disk
+ */
+export async function createFsPackageFiles(packagePath: string): Promise<PackageFiles> {
+  return {
+    root: packagePath,
+    listing: await listPackage(packagePath),
+    readText: (relPath, maxLines) => readTextFile(join(packagePath, relPath), maxLines),
+    exists: relPath => fileExists(join(packagePath, relPath)),
+    scanDocs: relPath => scanDocsFolder(join(packagePath, relPath)),
+  };
+}
+
+/**
+ * Return the first candidate present in the listing
+ */
+function pickName(names: Set<string>, candidates: string[]): string | null {
+  return candidates.find(name => names.has(name)) ?? null;
+}
+
+/**
+ * Read a package folder's package.json and documentation
+ * Returns null if the folder isn't a valid package
+ */
+export async function extractPackageInfo(
   packagePath: string,
   name: string,
   nodeModulesPath: string,
   additionalSources?: string[]
 ): Promise<PackageInfo | null> {
-  const packageJsonPath = join(packagePath, 'package.json');
-  const pkg = await readJson<{
-    name?: string;
-    version?: string;
-    description?: string;
-    homepage?: string;
-    repository?: string | { type?: string; url?: string };
-    license?: string;
-    peerDependencies?: Record<string, string>;
-    engines?: Record<string, string>;
-    keywords?: string[];
-    types?: string;
-    typings?: string;
-    readme?: string;
-  }>(packageJsonPath);
+  const files = await createFsPackageFiles(packagePath);
+  return extractPackageInfoFromFiles(files, name, {
+    additionalSources,
+    resolvePackage: async otherName => {
+      const otherPath = join(nodeModulesPath, otherName);
+      return (await fileExists(join(otherPath, 'package.json')))
+        ? createFsPackageFiles(otherPath)
+        : null;
+    },
+  });
+}
+
+/**
+ * Read package.json and documentation through a PackageFiles accessor
+ * Returns null if there is no valid package.json
+ */
+export async function extractPackageInfoFromFiles(
+  files: PackageFiles,
+  name: string,
+  options: ExtractOptions = {}
+): Promise<PackageInfo | null> {
+  if (!files.listing.files.has('package.json')) return null;
 
+  const pkg = parsePackageJson(await files.readText('package.json'));
   if (!pkg || !pkg.version) return null;
 
   // Gather all documentation sources
-  const docs = await gatherDocumentation(packagePath, nodeModulesPath, name, additionalSources);
+  const docs = await gatherDocumentation(files, pkg, name, options);
 
   // Backwards compatibility: also set legacy fields
   const readme = docs.readme;
@@ -161,7 +391,7 @@ async function extractPackageInfo(
     peerDependencies: pkg.peerDependencies,
     engines: pkg.engines,
     keywords: pkg.keywords,
-    packagePath,
+    packagePath: files.root,
     docs,
     // Legacy fields
     readme,
@@ -169,101 +399,99 @@ async function extractPackageInfo(
   };
 }
 
+function parsePackageJson(content: string | null): PackageJson | null {
+  if (!content) return null;
+  try {
+    return JSON.parse(content) as PackageJson;
+  } catch {
+    return null;
+  }
+}
+
 async function gatherDocumentation(
-  packagePath: string,
-  nodeModulesPath: string,
+  files: PackageFiles,
+  pkg: PackageJson,
   packageName: string,
-  additionalSources?: string[]
+  options: ExtractOptions
 ): Promise<DocumentationSources> {
   const docs: DocumentationSources = {};
+  const { listing, root } = files;
 
   // 1. Find README
-  const readmePath = await findFile(packagePath, [
-    'README.md',
-    'readme.md',
-    'Readme.md',
-    'README.MD',
-    'README',
-    'readme',
-    'README.markdown',
-    'readme.markdown',
-    'README.txt',
-    'readme.txt',
-  ]);
-  if (readmePath) {
-    docs.readmePath = readmePath;
-    docs.readme = (await readTextFile(readmePath)) ?? undefined;
+  const readmeName = pickName(listing.files, README_NAMES);
+  if (readmeName) {
+    docs.readmePath = join(root, readmeName);
+    docs.readme = (await files.readText(readmeName)) ?? undefined;
   }
 
   // 2. Find CHANGELOG
-  const changelogPath = await findFile(packagePath, [
-    'CHANGELOG.md',
-    'changelog.md',
-    'Changelog.md',
-    'CHANGELOG',
-    'changelog',
-    'HISTORY.md',
-    'history.md',
-    'CHANGES.md',
-    'changes.md',
-  ]);
-  if (changelogPath) {
-    docs.changelogPath = changelogPath;
-    // Only read first 200 lines of changelog to avoid huge files
-    docs.changelog = (await readTextFile(changelogPath, 200)) ?? undefined;
+  const changelogName = pickName(listing.files, CHANGELOG_NAMES);
+  if (changelogName) {
+    docs.changelogPath = join(root, changelogName);
+    const changelog = await files.readText(changelogName, MAX_CHANGELOG_LINES);
+    if (changelog !== null) {
+      // Keep the first 200 lines as they are, and the entries up to the installed version
+      docs.changelog = changelog.split('\n').slice(0, 200).join('\n');
+      const entries = pkg.version
+        ? selectChangelogEntries(parseChangelog(changelog), pkg.version, MAX_CHANGELOG_ENTRIES)
+        : [];
+      if (entries.length > 0) docs.changelogEntries = entries;
+    }
   }
 
   // 3. Find LICENSE
-  const licensePath = await findFile(packagePath, [
-    'LICENSE',
-    'LICENSE.md',
-    'LICENSE.txt',
-    'license',
-    'license.md',
-    'license.txt',
-    'LICENCE',
-    'LICENCE.md',
-    'LICENCE.txt',
-  ]);
-  if (licensePath) {
-    docs.licensePath = licensePath;
-    docs.license = (await readTextFile(licensePath)) ?? undefined;
+  const licenseName = pickName(listing.files, LICENSE_NAMES);
+  if (licenseName) {
+    docs.licensePath = join(root, licenseName);
+    docs.license = (await files.readText(licenseName)) ?? undefined;
   }
 
   // 4. Find docs/ folder
-  const docsFolder = await findDocsFolder(packagePath);
-  if (docsFolder) {
-    docs.docsPath = docsFolder.path;
-    docs.docFiles = docsFolder.files;
+  for (const folderName of DOCS_FOLDER_NAMES) {
+    if (!listing.dirs.has(folderName)) continue;
+    const docFiles = await files.scanDocs(folderName);
+    if (docFiles.length > 0) {
+      docs.docsPath = join(root, folderName);
+      docs.docFiles = docFiles;
+      break;
+    }
   }
 
-  // 5. Find TypeScript types
-  const typesInfo = await findTypeDefinitions(packagePath, nodeModulesPath, packageName);
+  // 5. Resolve entry points and find TypeScript types
+  const entryPoints = await resolveEntryPoints(pkg, relPath => files.exists(relPath));
+  if (pkg.exports !== undefined || entryPoints.length > 1) {
+    docs.entryPoints = entryPoints.map(({ subpath, types }) =>
+      types ? { subpath, typesPath: join(root, types) } : { subpath }
+    );
+  }
+
+  const mainTypes = entryPoints.find(entryPoint => entryPoint.subpath === '.')?.types;
+  const typesInfo = await findTypeDefinitions(
+    files,
+    pkg,
+    packageName,
+    mainTypes,
+    options.resolvePackage
+  );
   if (typesInfo) {
     docs.typesPath = typesInfo.path;
     docs.typesFromDefinitelyTyped = typesInfo.fromDefinitelyTyped;
+
+    const surface = await extractApi(typesInfo.files, typesInfo.entry);
+    if (surface.length > 0) {
+      docs.apiSurface = surface;
+    }
   }
 
   // 6. Find additional documentation files
-  const defaultAdditional = [
-    'CONTRIBUTING.md',
-    'contributing.md',
-    'ARCHITECTURE.md',
-    'architecture.md',
-    'API.md',
-    'api.md',
-    'GUIDE.md',
-    'guide.md',
-    'USAGE.md',
-    'usage.md',
-  ];
-  const sourcesToCheck = [...defaultAdditional, ...(additionalSources || [])];
+  const sourcesToCheck = [...DEFAULT_ADDITIONAL_DOCS, ...(options.additionalSources || [])];
   const additionalDocs: { name: string; path: string }[] = [];
 
   for (const source of sourcesToCheck) {
-    const filePath = join(packagePath, source);
-    if (await fileExists(filePath)) {
-      additionalDocs.push({ name: source, path: filePath });
+    // Nested paths aren't in the top-level listing
+    const exists = source.includes('/') ? await files.exists(source) : listing.files.has(source);
+    if (exists) {
+      additionalDocs.push({ name: source, path: join(root, source) });
     }
   }
   if (additionalDocs.length > 0) {
@@ -273,42 +501,12 @@ async function gatherDocumentation(
   return docs;
 }
 
-async function findFile(dir: string, names: string[]): Promise<string | null> {
-  for (const name of names) {
-    const fullPath = join(dir, name);
-    if (await fileExists(fullPath)) {
-      return fullPath;
-    }
-  }
-  return null;
-}
-
-async function findDocsFolder(
-  packagePath: string
-): Promise<{ path: string; files: string[] } | null> {
-  const possibleNames = ['docs', 'doc', 'documentation', 'Docs', 'Doc'];
-
-  for (const name of possibleNames) {
-    const docsPath = join(packagePath, name);
-    try {
-      const stats = await stat(docsPath);
-      if (stats.isDirectory()) {
-        const files = await scanDocsFolder(docsPath);
-        if (files.length > 0) {
-          return { path: docsPath, files };
-        }
-      }
-    } catch {
-      // Folder doesn't exist
-    }
-  }
-  return null;
-}
-
 async function scanDocsFolder(docsPath: string, prefix = ''): Promise<string[]> {
   const files: string[] = [];
   try {
     const entries = await readdir(docsPath, { withFileTypes: true });
+    // readdir order differs between filesystems
+    entries.sort((a, b) => compareStrings(a.name, b.name));
     for (const entry of entries) {
       const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
       if (entry.isDirectory()) {
@@ -327,33 +525,63 @@ async function scanDocsFolder(docsPath: string, prefix = ''): Promise<string[]>
   return files;
 }
 
-function isDocFile(name: string): boolean {
+/**
+ * Check whether a file name looks like documentation
+ */
+export function isDocFile(name: string): boolean {
   const docExtensions = ['.md', '.markdown', '.txt', '.rst', '.adoc'];
   const lowerName = name.toLowerCase();
   return docExtensions.some(ext => lowerName.endsWith(ext));
 }
 
+/**
+ * Where a package's type definitions were found
+ */
+interface TypeDefinitions {
+  path: string;
+  fromDefinitelyTyped: boolean;
+  /** Files of the package holding the definitions (the package itself or its @types package) */
+  files: PackageFiles;
+  /** Definitions entry file, relative to that package */
+  entry: string;
+}
+
 async function findTypeDefinitions(
-  packagePath: string,
-  nodeModulesPath: string,
-  packageName: string
-): Promise<{ path: string; fromDefinitelyTyped: boolean } | null> {
-  // First check if package has its own types
-  const packageJsonPath = join(packagePath, 'package.json');
-  const pkg = await readJson<{ types?: string; typings?: string }>(packageJsonPath);
-
-  if (pkg?.types || pkg?.typings) {
-    const typesField = pkg.types || pkg.typings;
-    const typesPath = join(packagePath, typesField!);
-    if (await fileExists(typesPath)) {
-      return { path: typesPath, fromDefinitelyTyped: false };
-    }
+  files: PackageFiles,
+  pkg: PackageJson,
+  packageName: string,
+  mainTypes: string | undefined,
+  resolvePackage?: ExtractOptions['resolvePackage']
+): Promise<TypeDefinitions | null> {
+  // Types of the main entry point, resolved through exports/typesVersions
+  if (mainTypes) {
+    return {
+      path: join(files.root, mainTypes),
+      fromDefinitelyTyped: false,
+      files,
+      entry: mainTypes,
+    };
+  }
+
+  // Then the package's own types fields
+  const typesField = pkg.types || pkg.typings;
+  if (typesField && (await files.exists(typesField))) {
+    return {
+      path: join(files.root, typesField),
+      fromDefinitelyTyped: false,
+      files,
+      entry: typesField,
+    };
   }
 
   // Check for index.d.ts in package root
-  const indexDts = join(packagePath, 'index.d.ts');
-  if (await fileExists(indexDts)) {
-    return { path: indexDts, fromDefinitelyTyped: false };
+  if (files.listing.files.has('index.d.ts')) {
+    return {
+      path: join(files.root, 'index.d.ts'),
+      fromDefinitelyTyped: false,
+      files,
+      entry: 'index.d.ts',
+    };
   }
 
   // Check for @types/package in node_modules
@@ -366,16 +594,23 @@ async function findTypeDefinitions(
     typesPackageName = `@types/${packageName}`;
   }
 
-  const typesPackagePath = join(nodeModulesPath, typesPackageName);
-  if (await fileExists(typesPackagePath)) {
+  const typesPackage = await resolvePackage?.(typesPackageName);
+  if (typesPackage) {
     // Find the main types file
-    const typesPkg = await readJson<{ types?: string; typings?: string; main?: string }>(
-      join(typesPackagePath, 'package.json')
-    );
-    const typesFile = typesPkg?.types || typesPkg?.typings || 'index.d.ts';
-    const typesFilePath = join(typesPackagePath, typesFile);
-    if (await fileExists(typesFilePath)) {
-      return { path: typesFilePath, fromDefinitelyTyped: true };
+    const typesPkg = parsePackageJson(await typesPackage.readText('package.json')) ?? {};
+    const typesEntry = await resolveEntryPoints(typesPkg, relPath => typesPackage.exists(relPath));
+    const typesFile =
+      typesEntry.find(entryPoint => entryPoint.subpath === '.')?.types ||
+      typesPkg.types ||
+      typesPkg.typings ||
+      'index.d.ts';
+    if (await typesPackage.exists(typesFile)) {
+      return {
+        path: join(typesPackage.root, typesFile),
+        fromDefinitelyTyped: true,
+        files: typesPackage,
+        entry: typesFile,
+      };
     }
   }
 
@@ -1,3 +1,46 @@
+/**
+ * Kind of declaration behind an exported symbol
+ */
+export type ApiSymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'const'
+  | 'variable'
+  | 'namespace';
+
+/**
+ * An exported symbol and its JSDoc
+ */
+export interface ApiSymbol {
+  /** Exported name */
+  name: string;
+  /** Declaration kind */
+  kind: ApiSymbolKind;
+  /** Declaration without its body (e.g. "function clamp(n: number): number") */
+  signature: string;
+  /** Public members of classes and interfaces, or enum members */
+  members?: string[];
+  /** JSDoc summary */
+  description?: string;
+  /** Whether the JSDoc has a @deprecated tag */
+  deprecated?: boolean;
+  /** File the symbol is declared in, relative to the package root */
+  source: string;
+}
+
+/**
+ * A package entry point (an `exports` subpath) and its type definitions
+ */
+export interface EntryPoint {
+  /** Subpath as written in `exports` (".", "./server") */
+  subpath: string;
+  /** Type definitions file, if any */
+  typesPath?: string;
+}
+
 /**
  * Documentation sources found for a package
  */
@@ -8,6 +51,8 @@ export interface DocumentationSources {
   readmePath?: string;
   /** CHANGELOG file content (truncated to recent entries) */
   changelog?: string;
+  /** Changelog entries of the installed version and the ones before it, newest first */
+  changelogEntries?: ChangelogEntry[];
   /** Path to CHANGELOG file */
   changelogPath?: string;
   /** LICENSE file content */
@@ -22,8 +67,34 @@ export interface DocumentationSources {
   typesPath?: string;
   /** Whether types come from @types/ package */
   typesFromDefinitelyTyped?: boolean;
+  /** Entry points declared through `exports` or `typesVersions` */
+  entryPoints?: EntryPoint[];
   /** Additional documentation files found (CONTRIBUTING.md, etc.) */
   additionalDocs?: { name: string; path: string }[];
+  /** Entry file the API was extracted from, relative to the package root */
+  apiEntry?: string;
+  /** Exported symbols, extracted from source */
+  api?: ApiSymbol[];
+  /** Exported symbols, extracted from the TypeScript declaration file */
+  apiSurface?: ApiSymbol[];
+}
+
+/**
+ * One version's entry in a changelog
+ */
+export interface ChangelogEntry {
+  /** Version, as "major.minor.patch[-pre]" */
+  version: string;
+  /** Heading text, without link targets ("1.2.3 (2024-01-31)") */
+  title: string;
+  /** Release date, if the heading has one (YYYY-MM-DD) */
+  date?: string;
+  /** Heading level of the entry in the changelog */
+  level: number;
+  /** Entry content below the heading */
+  content: string;
+  /** Whether the entry has breaking changes */
+  breaking: boolean;
 }
 
 /**
@@ -50,8 +121,18 @@ export interface PackageInfo {
   keywords?: string[];
   /** Path to the package in node_modules */
   packagePath?: string;
+  /** Zip archive containing the package (Yarn PnP cache); packagePath points inside it */
+  archivePath?: string;
   /** All documentation sources found */
   docs: DocumentationSources;
+  /** Dependency depth from the lockfile (0 = direct dependency) */
+  depth?: number;
+  /** Packages that depend on this one, closest to the project first */
+  dependents?: string[];
+  /** Local workspace package (documented from its source) */
+  internal?: boolean;
+  /** Version documented before the last version change (set by the generator) */
+  previousVersion?: string;
 
   // Legacy fields for backwards compatibility
   /** @deprecated Use docs.readme instead */
@@ -70,8 +151,19 @@ export interface WorkspaceInfo {
   packages: string[];
   /** Workspace type detected */
   type: 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'nx' | 'single';
+  /** Path to Yarn's Plug'n'Play data (.pnp.data.json or .pnp.cjs) when there is no node_modules */
+  pnpPath?: string;
 }
 
+/**
+ * Custom frontmatter fields added to every SKILL.md
+ * (e.g. `{ 'allowed-tools': ['Read', 'Grep'] }`)
+ */
+export type FrontmatterFields = Record<
+  string,
+  string | number | boolean | (string | number | boolean)[]
+>;
+
 /**
  * Options for skill generation
  */
@@ -82,12 +174,91 @@ export interface GenerateOptions {
   output?: string;
   /** Only process direct dependencies from package.json */
   directOnly?: boolean;
+  /** Include dependencies up to this depth in the lockfile graph (0 = direct only) */
+  depth?: number;
+  /** Keep every installed version of a package instead of the first one found */
+  allVersions?: boolean;
+  /**
+   * Generate a separate skill set per workspace package from its own dependencies,
+   * in the package (`apps/web/.claude/skills/v-skills`) or under the root output
+   */
+  perWorkspace?: 'package' | 'root';
   /** Packages to include (supports globs) */
   include?: string[];
   /** Packages to exclude (supports globs) */
   exclude?: string[];
   /** Additional doc files to look for */
   additionalSources?: string[];
+  /** Custom frontmatter fields added to every SKILL.md */
+  frontmatter?: FrontmatterFields;
+  /** Number of packages extracted in parallel (default: 16) */
+  concurrency?: number;
+  /** Maximum estimated tokens per SKILL.md */
+  maxTokens?: number;
+  /** Maximum bytes per SKILL.md */
+  maxBytes?: number;
+  /** Size limits for specific packages (supports globs), overriding the global ones */
+  packageLimits?: Record<string, SkillLimits>;
+  /** Keep SKILL.md short and move the README, API and changelog to reference files */
+  split?: boolean;
+  /** README cleanup rules (all enabled by default), or false to keep READMEs as they are */
+  sanitize?: SanitizeOptions | false;
+  /** Changelog entries shown before the installed version's (default: 3) */
+  changelogVersions?: number;
+  /** Tools to write documentation for (default: ['claude-skills']) */
+  targets?: OutputTargetName[];
+  /** Also write llms.txt and llms-full.txt to the output root */
+  llmsTxt?: boolean;
+  /** Compute the changes without writing anything, returned as `plan` */
+  dryRun?: boolean;
+  /** Same bytes for the same packages: no generation date unless SOURCE_DATE_EPOCH is set (default: true) */
+  deterministic?: boolean;
+}
+
+/**
+ * Output formats for AI tools
+ *
+ * - `claude-skills`: SKILL.md per package with `_index.md` and `CLAUDE.md`
+ * - `cursor`: `.cursor/rules/v-skills/*.mdc` rules
+ * - `copilot`: `.github/instructions/v-skills-*.instructions.md` files
+ * - `agents-md`: the skill folders, listed in a section of `AGENTS.md`
+ * - `windsurf`: `.windsurf/rules/v-skills-*.md` rules
+ */
+export type OutputTargetName = 'claude-skills' | 'cursor' | 'copilot' | 'agents-md' | 'windsurf';
+
+/**
+ * Files written for an output target other than the skill folders
+ */
+export interface TargetOutput {
+  name: OutputTargetName;
+  /** Written files, relative to the project root */
+  files: string[];
+}
+
+/**
+ * Size limits of a generated SKILL.md
+ */
+export interface SkillLimits {
+  /** Maximum estimated tokens */
+  maxTokens?: number;
+  /** Maximum size in bytes (UTF-8) */
+  maxBytes?: number;
+}
+
+/**
+ * README cleanup rules, all enabled by default
+ */
+export interface SanitizeOptions {
+  /** Remove badge rows and standalone logos */
+  badges?: boolean;
+  /** Convert simple HTML to Markdown and drop layout tags and comments */
+  html?: boolean;
+  /** Remove images */
+  images?: boolean;
+  /** Keep the alt text of removed images */
+  altText?: boolean;
+  /** Remove sponsor, backer and contributor sections */
+  sponsors?: boolean;
 }
 
 /**
@@ -104,6 +275,50 @@ export interface SkillFile {
   targetPath: string;
   /** Generated content */
   content?: string;
+  /** Estimated token count of the content */
+  tokens?: number;
+  /** Whether sections were cut to fit the size limits */
+  truncated?: boolean;
+  /** Reference files written next to the SKILL.md (split mode) */
+  references?: ReferenceFile[];
+}
+
+/**
+ * A reference file written next to a SKILL.md (e.g. reference/api.md)
+ */
+export interface ReferenceFile {
+  /** Target path for the generated file */
+  targetPath: string;
+  /** Generated content */
+  content: string;
+}
+
+/**
+ * Per-package changes made by an incremental generation
+ */
+export interface GenerateChanges {
+  /** Skills written for packages that weren't generated before */
+  added: number;
+  /** Skills rewritten because their package or config changed */
+  updated: number;
+  /** Skills deleted because their package is gone */
+  removed: number;
+  /** Skills left untouched */
+  unchanged: number;
+}
+
+/**
+ * Skill set generated for one workspace package (perWorkspace mode)
+ */
+export interface WorkspaceSkillSet {
+  /** Workspace package name (or its path when unnamed) */
+  name: string;
+  /** Workspace folder relative to the root */
+  path: string;
+  /** Output directory of the skill set */
+  output: string;
+  /** Generation result for this workspace */
+  result?: Omit<GenerateResult, 'duration'>;
 }
 
 /**
@@ -116,10 +331,116 @@ export interface GenerateResult {
   workspaceType: WorkspaceInfo['type'];
   /** Total packages scanned */
   packagesScanned: number;
+  /** Added, updated, removed and unchanged skill counts */
+  changes: GenerateChanges;
+  /** Skill sets of the workspace packages (perWorkspace mode) */
+  workspaces?: WorkspaceSkillSet[];
+  /** Package versions changed since the previous generation */
+  versionChanges?: VersionChanges;
+  /** Files written for the Cursor, Copilot, Windsurf and AGENTS.md targets */
+  targets?: TargetOutput[];
+  /** Files that would be added, changed or removed (dry runs) */
+  plan?: PlannedOperation[];
   /** Generation duration in ms */
   duration: number;
 }
 
+/**
+ * A file a dry run would add, change or remove
+ */
+export interface PlannedOperation {
+  type: 'add' | 'change' | 'remove';
+  /** Path relative to the project root, with forward slashes */
+  path: string;
+  /** Size change in bytes */
+  bytes: number;
+  /** Estimated token change */
+  tokens: number;
+  /** Content that would be written (added and changed files) */
+  content?: string;
+}
+
+/**
+ * Schema version of skills.json, bumped on incompatible changes
+ */
+export type SkillsIndexVersion = 1;
+
+/**
+ * Machine-readable index of a skill set, written to skills.json next to `_index.md`
+ *
+ * Paths are relative to the folder of skills.json and use forward slashes.
+ */
+export interface SkillsIndex {
+  /** Schema version */
+  schemaVersion: SkillsIndexVersion;
+  /** Detected workspace type */
+  workspaceType: WorkspaceInfo['type'];
+  /** Documented packages, sorted by name and version */
+  packages: SkillsIndexEntry[];
+  /** Skill sets of the workspace packages (perWorkspace mode) */
+  workspaces?: { name: string; path: string; index: string }[];
+}
+
+/**
+ * A documented package in skills.json
+ */
+export interface SkillsIndexEntry {
+  name: string;
+  version: string;
+  /** Full description from package.json */
+  description?: string;
+  keywords?: string[];
+  /** License identifier */
+  license?: string;
+  homepage?: string;
+  /** Generated SKILL.md */
+  skillPath: string;
+  /** Package folder the skill was generated from */
+  sourcePath?: string;
+  /** Entry points and their type definitions */
+  entryPoints?: EntryPoint[];
+  /** Main type definitions */
+  typesPath?: string;
+  /** Whether the project depends on the package directly */
+  direct: boolean;
+  /** Dependency depth from the lockfile (0 = direct dependency) */
+  depth?: number;
+  /** Local workspace package */
+  internal?: boolean;
+  /** Packages that depend on this one, closest to the project first */
+  dependents?: string[];
+  /** Workspaces that depend on this version */
+  usedBy?: string[];
+  /** Estimated token count of SKILL.md */
+  tokens?: number;
+  /** SHA-256 hash of SKILL.md */
+  contentHash?: string;
+}
+
+/**
+ * A package whose version changed since the previous generation
+ */
+export interface VersionChange {
+  /** Package name */
+  name: string;
+  /** Previously documented version (not set for added packages) */
+  from?: string;
+  /** Installed version (not set for removed packages) */
+  to?: string;
+  /** Whether the upgrade includes breaking changes */
+  breaking?: boolean;
+}
+
+/**
+ * Package versions changed since the previous generation
+ */
+export interface VersionChanges {
+  upgraded: VersionChange[];
+  downgraded: VersionChange[];
+  added: VersionChange[];
+  removed: VersionChange[];
+}
+
 /**
  * Configuration file options
  */
@@ -130,8 +451,36 @@ export interface VSkillsConfig {
   exclude?: string[];
   /** Only process direct dependencies from package.json */
   directOnly?: boolean;
+  /** Include dependencies up to this depth in the lockfile graph (0 = direct only) */
+  depth?: number;
+  /** Keep every installed version of a package instead of the first one found */
+  allVersions?: boolean;
+  /** Generate a separate skill set per workspace package ("package" or "root" output) */
+  perWorkspace?: 'package' | 'root';
   /** Output directory for generated skills */
   output?: string;
   /** Additional documentation files to look for */
   additionalSources?: string[];
+  /** Custom frontmatter fields added to every SKILL.md (e.g. "allowed-tools") */
+  frontmatter?: FrontmatterFields;
+  /** Number of packages extracted in parallel (default: 16) */
+  concurrency?: number;
+  /** Maximum estimated tokens per SKILL.md */
+  maxTokens?: number;
+  /** Maximum bytes per SKILL.md */
+  maxBytes?: number;
+  /** Size limits for specific packages (supports globs like "@aws-sdk/*") */
+  packageLimits?: Record<string, SkillLimits>;
+  /** Move the README, API and changelog to reference/*.md next to each SKILL.md */
+  split?: boolean;
+  /** README cleanup rules, e.g. { sponsors: false }, or false to turn cleanup off */
+  sanitize?: SanitizeOptions | false;
+  /** Changelog entries shown before the installed version's (default: 3) */
+  changelogVersions?: number;
+  /** Tools to write documentation for, e.g. ["claude-skills", "cursor"] */
+  targets?: OutputTargetName[];
+  /** Also write llms.txt (link index) and llms-full.txt (every README in one file) */
+  llmsTxt?: boolean;
+  /** Leave generation dates out of the files, unless SOURCE_DATE_EPOCH sets one (default: true) */
+  deterministic?: boolean;
 }
@@ -1,4 +1,4 @@
-import { readFile, access } from 'node:fs/promises';
+import { readFile, writeFile, access } from 'node:fs/promises';
 
 /**
  * Check if a file or directory exists
@@ -24,3 +24,95 @@ export async function readJson<T>(path: string): Promise<T | null> {
     return null;
   }
 }
+
+/**
+ * Write a file only if its content differs from what's on disk
+ * Returns true if the file was written
+ */
+export async function writeFileIfChanged(path: string, content: string): Promise<boolean> {
+  try {
+    if ((await readFile(path, 'utf-8')) === content) {
+      return false;
+    }
+  } catch {
+    // File doesn't exist yet
+  }
+  await writeFile(path, content, 'utf-8');
+  return true;
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight,
+ * yielding results in input order
+ */
+export async function* mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): AsyncGenerator<R> {
+  const results: Promise<R>[] = new Array(items.length);
+  const maxInFlight = Math.max(1, Math.floor(limit) || 1);
+  let next = 0;
+
+  const launch = (): void => {
+    if (next >= items.length) return;
+    const index = next++;
+    results[index] = fn(items[index]);
+    // Start the next item as soon as any one settles
+    results[index].then(launch, launch);
+  };
+
+  for (let i = 0; i < Math.min(maxInFlight, items.length); i++) {
+    launch();
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    yield await results[i];
+  }
+}
+
+/**
+ * Compare two strings by UTF-16 code unit, the same on every machine
+ * (unlike `localeCompare`, which depends on the locale)
+ */
+export function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two semver versions (negative if a < b, positive if a > b)
+ *
+ * Prereleases sort before their release; build metadata is ignored.
+ * Versions that aren't semver fall back to string comparison.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+.*)?$/.exec(version.trim());
+    return match
+      ? { core: [match[1], match[2], match[3]].map(Number), pre: match[4]?.split('.') ?? [] }
+      : null;
+  };
+
+  const va = parse(a);
+  const vb = parse(b);
+  if (!va || !vb) return compareStrings(a, b);
+
+  for (let i = 0; i < 3; i++) {
+    if (va.core[i] !== vb.core[i]) return va.core[i] - vb.core[i];
+  }
+
+  if (!va.pre.length || !vb.pre.length) return vb.pre.length - va.pre.length;
+  for (let i = 0; i < Math.max(va.pre.length, vb.pre.length); i++) {
+    const pa = va.pre[i];
+    const pb = vb.pre[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+    const na = /^\d+$/.test(pa);
+    const nb = /^\d+$/.test(pb);
+    if (na && nb) return Number(pa) - Number(pb);
+    if (na !== nb) return na ? -1 : 1;
+    return pa < pb ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,276 @@
+import { watch as watchPath, type FSWatcher } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import type { GenerateOptions, GenerateResult } from './types.js';
+import { DEFAULT_OUTPUT, generate } from './generator.js';
+import { detectWorkspace, getNodeModulesPaths, getWorkspacePackageDirs } from './workspace.js';
+import { LOCKFILES } from './lockfile.js';
+import { readManifest, hashFile, type SkillManifest } from './manifest.js';
+
+/** Quiet period after the last change before regenerating */
+const DEFAULT_DEBOUNCE = 500;
+
+/** Files in the project root whose changes can change the installed packages */
+const ROOT_FILES = [
+  ...LOCKFILES,
+  'package.json',
+  'pnpm-workspace.yaml',
+  '.pnp.cjs',
+  'node_modules',
+];
+
+/**
+ * Options for `watch()`: the options of `generate()` plus event handlers
+ */
+export interface WatchOptions extends GenerateOptions {
+  /** Quiet period after the last change before regenerating, in ms (default: 500) */
+  debounce?: number;
+  /** Called after each generation, including the initial one */
+  onGenerate?: (update: WatchUpdate) => void;
+  /** Called when a generation fails; watching goes on */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Outcome of one generation in watch mode
+ */
+export interface WatchUpdate {
+  /** Changed paths that triggered the generation, relative to the project root (empty for the initial one) */
+  changed: string[];
+  /** Skills written, as name@version */
+  updated: string[];
+  /** Skills removed, as name@version */
+  removed: string[];
+  result: GenerateResult;
+}
+
+/**
+ * A running watcher
+ */
+export interface Watcher {
+  /** Paths being watched */
+  readonly paths: string[];
+  /** Stop watching, waiting for a running generation to finish */
+  close(): Promise<void>;
+}
+
+/**
+ * Get the output folders of a generation: the root set and the workspace sets
+ */
+function getOutputDirs(outputDir: string, result?: GenerateResult): string[] {
+  return [outputDir, ...(result?.workspaces ?? []).map(set => set.output)];
+}
+
+/**
+ * Read the manifests of several output folders, keyed by folder
+ */
+async function readManifests(outputDirs: string[]): Promise<Map<string, SkillManifest | null>> {
+  const manifests = new Map<string, SkillManifest | null>();
+  for (const dir of outputDirs) {
+    manifests.set(dir, await readManifest(dir));
+  }
+  return manifests;
+}
+
+/**
+ * List the skills written and removed between two manifests
+ */
+function diffManifests(
+  before: SkillManifest | null | undefined,
+  after: SkillManifest | null
+): { updated: string[]; removed: string[] } {
+  const updated: string[] = [];
+  const removed: string[] = [];
+  for (const [key, entry] of Object.entries(after?.packages ?? {})) {
+    if (before?.packages[key]?.outputHash !== entry.outputHash) {
+      updated.push(`${entry.name}@${entry.version}`);
+    }
+  }
+  for (const [key, entry] of Object.entries(before?.packages ?? {})) {
+    if (!after?.packages[key]) removed.push(`${entry.name}@${entry.version}`);
+  }
+  return { updated, removed };
+}
+
+/**
+ * List the scope folders (`@scope`) of a node_modules folder
+ */
+async function listScopeDirs(nodeModules: string): Promise<string[]> {
+  try {
+    const entries = await readdir(nodeModules, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.name.startsWith('@') && entry.isDirectory())
+      .map(entry => join(nodeModules, entry.name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Regenerate skills whenever the installed packages may have changed
+ *
+ * Watches the lockfiles and package.json files of the project and its
+ * workspace packages, and the top level and scope folders of every
+ * node_modules folder (so installs, `npm link` and removed packages are noticed). Changes are
+ * debounced, and a lockfile rewritten with the same content is ignored, so an
+ * install triggers one generation once it settles. Each generation is
+ * incremental: only skills whose package changed are rewritten.
+ *
+ * Generates once before watching; resolves when the watchers are in place.
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watch({
+ *   onGenerate: ({ updated }) => console.log(`Updated ${updated.join(', ')}`),
+ * });
+ * process.once('SIGINT', () => watcher.close());
+ * ```
+ */
+export async function watch(options: WatchOptions = {}): Promise<Watcher> {
+  const { debounce = DEFAULT_DEBOUNCE, onGenerate, onError, ...generateOptions } = options;
+  const cwd = generateOptions.cwd || process.cwd();
+  const outputDir = generateOptions.output || join(cwd, DEFAULT_OUTPUT);
+
+  const watchers = new Map<string, FSWatcher>();
+  const fileHashes = new Map<string, string | null>();
+  const changed = new Set<string>();
+  let outputDirs = [outputDir];
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let closed = false;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      // A change during a generation waits for it, then starts the next one
+      if (running) return;
+      running = run().finally(() => {
+        running = undefined;
+        if (changed.size > 0 && !closed) schedule();
+      });
+    }, debounce);
+  };
+
+  const onChange = (path: string) => {
+    if (closed) return;
+    changed.add(path);
+    schedule();
+  };
+
+  // Which paths to watch follows the workspace layout, which may change too
+  const sync = async () => {
+    const workspace = await detectWorkspace(cwd);
+    const workspaceDirs = await getWorkspacePackageDirs(workspace);
+    const paths = new Map<string, (fileName: string) => boolean>();
+    paths.set(cwd, fileName => ROOT_FILES.includes(fileName));
+    for (const dir of workspaceDirs) {
+      paths.set(dir, fileName => fileName === 'package.json' || fileName === 'node_modules');
+    }
+    for (const dir of await getNodeModulesPaths(workspace)) {
+      paths.set(dir, () => true);
+      // Scoped packages are one level down, in @scope folders
+      for (const scope of await listScopeDirs(dir)) {
+        paths.set(scope, () => true);
+      }
+    }
+
+    for (const [path, watcher] of watchers) {
+      if (!paths.has(path)) {
+        watcher.close();
+        watchers.delete(path);
+      }
+    }
+    for (const [path, accepts] of paths) {
+      if (watchers.has(path)) continue;
+      try {
+        const watcher = watchPath(path, (_event, fileName) => {
+          const name = fileName?.toString();
+          if (name && accepts(name)) onChange(join(path, name));
+        });
+        // The folder was removed (node_modules deleted before an install)
+        watcher.on('error', () => {
+          watcher.close();
+          watchers.delete(path);
+        });
+        watchers.set(path, watcher);
+      } catch {
+        // Folder doesn't exist yet, its parent's watcher reports when it appears
+      }
+    }
+
+    for (const path of [cwd, ...workspaceDirs]) {
+      for (const fileName of ['package.json', ...LOCKFILES]) {
+        const file = join(path, fileName);
+        if (!fileHashes.has(file)) {
+          fileHashes.set(file, await hashFile(file));
+        }
+      }
+    }
+  };
+
+  // Skip a generation when the only changes are files rewritten with the same content
+  const hasRealChanges = async (paths: string[]) => {
+    let real = false;
+    for (const path of paths) {
+      if (!fileHashes.has(path)) return true;
+      const hash = await hashFile(path);
+      if (hash !== fileHashes.get(path)) {
+        fileHashes.set(path, hash);
+        real = true;
+      }
+    }
+    return real;
+  };
+
+  const run = async (initial = false) => {
+    const paths = [...changed].sort();
+    changed.clear();
+    if (!initial && !(await hasRealChanges(paths))) return;
+
+    let update: WatchUpdate | undefined;
+    try {
+      const before = await readManifests(outputDirs);
+      const result = await generate(generateOptions);
+      outputDirs = getOutputDirs(outputDir, result);
+      const updated: string[] = [];
+      const removed: string[] = [];
+      for (const dir of outputDirs) {
+        const diff = diffManifests(before.get(dir), await readManifest(dir));
+        updated.push(...diff.updated);
+        removed.push(...diff.removed);
+      }
+      update = {
+        changed: paths.map(path => relative(cwd, path).split(sep).join('/')),
+        updated: [...new Set(updated)].sort(),
+        removed: [...new Set(removed)].sort(),
+        result,
+      };
+    } catch (error) {
+      onError?.(error);
+    }
+
+    // A failing rescan or callback must not end the watcher with an unhandled rejection
+    try {
+      if (!closed) await sync();
+      if (update) onGenerate?.(update);
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  await run(true);
+
+  return {
+    get paths() {
+      return [...watchers.keys()];
+    },
+    close: async () => {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+      await running;
+    },
+  };
+}
@@ -1,10 +1,16 @@
 import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, relative } from 'node:path';
 import type { WorkspaceInfo } from './types.js';
-import { fileExists, readJson } from './utils.js';
+import { compareStrings, fileExists, readJson } from './utils.js';
+import { findPnpFile } from './pnp.js';
 
 interface PackageJson {
+  name?: string;
+  version?: string;
   workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
 }
 
 // Used for type reference in parsePnpmWorkspace
@@ -25,6 +31,14 @@ interface NxJson {
 }
 
 export async function detectWorkspace(cwd: string): Promise<WorkspaceInfo> {
+  const workspace = await detectWorkspaceLayout(cwd);
+
+  // Yarn Plug'n'Play projects have no node_modules
+  const pnpPath = await findPnpFile(cwd);
+  return pnpPath ? { ...workspace, pnpPath } : workspace;
+}
+
+async function detectWorkspaceLayout(cwd: string): Promise<WorkspaceInfo> {
   const packageJsonPath = join(cwd, 'package.json');
   const pnpmWorkspacePath = join(cwd, 'pnpm-workspace.yaml');
   const lernaJsonPath = join(cwd, 'lerna.json');
@@ -140,28 +154,77 @@ function parsePnpmWorkspace(content: string): string[] {
 }
 
 export async function getNodeModulesPaths(workspace: WorkspaceInfo): Promise<string[]> {
-  const paths = [join(workspace.root, 'node_modules')];
-
-  if (workspace.type !== 'single' && workspace.packages.length > 0) {
-    const { glob } = await import('node:fs').then(async () => {
-      // Use simple glob expansion for workspace packages
-      return { glob: expandGlobs };
-    });
-
-    for (const pattern of workspace.packages) {
-      const expanded = await glob(pattern, workspace.root);
-      for (const dir of expanded) {
-        const nodeModulesPath = join(dir, 'node_modules');
-        if (await fileExists(nodeModulesPath)) {
-          paths.push(nodeModulesPath);
-        }
-      }
+  const paths: string[] = [];
+
+  // Plug'n'Play installs usually have no node_modules at all
+  const rootNodeModules = join(workspace.root, 'node_modules');
+  if (!workspace.pnpPath || (await fileExists(rootNodeModules))) {
+    paths.push(rootNodeModules);
+  }
+
+  for (const dir of await getWorkspacePackageDirs(workspace)) {
+    const nodeModulesPath = join(dir, 'node_modules');
+    if (await fileExists(nodeModulesPath)) {
+      paths.push(nodeModulesPath);
     }
   }
 
   return paths;
 }
 
+/**
+ * List the folders of every workspace package (not including the root)
+ */
+export async function getWorkspacePackageDirs(workspace: WorkspaceInfo): Promise<string[]> {
+  if (workspace.type === 'single' || workspace.packages.length === 0) {
+    return [];
+  }
+
+  const dirs: string[] = [];
+  for (const pattern of workspace.packages) {
+    for (const dir of await expandGlobs(pattern, workspace.root)) {
+      if (!dirs.includes(dir)) dirs.push(dir);
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Find which workspace uses which installed version of its dependencies
+ *
+ * Each workspace's declared dependencies are resolved the way Node does: its own
+ * node_modules first, then the root's. Returns workspace names (the package.json
+ * name, or the folder relative to the root) keyed by "name@version".
+ */
+export async function getWorkspaceUsage(workspace: WorkspaceInfo): Promise<Map<string, string[]>> {
+  const usage = new Map<string, string[]>();
+  const dirs = [workspace.root, ...(await getWorkspacePackageDirs(workspace))];
+
+  for (const dir of dirs) {
+    const pkg = await readJson<PackageJson>(join(dir, 'package.json'));
+    if (!pkg) continue;
+
+    const workspaceName = pkg.name || relative(workspace.root, dir) || '.';
+    const deps = new Set([
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+      ...Object.keys(pkg.optionalDependencies ?? {}),
+    ]);
+
+    for (const dep of deps) {
+      const installed =
+        (await readJson<PackageJson>(join(dir, 'node_modules', dep, 'package.json'))) ??
+        (await readJson<PackageJson>(join(workspace.root, 'node_modules', dep, 'package.json')));
+      if (!installed?.version) continue;
+
+      const key = `${dep}@${installed.version}`;
+      usage.set(key, [...(usage.get(key) ?? []), workspaceName]);
+    }
+  }
+
+  return usage;
+}
+
 async function expandGlobs(pattern: string, root: string): Promise<string[]> {
   const { readdir } = await import('node:fs/promises');
   const results: string[] = [];
@@ -188,6 +251,8 @@ async function expandGlobs(pattern: string, root: string): Promise<string[]> {
 
   try {
     const entries = await readdir(basePath, { withFileTypes: true });
+    // readdir order differs between filesystems
+    entries.sort((a, b) => compareStrings(a.name, b.name));
     for (const entry of entries) {
       if (!entry.isDirectory()) continue;
 
@@ -0,0 +1,266 @@
+/**
+ * Scalar values that can be written to YAML
+ */
+export type YamlScalar = string | number | boolean;
+
+/**
+ * Values supported by the frontmatter writer
+ */
+export type YamlValue = YamlScalar | YamlScalar[] | null | undefined;
+
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+
+/**
+ * Check whether a string contains a control character (newlines included)
+ */
+function hasControlCharacter(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a string can be written as a plain (unquoted) YAML scalar
+ * without changing its meaning
+ */
+function isPlainSafe(value: string): boolean {
+  if (!value || value !== value.trim()) return false;
+  if (RESERVED_WORDS.test(value)) return false;
+  // Numbers, dates and versions would be parsed as non-strings
+  if (/^[-+.]?\d/.test(value)) return false;
+  // Indicator characters that can't start a plain scalar
+  if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(value)) return false;
+  // Control characters and newlines
+  if (hasControlCharacter(value)) return false;
+  // ": " starts a mapping, " #" starts a comment
+  if (/:(\s|$)/.test(value) || /\s#/.test(value)) return false;
+  return true;
+}
+
+/**
+ * Format a scalar as YAML, quoting strings when needed
+ *
+ * Quoted strings use JSON escaping, which is valid YAML double-quoted syntax.
+ */
+export function formatYamlScalar(value: YamlScalar): string {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : JSON.stringify(String(value));
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return isPlainSafe(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Serialize a flat record into a YAML frontmatter block
+ *
+ * Keys with null/undefined values and empty arrays are omitted.
+ *
+ * @example
+ * ```typescript
+ * stringifyFrontmatter({ name: 'react', version: '18.3.1' })
+ * // => '---\nname: react\nversion: "18.3.1"\n---'
+ * ```
+ */
+export function stringifyFrontmatter(fields: Record<string, YamlValue>): string {
+  const lines = ['---'];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null || value === undefined) continue;
+    const formattedKey = isPlainSafe(key) ? key : JSON.stringify(key);
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      lines.push(`${formattedKey}:`);
+      for (const item of value) {
+        lines.push(`  - ${formatYamlScalar(item)}`);
+      }
+    } else {
+      lines.push(`${formattedKey}: ${formatYamlScalar(value)}`);
+    }
+  }
+
+  lines.push('---');
+  return lines.join('\n');
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+/**
+ * Parse a block-style YAML document such as `pnpm-lock.yaml` or `.modules.yaml`
+ *
+ * Supports nested mappings, sequences, quoted keys and scalars, and empty flow
+ * collections. Other scalars (including numbers) are returned as strings;
+ * non-empty flow collections are returned verbatim.
+ */
+export function parseYamlDocument(content: string): unknown {
+  const lines: YamlLine[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed === '---') continue;
+    lines.push({ indent: raw.length - raw.trimStart().length, text: trimmed });
+  }
+  if (lines.length === 0) return null;
+  return parseBlock(lines, 0, lines[0].indent).value;
+}
+
+function parseBlock(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): { value: unknown; next: number } {
+  if (isSequenceItem(lines[start].text)) {
+    return parseSequence(lines, start, indent);
+  }
+  return parseMapping(lines, start, indent);
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function parseSequence(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): { value: unknown[]; next: number } {
+  const items: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isSequenceItem(lines[i].text)) {
+    const rest = lines[i].text.slice(1).trim();
+
+    if (!rest) {
+      // Nested block on the following lines
+      if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+        const nested = parseBlock(lines, i + 1, lines[i + 1].indent);
+        items.push(nested.value);
+        i = nested.next;
+      } else {
+        items.push(null);
+        i++;
+      }
+    } else if (findKeySeparator(rest) !== -1 && !/^["'[{]/.test(rest)) {
+      // "- key: value" starts a mapping indented past the dash
+      const itemIndent = indent + (lines[i].text.length - rest.length);
+      lines[i] = { indent: itemIndent, text: rest };
+      const nested = parseMapping(lines, i, itemIndent);
+      items.push(nested.value);
+      i = nested.next;
+    } else {
+      items.push(parseScalar(rest));
+      i++;
+    }
+  }
+
+  return { value: items, next: i };
+}
+
+function parseMapping(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): { value: Record<string, unknown>; next: number } {
+  const result: Record<string, unknown> = {};
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && !isSequenceItem(lines[i].text)) {
+    const { text } = lines[i];
+    const separator = findKeySeparator(text);
+    if (separator === -1) {
+      i++;
+      continue;
+    }
+
+    const key = unquote(text.slice(0, separator).trim());
+    const rest = text.slice(separator + 1).trim();
+    i++;
+
+    if (rest && !rest.startsWith('|') && !rest.startsWith('>')) {
+      result[key] = parseScalar(rest);
+    } else if (rest) {
+      // Block scalar: collect the more-indented lines
+      const block: string[] = [];
+      while (i < lines.length && lines[i].indent > indent) {
+        block.push(lines[i].text);
+        i++;
+      }
+      result[key] = block.join(rest.startsWith('>') ? ' ' : '\n');
+    } else if (
+      i < lines.length &&
+      (lines[i].indent > indent || (lines[i].indent === indent && isSequenceItem(lines[i].text)))
+    ) {
+      const nested = parseBlock(lines, i, lines[i].indent);
+      result[key] = nested.value;
+      i = nested.next;
+    } else {
+      result[key] = null;
+    }
+  }
+
+  // Skip anything more indented that we couldn't attach (malformed input)
+  while (i < lines.length && lines[i].indent > indent) i++;
+
+  return { value: result, next: i };
+}
+
+/**
+ * Find the ":" separating a key from its value, honoring quoted keys
+ */
+function findKeySeparator(text: string): number {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0];
+    let end = 1;
+    while (end < text.length) {
+      if (text[end] === '\\' && quote === '"') {
+        end += 2;
+        continue;
+      }
+      if (text[end] === quote) {
+        // '' is an escaped quote in single-quoted strings
+        if (quote === "'" && text[end + 1] === "'") {
+          end += 2;
+          continue;
+        }
+        break;
+      }
+      end++;
+    }
+    return text[end + 1] === ':' ? end + 1 : -1;
+  }
+
+  const match = /:(\s|$)/.exec(text);
+  return match ? match.index : -1;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function parseScalar(raw: string): unknown {
+  // Strip trailing comments from unquoted values
+  const value = /^["']/.test(raw) ? raw : raw.replace(/\s+#.*$/, '');
+
+  if (value === '[]') return [];
+  if (value === '{}') return {};
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null' || value === '~') return null;
+  return unquote(value);
+}
@@ -0,0 +1,138 @@
+import { open } from 'node:fs/promises';
+import { inflateRawSync } from 'node:zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * A file entry from a zip central directory
+ */
+export interface ZipEntry {
+  /** Path inside the archive (forward slashes, no leading slash) */
+  name: string;
+  /** Compression method (0 = stored, 8 = deflate) */
+  method: number;
+  /** Compressed size in bytes */
+  compressedSize: number;
+  /** Uncompressed size in bytes */
+  size: number;
+  /** Offset of the entry's local header */
+  localHeaderOffset: number;
+}
+
+/**
+ * Read-only access to a zip archive
+ */
+export interface ZipReader {
+  /** Archive path */
+  path: string;
+  /** File entries keyed by name (directories are omitted) */
+  entries: Map<string, ZipEntry>;
+  /** Read and decompress a file, or return null if it doesn't exist */
+  readFile(name: string): Promise<Buffer | null>;
+  /** Close the underlying file handle */
+  close(): Promise<void>;
+}
+
+/**
+ * Open a zip archive and read its central directory
+ *
+ * Only what Yarn's cache needs is supported: stored and deflated entries,
+ * no ZIP64 and no encryption.
+ *
+ * @throws If the file isn't a readable zip archive
+ */
+export async function openZip(path: string): Promise<ZipReader> {
+  const handle = await open(path, 'r');
+
+  try {
+    const { size: fileSize } = await handle.stat();
+
+    // The end of central directory record sits at the end, before an optional comment
+    const tailSize = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+    const tail = Buffer.alloc(tailSize);
+    await handle.read(tail, 0, tailSize, fileSize - tailSize);
+
+    let eocd = -1;
+    for (let i = tailSize - EOCD_MIN_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error(`Not a zip archive: ${path}`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (directoryOffset === 0xffffffff || directorySize === 0xffffffff) {
+      throw new Error(`ZIP64 archives are not supported: ${path}`);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await handle.read(directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt zip central directory: ${path}`);
+      }
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      if (!name.endsWith('/')) {
+        entries.set(name.replace(/^\/+/, ''), {
+          name,
+          method: directory.readUInt16LE(offset + 10),
+          compressedSize: directory.readUInt32LE(offset + 20),
+          size: directory.readUInt32LE(offset + 24),
+          localHeaderOffset: directory.readUInt32LE(offset + 42),
+        });
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return {
+      path,
+      entries,
+      readFile: name => readEntry(handle, entries.get(name)),
+      close: () => handle.close(),
+    };
+  } catch (err) {
+    await handle.close();
+    throw err;
+  }
+}
+
+async function readEntry(
+  handle: Awaited<ReturnType<typeof open>>,
+  entry: ZipEntry | undefined
+): Promise<Buffer | null> {
+  if (!entry) return null;
+
+  // The local header's name/extra lengths can differ from the central directory's
+  const header = Buffer.alloc(30);
+  await handle.read(header, 0, 30, entry.localHeaderOffset);
+  if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) return null;
+
+  const dataOffset =
+    entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data = Buffer.alloc(entry.compressedSize);
+  await handle.read(data, 0, entry.compressedSize, dataOffset);
+
+  if (entry.method === METHOD_STORED) return data;
+  if (entry.method === METHOD_DEFLATE) return inflateRawSync(data);
+  return null;
+}
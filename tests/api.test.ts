@@ -0,0 +1,199 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { extractApi, findSourceEntry, parseJsDoc, parseModuleExports } from '../src/api.js';
+import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
+
+describe('api', async () => {
+  describe('parseJsDoc', async () => {
+    it('should read the summary and deprecation', () => {
+      const doc = parseJsDoc('/**\n * Add two numbers\n * together\n * @deprecated use sum\n */');
+      assert.strictEqual(doc.description, 'Add two numbers together');
+      assert.strictEqual(doc.deprecated, true);
+    });
+  });
+
+  describe('parseModuleExports', async () => {
+    it('should collect exported declarations, lists and re-exports', () => {
+      const exports = parseModuleExports(
+        [
+          'export function add(a: number, b: number): number {',
+          '  return a + b;',
+          '}',
+          'const internal = 1;',
+          'class Store {}',
+          'export { Store as DataStore };',
+          "export * from './other.js';",
+          "export { a, b as c } from './more.js';",
+          'export default add;',
+        ].join('\n')
+      );
+
+      assert.deepStrictEqual(
+        [...exports.exports.entries()],
+        [
+          ['add', 'add'],
+          ['DataStore', 'Store'],
+          ['default', 'add'],
+        ]
+      );
+      assert.ok(exports.declarations.has('internal'));
+      assert.strictEqual(exports.reExports.length, 2);
+      assert.strictEqual(exports.reExports[0].from, './other.js');
+      assert.deepStrictEqual(
+        [...(exports.reExports[1].names?.entries() ?? [])],
+        [
+          ['a', 'a'],
+          ['c', 'b'],
+        ]
+      );
+    });
+  });
+
+  describe('declaration files', async () => {
+    it('should list public class members and enum members', () => {
+      const exports = parseModuleExports(
+        [
+          'export declare class Store<T> {',
+          '    private cache;',
+          '    protected static name: string;',
+          '    #secret;',
+          '    /** Read a value */',
+          '    get(key: string): T | undefined;',
+          '    readonly size: number;',
+          '}',
+          'export declare enum Level {',
+          '    Debug = 0,',
+          '    Info = 1',
+          '}',
+        ].join('\n')
+      );
+
+      const store = exports.declarations.get('Store');
+      assert.strictEqual(store?.signature, 'class Store<T>');
+      assert.deepStrictEqual(store?.members, [
+        'get(key: string): T | undefined',
+        'readonly size: number',
+      ]);
+      assert.deepStrictEqual(exports.declarations.get('Level')?.members, ['Debug = 0', 'Info = 1']);
+    });
+
+    it('should drop method bodies and initializers from source classes', () => {
+      const exports = parseModuleExports(
+        [
+          'export class Counter {',
+          '  count = 0;',
+          '  private step = { by: 1 };',
+          '  increment(): { count: number } {',
+          "    if (this.count > 1) return { count: '}'.length };",
+          '    return { count: ++this.count };',
+          '  }',
+          '  reset = () => {',
+          '    this.count = 0;',
+          '  };',
+          '}',
+        ].join('\n')
+      );
+
+      assert.deepStrictEqual(exports.declarations.get('Counter')?.members, [
+        'count',
+        'increment(): { count: number }',
+        'reset',
+      ]);
+    });
+
+    it('should read CommonJS export assignments', () => {
+      const exports = parseModuleExports(
+        'declare function express(): Express;\nexport = express;\n'
+      );
+      assert.strictEqual(exports.exports.get('express'), 'express');
+    });
+  });
+
+  describe('findSourceEntry', async () => {
+    it('should map the built entry back to its source file', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await mkdir(join(tempDir, 'src'), { recursive: true });
+        await writeFile(
+          join(tempDir, 'package.json'),
+          JSON.stringify({ name: 'lib', main: './dist/index.js' })
+        );
+        await writeFile(join(tempDir, 'src', 'index.ts'), 'export const a = 1;\n');
+
+        assert.strictEqual(await findSourceEntry(tempDir), 'src/index.ts');
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('extractApi', async () => {
+    it('should follow relative re-exports and keep JSDoc descriptions', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await mkdir(join(tempDir, 'src'), { recursive: true });
+        await writeFile(
+          join(tempDir, 'src', 'index.ts'),
+          "export * from './math.js';\nexport { format as formatNumber } from './format.js';\n"
+        );
+        await writeFile(
+          join(tempDir, 'src', 'math.ts'),
+          [
+            '/**',
+            ' * Add two numbers',
+            ' */',
+            'export function add(a: number, b: number): number {',
+            '  return a + b;',
+            '}',
+            '',
+            '/** @deprecated */',
+            'export interface Options {',
+            '  precise: boolean;',
+            '}',
+          ].join('\n')
+        );
+        await writeFile(
+          join(tempDir, 'src', 'format.ts'),
+          'export const format = (value: number): string => String(value);\n'
+        );
+
+        const api = await extractApi(tempDir, 'src/index.ts');
+        const byName = new Map(api.map(symbol => [symbol.name, symbol]));
+
+        assert.deepStrictEqual([...byName.keys()].sort(), ['Options', 'add', 'formatNumber']);
+        assert.strictEqual(byName.get('add')?.kind, 'function');
+        assert.strictEqual(
+          byName.get('add')?.signature,
+          'function add(a: number, b: number): number'
+        );
+        assert.strictEqual(byName.get('add')?.description, 'Add two numbers');
+        assert.strictEqual(byName.get('add')?.source, 'src/math.ts');
+        assert.strictEqual(byName.get('Options')?.deprecated, true);
+        assert.strictEqual(byName.get('formatNumber')?.kind, 'const');
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should read files through a file accessor', async () => {
+      const sources: Record<string, string> = {
+        'types/index.d.ts': "export * from './client';\n",
+        'types/client.d.ts': 'export declare function connect(url: string): void;\n',
+      };
+      const api = await extractApi(
+        {
+          readText: async relPath => sources[relPath] ?? null,
+          exists: async relPath => relPath in sources,
+        },
+        './types/index.d.ts'
+      );
+
+      assert.deepStrictEqual(
+        api.map(symbol => [symbol.name, symbol.source]),
+        [['connect', 'types/client.d.ts']]
+      );
+    });
+  });
+});
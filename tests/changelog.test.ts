@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  formatChangelogEntries,
+  isBreakingUpgrade,
+  parseChangelog,
+  selectChangelogEntries,
+  selectChangelogEntriesSince,
+} from '../src/changelog.js';
+
+describe('changelog', async () => {
+  describe('parseChangelog', async () => {
+    it('should parse Keep a Changelog and skip unreleased changes', () => {
+      const entries = parseChangelog(
+        [
+          '# Changelog',
+          '',
+          '## [Unreleased]',
+          '',
+          '- work in progress',
+          '',
+          '## [1.1.0] - 2024-02-01',
+          '',
+          '### Added',
+          '',
+          '- new option',
+          '',
+          '## [1.0.0] - 2024-01-01',
+          '',
+          '- first release',
+          '',
+          '[1.1.0]: https://example.com/compare/v1.0.0...v1.1.0',
+        ].join('\n')
+      );
+
+      assert.deepStrictEqual(
+        entries.map(entry => [entry.version, entry.title, entry.date]),
+        [
+          ['1.1.0', '1.1.0 - 2024-02-01', '2024-02-01'],
+          ['1.0.0', '1.0.0 - 2024-01-01', '2024-01-01'],
+        ]
+      );
+      assert.strictEqual(entries[0].content, '### Added\n\n- new option');
+      assert.strictEqual(entries[1].content, '- first release');
+      assert.ok(!entries.some(entry => entry.content.includes('work in progress')));
+    });
+
+    it('should parse conventional-changelog with majors and patches at different levels', () => {
+      const entries = parseChangelog(
+        [
+          '# [2.0.0](https://github.com/o/r/compare/v1.5.1...v2.0.0) (2024-03-01)',
+          '',
+          '### ⚠ BREAKING CHANGES',
+          '',
+          '* drop Node 16',
+          '',
+          '## [1.5.1](https://github.com/o/r/compare/v1.5.0...v1.5.1) (2024-02-10)',
+          '',
+          '### Bug Fixes',
+          '',
+          '* handle empty input',
+        ].join('\n')
+      );
+
+      assert.deepStrictEqual(
+        entries.map(entry => [entry.version, entry.title, entry.breaking]),
+        [
+          ['2.0.0', '2.0.0 (2024-03-01)', true],
+          ['1.5.1', '1.5.1 (2024-02-10)', false],
+        ]
+      );
+    });
+
+    it('should parse changesets, v-prefixed and setext headings', () => {
+      const changesets = parseChangelog(
+        '# @scope/lib\n\n## 3.0.0\n\n### Major Changes\n\n- abc123: new API\n\n## 2.4.0\n\n### Minor Changes\n'
+      );
+      assert.deepStrictEqual(
+        changesets.map(entry => [entry.version, entry.breaking]),
+        [
+          ['3.0.0', true],
+          ['2.4.0', false],
+        ]
+      );
+
+      const plain = parseChangelog(
+        'v2.1 / 2023-05-01\n=================\n\n- faster\n\n# v2.0.3\n'
+      );
+      assert.deepStrictEqual(
+        plain.map(entry => [entry.version, entry.content]),
+        [
+          ['2.1.0', '- faster'],
+          ['2.0.3', ''],
+        ]
+      );
+    });
+  });
+
+  describe('selectChangelogEntries', async () => {
+    it('should pick the installed version and the ones before it in either order', () => {
+      const entries = parseChangelog(
+        ['## 1.0.0', '## 1.1.0', '## 1.2.0', '## 2.0.0-beta.1', '## 2.0.0'].join('\n\n')
+      );
+
+      assert.deepStrictEqual(
+        selectChangelogEntries(entries, '1.2.0', 2).map(entry => entry.version),
+        ['1.2.0', '1.1.0']
+      );
+      assert.deepStrictEqual(
+        selectChangelogEntries(entries, '2.0.0-rc.1', 2).map(entry => entry.version),
+        ['2.0.0-beta.1', '1.2.0']
+      );
+    });
+  });
+
+  describe('upgrades', async () => {
+    it('should pick the entries after the old version and detect breaking upgrades', () => {
+      const entries = parseChangelog(['## 0.9.0', '## 0.9.1', '## 0.10.0'].join('\n\n'));
+      const since = selectChangelogEntriesSince(entries, '0.9.0', '0.9.1');
+
+      assert.deepStrictEqual(
+        since.map(entry => entry.version),
+        ['0.9.1']
+      );
+      assert.strictEqual(isBreakingUpgrade('0.9.0', '0.9.1', since), false);
+      assert.strictEqual(isBreakingUpgrade('0.9.1', '0.10.0', []), true);
+      assert.strictEqual(isBreakingUpgrade('1.2.0', '2.0.0', []), true);
+    });
+  });
+
+  describe('formatChangelogEntries', async () => {
+    it('should mark breaking entries and nest their headings', () => {
+      const [entry] = parseChangelog('# 2.0.0\n\n## Breaking Changes\n\n- removed `legacy()`\n');
+
+      assert.deepStrictEqual(formatChangelogEntries([entry]), [
+        '### 2.0.0 **BREAKING**',
+        '',
+        '#### Breaking Changes',
+        '',
+        '- removed `legacy()`',
+        '',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { check } from '../src/check.js';
+import { generate } from '../src/generator.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockWorkspace,
+  createMockPackage,
+  testPackages,
+} from './utils/fixtures.js';
+import type { GenerateOptions } from '../src/types.js';
+
+/**
+ * Move the generation date of a generated file back, as if generated earlier
+ */
+async function backdate(path: string): Promise<void> {
+  const content = await readFile(path, 'utf-8');
+  await writeFile(
+    path,
+    content.replace(/ by v-skills on \d{4}-\d{2}-\d{2}/g, ' by v-skills on 2020-01-01')
+  );
+}
+
+describe('check', async () => {
+  it('should pass when only generation dates differ', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({
+        root: tempDir,
+        packages: [testPackages.react, testPackages.express],
+      });
+      const options: GenerateOptions = {
+        cwd: tempDir,
+        targets: ['claude-skills', 'cursor'],
+        deterministic: false,
+      };
+      await generate(options);
+      const output = join(tempDir, '.claude/skills/v-skills');
+      await backdate(join(output, 'react/SKILL.md'));
+      await backdate(join(output, '_index.md'));
+      await backdate(join(tempDir, '.cursor/rules/v-skills/react.mdc'));
+
+      const result = await check(options);
+
+      assert.deepStrictEqual(result, {
+        upToDate: true,
+        stale: [],
+        missing: [],
+        extra: [],
+        files: [],
+      });
+      assert.ok((await readFile(join(output, '_index.md'), 'utf-8')).includes('2020-01-01'));
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should list stale, missing and extra packages', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({
+        root: tempDir,
+        packages: [testPackages.react, testPackages.express],
+      });
+      await generate({ cwd: tempDir });
+
+      const nodeModules = join(tempDir, 'node_modules');
+      await createMockPackage(nodeModules, { ...testPackages.react, version: '19.0.0' });
+      await createMockPackage(nodeModules, testPackages.zod);
+      await rm(join(nodeModules, 'express'), { recursive: true });
+
+      const result = await check({ cwd: tempDir });
+
+      assert.strictEqual(result.upToDate, false);
+      assert.deepStrictEqual(result.stale, [
+        { name: 'react', version: '19.0.0', documented: '18.3.1' },
+      ]);
+      assert.deepStrictEqual(result.missing, [{ name: 'zod', version: '3.23.8' }]);
+      assert.deepStrictEqual(result.extra, [{ name: 'express', version: '4.21.0' }]);
+      assert.ok(result.files.includes('.claude/skills/v-skills/_index.md'));
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should report a skill edited by hand as stale', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+      await generate({ cwd: tempDir });
+      const path = join(tempDir, '.claude/skills/v-skills/react/SKILL.md');
+      await writeFile(path, (await readFile(path, 'utf-8')) + '\nMy notes\n');
+
+      const result = await check({ cwd: tempDir });
+
+      assert.deepStrictEqual(result.stale, [{ name: 'react', version: '18.3.1' }]);
+      assert.deepStrictEqual(result.files, []);
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+});
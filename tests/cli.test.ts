@@ -2,7 +2,7 @@ import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { spawn } from 'node:child_process';
 import { join } from 'node:path';
-import { readdir, access } from 'node:fs/promises';
+import { readdir, access, rm } from 'node:fs/promises';
 import {
   createTempDir,
   cleanupTempDir,
@@ -216,6 +216,21 @@ describe('CLI', async () => {
       }
     });
 
+    it('should reject numeric options that are not valid', async () => {
+      for (const args of [
+        ['--concurrency', 'abc'],
+        ['--concurrency', '0'],
+        ['--depth', '-1'],
+        ['--max-tokens', 'many'],
+        ['--changelog-versions', '1.5'],
+      ]) {
+        const { code, stderr } = await runCli(['--silent', ...args]);
+
+        assert.strictEqual(code, 1);
+        assert.ok(stderr.includes(`Option "${args[0]}" must be a`), stderr);
+      }
+    });
+
     it('should display workspace type in output', async () => {
       const tempDir = await createTempDir();
       try {
@@ -289,6 +304,100 @@ describe('CLI', async () => {
     });
   });
 
+  describe('dry run and diff', async () => {
+    it('should list planned changes and print a diff without writing', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+
+        const dryRun = await runCli(['--dry-run', '--cwd', tempDir]);
+        assert.strictEqual(dryRun.code, 0);
+        assert.ok(dryRun.stdout.includes('files would change, nothing written'));
+        assert.ok(
+          /\+ \.claude\/skills\/v-skills\/react\/SKILL\.md \(\+\d+ bytes/.test(dryRun.stdout)
+        );
+        await assert.rejects(access(join(tempDir, '.claude')));
+
+        await runCli(['--cwd', tempDir]);
+        const diff = await runCli(['diff', '--max-tokens', '20', '--cwd', tempDir]);
+        assert.strictEqual(diff.code, 0);
+        assert.ok(diff.stdout.includes('--- a/.claude/skills/v-skills/react/SKILL.md'));
+        assert.ok(diff.stdout.includes('+++ b/.claude/skills/v-skills/react/SKILL.md'));
+
+        const none = await runCli(['diff', '--cwd', tempDir]);
+        assert.ok(none.stdout.includes('No changes'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('check command', async () => {
+    it('should exit with 1 and list the packages when skills are out of date', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        await runCli(['--cwd', tempDir]);
+
+        const upToDate = await runCli(['check', '--cwd', tempDir]);
+        assert.strictEqual(upToDate.code, 0);
+        assert.ok(upToDate.stdout.includes('skills are up to date'));
+
+        await rm(join(tempDir, 'node_modules/react'), { recursive: true });
+        const outdated = await runCli(['check', '--cwd', tempDir]);
+        assert.strictEqual(outdated.code, 1);
+        assert.ok(outdated.stdout.includes('Extra:   react@18.3.1'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('search command', async () => {
+    it('should print ranked results from the generated index', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.express],
+        });
+        await runCli(['--cwd', tempDir]);
+
+        const { code, stdout } = await runCli(['search', 'web', 'framework', '--cwd', tempDir]);
+        assert.strictEqual(code, 0);
+        assert.ok(stdout.includes('1. express@4.21.0'));
+        assert.ok(stdout.includes('express/SKILL.md'));
+
+        const json = await runCli([
+          'search',
+          'framework',
+          '--json',
+          '--limit',
+          '1',
+          '--cwd',
+          tempDir,
+        ]);
+        const results = JSON.parse(json.stdout);
+        assert.strictEqual(results.length, 1);
+        assert.strictEqual(results[0].name, 'express');
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should fail without an index', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const { code, stderr } = await runCli(['search', 'dates', '--cwd', tempDir]);
+
+        assert.strictEqual(code, 1);
+        assert.ok(stderr.includes('run "v-skills generate" first'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
   describe('init command', async () => {
     it('should create v-skills.config.mjs file', async () => {
       const tempDir = await createTempDir();
@@ -287,6 +287,66 @@ output: deps
       }
     });
 
+    it('should read nested options from YAML', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.yaml'),
+          `maxTokens: 8000
+frontmatter:
+  allowed-tools:
+    - Read
+    - Grep
+  priority: 2
+packageLimits:
+  aws-sdk:
+    maxTokens: 20000
+  "@types/*":
+    maxBytes: 4000
+sanitize:
+  images: false
+  sponsors: true
+`
+        );
+
+        const config = await loadConfig(tempDir);
+
+        assert.ok(config);
+        assert.strictEqual(config.maxTokens, 8000);
+        assert.deepStrictEqual(config.frontmatter, {
+          'allowed-tools': ['Read', 'Grep'],
+          priority: 2,
+        });
+        assert.deepStrictEqual(config.packageLimits, {
+          'aws-sdk': { maxTokens: 20000 },
+          '@types/*': { maxBytes: 4000 },
+        });
+        assert.deepStrictEqual(config.sanitize, { images: false, sponsors: true });
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should reject nested YAML options that are not valid', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.yaml'),
+          `packageLimits:
+  lodash:
+    maxBytes: lots
+`
+        );
+
+        await assert.rejects(
+          () => loadConfig(tempDir),
+          /"packageLimits.lodash.maxBytes" must be a positive integer/
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
     it('should validate include must be array', async () => {
       const tempDir = await createTempDir();
       try {
@@ -314,6 +374,132 @@ output: deps
         await cleanupTempDir(tempDir);
       }
     });
+
+    it('should load custom frontmatter fields', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({ frontmatter: { 'allowed-tools': ['Read', 'Grep'], license: 'MIT' } })
+        );
+
+        const config = await loadConfig(tempDir);
+
+        assert.ok(config);
+        assert.deepStrictEqual(config.frontmatter, {
+          'allowed-tools': ['Read', 'Grep'],
+          license: 'MIT',
+        });
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should validate frontmatter field values', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({ frontmatter: { nested: { not: 'allowed' } } })
+        );
+
+        await assert.rejects(() => loadConfig(tempDir), /frontmatter\.nested/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should normalize perWorkspace', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({ perWorkspace: true })
+        );
+        assert.strictEqual((await loadConfig(tempDir))?.perWorkspace, 'package');
+
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({ perWorkspace: 'x' })
+        );
+        await assert.rejects(() => loadConfig(tempDir), /"perWorkspace" must be/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should validate depth is a non-negative integer', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(join(tempDir, 'v-skills.config.json'), JSON.stringify({ depth: 0 }));
+        assert.strictEqual((await loadConfig(tempDir))?.depth, 0);
+
+        await writeFile(join(tempDir, 'v-skills.config.json'), JSON.stringify({ depth: -1 }));
+        await assert.rejects(() => loadConfig(tempDir), /"depth" must be a non-negative integer/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should load global and per-package size limits', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({
+            maxTokens: 8000,
+            maxBytes: 32000,
+            packageLimits: { 'aws-sdk': { maxTokens: 2000 } },
+          })
+        );
+        const config = await loadConfig(tempDir);
+        assert.strictEqual(config?.maxTokens, 8000);
+        assert.strictEqual(config?.maxBytes, 32000);
+        assert.deepStrictEqual(config?.packageLimits, { 'aws-sdk': { maxTokens: 2000 } });
+
+        await writeFile(
+          join(tempDir, 'v-skills.config.json'),
+          JSON.stringify({ packageLimits: { lodash: { maxBytes: 0 } } })
+        );
+        await assert.rejects(
+          () => loadConfig(tempDir),
+          /"packageLimits.lodash.maxBytes" must be a positive integer/
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should load README cleanup rules', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const configPath = join(tempDir, 'v-skills.config.json');
+        await writeFile(configPath, JSON.stringify({ sanitize: { sponsors: false } }));
+        assert.deepStrictEqual((await loadConfig(tempDir))?.sanitize, { sponsors: false });
+
+        await writeFile(configPath, JSON.stringify({ sanitize: false }));
+        assert.strictEqual((await loadConfig(tempDir))?.sanitize, false);
+
+        await writeFile(configPath, JSON.stringify({ sanitize: { logos: false } }));
+        await assert.rejects(() => loadConfig(tempDir), /"sanitize.logos" is not a known rule/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should load output targets', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const configPath = join(tempDir, 'v-skills.config.json');
+        await writeFile(configPath, JSON.stringify({ targets: ['cursor', 'agents-md', 'cursor'] }));
+        assert.deepStrictEqual((await loadConfig(tempDir))?.targets, ['cursor', 'agents-md']);
+
+        await writeFile(configPath, JSON.stringify({ targets: ['vim'] }));
+        await assert.rejects(() => loadConfig(tempDir), /unknown target "vim"/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
   });
 
   describe('mergeConfig', async () => {
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { access } from 'node:fs/promises';
+import { createUnifiedDiff, diff } from '../src/diff.js';
+import { generate } from '../src/generator.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockWorkspace,
+  createMockPackage,
+  testPackages,
+} from './utils/fixtures.js';
+
+describe('diff', async () => {
+  describe('createUnifiedDiff', async () => {
+    it('should show changes with three lines of context', async () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const after = [...before];
+      after[1] = 'changed';
+      after.splice(15, 1);
+
+      const result = createUnifiedDiff(
+        'react/SKILL.md',
+        before.join('\n') + '\n',
+        after.join('\n') + '\n'
+      );
+
+      assert.strictEqual(
+        result,
+        [
+          '--- a/react/SKILL.md',
+          '+++ b/react/SKILL.md',
+          '@@ -1,5 +1,5 @@',
+          ' line 0',
+          '-line 1',
+          '+changed',
+          ' line 2',
+          ' line 3',
+          ' line 4',
+          '@@ -13,7 +13,6 @@',
+          ' line 12',
+          ' line 13',
+          ' line 14',
+          '-line 15',
+          ' line 16',
+          ' line 17',
+          ' line 18',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should diff added and removed files against /dev/null', async () => {
+      assert.strictEqual(
+        createUnifiedDiff('a.md', null, 'one\ntwo\n'),
+        '--- /dev/null\n+++ b/a.md\n@@ -0,0 +1,2 @@\n+one\n+two\n'
+      );
+      assert.strictEqual(
+        createUnifiedDiff('a.md', 'one\n', null),
+        '--- a/a.md\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-one\n'
+      );
+      assert.strictEqual(createUnifiedDiff('a.md', 'same', 'same'), '');
+    });
+
+    it('should not print minified files line by line', async () => {
+      const result = createUnifiedDiff('index.json', 'x'.repeat(3000), 'y'.repeat(3000));
+      assert.strictEqual(result, 'Files a/index.json and b/index.json differ\n');
+    });
+  });
+
+  describe('diff', async () => {
+    it('should diff the current output with what would be generated', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        await generate({ cwd: tempDir });
+        await createMockPackage(join(tempDir, 'node_modules'), testPackages.zod);
+
+        const result = await diff({ cwd: tempDir });
+
+        assert.ok(result.diff.includes('+++ b/.claude/skills/v-skills/zod/SKILL.md\n'));
+        assert.ok(result.diff.includes('--- a/.claude/skills/v-skills/_index.md\n'));
+        assert.ok(/^\+\| \[zod\]/m.test(result.diff));
+        assert.ok(result.plan.some(operation => operation.path.endsWith('zod/SKILL.md')));
+        await assert.rejects(access(join(tempDir, '.claude/skills/v-skills/zod')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should be empty when the output is up to date', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        await generate({ cwd: tempDir });
+
+        assert.deepStrictEqual(await diff({ cwd: tempDir }), { plan: [], diff: '' });
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
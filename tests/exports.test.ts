@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { declarationFileFor, resolveEntryPoints, satisfiesTypesRange } from '../src/exports.js';
+
+/**
+ * File existence check backed by a list of files
+ */
+function existsIn(files: string[]) {
+  return async (relPath: string) => files.includes(relPath);
+}
+
+describe('exports', async () => {
+  describe('declarationFileFor', async () => {
+    it('should map JavaScript files to their declaration files', () => {
+      assert.strictEqual(declarationFileFor('dist/index.js'), 'dist/index.d.ts');
+      assert.strictEqual(declarationFileFor('dist/index.mjs'), 'dist/index.d.mts');
+      assert.strictEqual(declarationFileFor('dist/index.cjs'), 'dist/index.d.cts');
+      assert.strictEqual(declarationFileFor('dist/index.d.ts'), 'dist/index.d.ts');
+      assert.strictEqual(declarationFileFor('lib/main'), 'lib/main.d.ts');
+    });
+  });
+
+  describe('satisfiesTypesRange', async () => {
+    it('should match typesVersions ranges', () => {
+      assert.strictEqual(satisfiesTypesRange('5.9.0', '*'), true);
+      assert.strictEqual(satisfiesTypesRange('5.9.0', '>=4.2'), true);
+      assert.strictEqual(satisfiesTypesRange('5.9.0', '<4.0'), false);
+      assert.strictEqual(satisfiesTypesRange('5.9.0', '>=3.1 <6'), true);
+      assert.strictEqual(satisfiesTypesRange('5.9.0', '<=5.6'), false);
+    });
+  });
+
+  describe('resolveEntryPoints', async () => {
+    it('should read types conditions of every subpath', async () => {
+      const entryPoints = await resolveEntryPoints(
+        {
+          exports: {
+            '.': { types: './dist/index.d.ts', default: './dist/index.js' },
+            './server': {
+              import: { types: './dist/server.d.mts', default: './dist/server.mjs' },
+              require: { types: './dist/server.d.cts', default: './dist/server.cjs' },
+            },
+            './utils': './dist/utils.js',
+            './internal/*': './dist/internal/*.js',
+            './package.json': './package.json',
+            './private': null,
+          },
+        },
+        existsIn(['dist/index.d.ts', 'dist/server.d.mts', 'dist/server.d.cts', 'dist/utils.d.ts'])
+      );
+
+      assert.deepStrictEqual(entryPoints, [
+        { subpath: '.', types: 'dist/index.d.ts' },
+        { subpath: './server', types: 'dist/server.d.mts' },
+        { subpath: './utils', types: 'dist/utils.d.ts' },
+      ]);
+    });
+
+    it('should follow conditions in key order and skip missing targets', async () => {
+      const entryPoints = await resolveEntryPoints(
+        {
+          exports: {
+            browser: './dist/browser.js',
+            require: './dist/index.cjs',
+            import: { types: './dist/index.d.mts', default: './dist/index.mjs' },
+          },
+        },
+        existsIn(['dist/index.d.mts', 'dist/browser.d.ts'])
+      );
+
+      assert.deepStrictEqual(entryPoints, [{ subpath: '.', types: 'dist/index.d.mts' }]);
+    });
+
+    it('should keep subpaths without types', async () => {
+      const entryPoints = await resolveEntryPoints(
+        { exports: { '.': './index.js', './legacy': './legacy.js' } },
+        existsIn(['index.d.ts'])
+      );
+
+      assert.deepStrictEqual(entryPoints, [
+        { subpath: '.', types: 'index.d.ts' },
+        { subpath: './legacy' },
+      ]);
+    });
+
+    it('should redirect through typesVersions and add its subpaths', async () => {
+      const entryPoints = await resolveEntryPoints(
+        {
+          main: './lib/index.js',
+          typesVersions: {
+            '<4.0': { '*': ['ts3/*'] },
+            '*': {
+              'lib/index.d.ts': ['types/index.d.ts'],
+              server: ['types/server.d.ts'],
+            },
+          },
+        },
+        existsIn(['lib/index.d.ts', 'types/index.d.ts', 'types/server.d.ts'])
+      );
+
+      assert.deepStrictEqual(entryPoints, [
+        { subpath: '.', types: 'types/index.d.ts' },
+        { subpath: './server', types: 'types/server.d.ts' },
+      ]);
+    });
+
+    it('should fall back to the types field and index.d.ts', async () => {
+      assert.deepStrictEqual(
+        await resolveEntryPoints({ types: './types.d.ts' }, existsIn(['types.d.ts'])),
+        [{ subpath: '.', types: 'types.d.ts' }]
+      );
+      assert.deepStrictEqual(await resolveEntryPoints({}, existsIn(['index.d.ts'])), [
+        { subpath: '.', types: 'index.d.ts' },
+      ]);
+      assert.deepStrictEqual(await resolveEntryPoints({}, existsIn([])), [{ subpath: '.' }]);
+    });
+  });
+});
@@ -1,14 +1,19 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { join } from 'node:path';
-import { readFile, readdir, access } from 'node:fs/promises';
-import { generate, clean } from '../src/generator.js';
+import { readFile, readdir, access, writeFile, stat, mkdir, rm, rename } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { generate, clean, SKILLS_INDEX_VERSION } from '../src/generator.js';
 import {
   createTempDir,
   cleanupTempDir,
   createMockWorkspace,
+  createMockPackage,
+  createMockPnpmPackage,
+  createMockPnpProject,
   testPackages,
 } from './utils/fixtures.js';
+import type { SkillsIndexEntry } from '../src/types.js';
 
 describe('generator', async () => {
   describe('generate', async () => {
@@ -122,6 +127,44 @@ describe('generator', async () => {
       }
     });
 
+    it('should include transitive dependencies up to the depth option', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.express, testPackages.zod],
+          directDeps: ['express'],
+        });
+        await writeFile(
+          join(tempDir, 'package-lock.json'),
+          JSON.stringify({
+            lockfileVersion: 3,
+            packages: {
+              '': { dependencies: { express: '^4.21.0' } },
+              'node_modules/express': { version: '4.21.0', dependencies: { react: '^18' } },
+              'node_modules/react': { version: '18.3.1', dependencies: { zod: '^3' } },
+              'node_modules/zod': { version: '3.23.8' },
+            },
+          })
+        );
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir, depth: 1 });
+        assert.deepStrictEqual(result.skills.map(s => s.name).sort(), ['express', 'react']);
+
+        const index = await readFile(join(outputDir, '_index.md'), 'utf-8');
+        assert.ok(index.includes('_(pulled in by express)_'));
+
+        const direct = await generate({ cwd: tempDir, output: outputDir, depth: 0 });
+        assert.deepStrictEqual(
+          direct.skills.map(s => s.name),
+          ['express']
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
     it('should skip packages without any content', async () => {
       const tempDir = await createTempDir();
       try {
@@ -418,6 +461,932 @@ describe('generator', async () => {
     });
   });
 
+  describe('pnpm virtual store', async () => {
+    it('should include transitive packages from .pnpm', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react],
+          directDeps: ['react'],
+        });
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockPnpmPackage(nodeModules, testPackages.react);
+        await createMockPnpmPackage(nodeModules, testPackages.zod);
+
+        const result = await generate({ cwd: tempDir, output: join(tempDir, 'skills') });
+
+        assert.deepStrictEqual(result.skills.map(s => s.name).sort(), ['react', 'zod']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should skip the virtual store with directOnly', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react],
+          directDeps: ['react', 'zod'],
+        });
+        await createMockPnpmPackage(join(tempDir, 'node_modules'), testPackages.zod);
+
+        const result = await generate({
+          cwd: tempDir,
+          output: join(tempDir, 'skills'),
+          directOnly: true,
+        });
+
+        assert.deepStrictEqual(
+          result.skills.map(s => s.name),
+          ['react']
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe("yarn plug'n'play", async () => {
+    it('should generate skills from the Yarn cache without node_modules', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockPnpProject(tempDir, [testPackages.react, testPackages.zod], {
+          directDeps: ['react'],
+        });
+        const outputDir = join(tempDir, 'skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+        assert.deepStrictEqual(result.skills.map(s => s.name).sort(), ['react', 'zod']);
+
+        const content = await readFile(join(outputDir, 'react/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('React is a JavaScript library'));
+
+        const direct = await generate({ cwd: tempDir, output: outputDir, directOnly: true });
+        assert.deepStrictEqual(
+          direct.skills.map(s => s.name),
+          ['react']
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('per-workspace skill sets', async () => {
+    const createMonorepo = async (root: string) => {
+      await createMockWorkspace({
+        root,
+        packages: [testPackages.react, testPackages.zod],
+        workspaceConfig: { type: 'npm', packages: ['apps/*'] },
+        directDeps: ['zod'],
+      });
+      for (const [app, dep] of [
+        ['web', 'react'],
+        ['api', 'express'],
+      ]) {
+        await mkdir(join(root, 'apps', app), { recursive: true });
+        await writeFile(
+          join(root, 'apps', app, 'package.json'),
+          JSON.stringify({ name: `@acme/${app}`, dependencies: { [dep]: '*' } })
+        );
+      }
+      await createMockPackage(join(root, 'apps/api/node_modules'), testPackages.express);
+    };
+
+    it('should write each workspace its own skills from its own dependencies', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMonorepo(tempDir);
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir, perWorkspace: 'package' });
+
+        assert.deepStrictEqual(
+          result.skills.map(s => s.name),
+          ['zod']
+        );
+        const sets = Object.fromEntries(
+          (result.workspaces ?? []).map(set => [set.path, set.result?.skills.map(s => s.name)])
+        );
+        assert.deepStrictEqual(sets, { 'apps/api': ['express'], 'apps/web': ['react'] });
+
+        await access(join(tempDir, 'apps/web/.claude/skills/v-skills/react/SKILL.md'));
+        await access(join(tempDir, 'apps/api/.claude/skills/v-skills/express/SKILL.md'));
+
+        const index = await readFile(join(outputDir, '_index.md'), 'utf-8');
+        assert.ok(
+          index.includes(
+            '| @acme/web | apps/web | [_index.md](../../../apps/web/.claude/skills/v-skills/_index.md) |'
+          )
+        );
+
+        await clean({ cwd: tempDir, output: outputDir, perWorkspace: 'package' });
+        await assert.rejects(() => access(join(tempDir, 'apps/web/.claude/skills/v-skills')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should namespace workspace skill sets under the root output', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMonorepo(tempDir);
+        const outputDir = join(tempDir, 'skills');
+
+        await generate({ cwd: tempDir, output: outputDir, perWorkspace: 'root' });
+        // A second run must keep the workspace sets nested in the root output
+        await generate({ cwd: tempDir, output: outputDir, perWorkspace: 'root' });
+
+        await access(join(outputDir, '_workspaces/apps/api/express/SKILL.md'));
+        const index = await readFile(join(outputDir, '_index.md'), 'utf-8');
+        assert.ok(index.includes('[_index.md](_workspaces/apps/api/_index.md)'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('internal packages', async () => {
+    it('should document workspace packages from their source exports', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.zod],
+          workspaceConfig: { type: 'npm', packages: ['packages/*'] },
+          directDeps: ['zod'],
+        });
+        const uiDir = join(tempDir, 'packages', 'ui');
+        await mkdir(join(uiDir, 'src'), { recursive: true });
+        await writeFile(
+          join(uiDir, 'package.json'),
+          JSON.stringify({ name: '@acme/ui', version: '0.1.0', main: './dist/index.js' })
+        );
+        await writeFile(
+          join(uiDir, 'src', 'index.ts'),
+          '/**\n * Render a button\n */\nexport function Button(label: string): string {\n  return label;\n}\n'
+        );
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+
+        assert.deepStrictEqual(result.skills.map(s => s.name).sort(), ['@acme/ui', 'zod']);
+
+        const skill = await readFile(join(outputDir, '@acme/ui/SKILL.md'), 'utf-8');
+        assert.ok(skill.includes('**Internal:** workspace package'));
+        assert.ok(skill.includes('## API'));
+        assert.ok(skill.includes('### `Button`'));
+        assert.ok(skill.includes('function Button(label: string): string'));
+        assert.ok(skill.includes('Render a button'));
+
+        const index = await readFile(join(outputDir, '_index.md'), 'utf-8');
+        assert.ok(index.includes('ui (internal)'));
+        assert.ok(index.includes('- **Internal Packages:** 1'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('multiple versions', async () => {
+    it('should document every installed version with allVersions', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const v5 = { ...testPackages.react, name: 'react-router', version: '5.3.4' };
+        const v6 = { ...testPackages.react, name: 'react-router', version: '6.22.0' };
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [v6, testPackages.zod],
+          workspaceConfig: { type: 'npm', packages: ['apps/*'] },
+        });
+        for (const [app, range] of [
+          ['app-a', '^5'],
+          ['app-b', '^6'],
+        ]) {
+          await mkdir(join(tempDir, 'apps', app), { recursive: true });
+          await writeFile(
+            join(tempDir, 'apps', app, 'package.json'),
+            JSON.stringify({ name: app, dependencies: { 'react-router': range } })
+          );
+        }
+        await createMockPackage(join(tempDir, 'apps/app-a/node_modules'), v5);
+        const outputDir = join(tempDir, 'skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir, allVersions: true });
+        assert.deepStrictEqual(result.skills.map(s => `${s.name}@${s.version}`).sort(), [
+          'react-router@5.3.4',
+          'react-router@6.22.0',
+          'zod@3.23.8',
+        ]);
+
+        await access(join(outputDir, 'react-router/5.3.4/SKILL.md'));
+        await access(join(outputDir, 'react-router/6.22.0/SKILL.md'));
+        const selector = await readFile(join(outputDir, 'react-router/SKILL.md'), 'utf-8');
+        assert.ok(selector.includes('| 5.3.4 | app-a | [SKILL.md](./5.3.4/SKILL.md) |'));
+        assert.ok(selector.includes('| 6.22.0 | app-b | [SKILL.md](./6.22.0/SKILL.md) |'));
+
+        const index = await readFile(join(outputDir, '_index.md'), 'utf-8');
+        assert.ok(index.includes('| [react-router](./react-router/SKILL.md) | 6.22.0, 5.3.4 |'));
+        assert.ok(
+          index.includes('| [react-router](./react-router/5.3.4/SKILL.md) | 5.3.4 | app-a |')
+        );
+
+        // Without the option, the first version found wins again
+        await generate({ cwd: tempDir, output: outputDir });
+        const single = await readFile(join(outputDir, 'react-router/SKILL.md'), 'utf-8');
+        assert.ok(single.includes('<!-- v-skills: react-router@6.22.0 -->'));
+        await assert.rejects(() => access(join(outputDir, 'react-router/5.3.4')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('size limits', async () => {
+    it('should cut SKILL.md files to the package limits and report token counts', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [
+            testPackages.zod,
+            {
+              ...testPackages.express,
+              readme:
+                '# express\n\n## Installation\n\nnpm install express\n\n## Contributors\n\n' +
+                '- someone who helped\n'.repeat(500),
+            },
+          ],
+        });
+
+        const result = await generate({
+          cwd: tempDir,
+          output: outputDir,
+          packageLimits: { express: { maxTokens: 400 } },
+          sanitize: false,
+        });
+
+        const express = result.skills.find(skill => skill.name === 'express');
+        const zod = result.skills.find(skill => skill.name === 'zod');
+        assert.strictEqual(express?.truncated, true);
+        assert.ok(express.tokens !== undefined && express.tokens <= 400);
+        assert.strictEqual(zod?.truncated, undefined);
+        assert.ok((zod?.tokens ?? 0) > 0);
+
+        const content = await readFile(join(outputDir, 'express/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('npm install express'));
+        assert.ok(content.includes('*[Truncated to fit the size limit, see [README.md]('));
+        assert.ok(!content.includes('- someone who helped\n'.repeat(500)));
+
+        // Unchanged skills still report their token count
+        const rerun = await generate({
+          cwd: tempDir,
+          output: outputDir,
+          packageLimits: { express: { maxTokens: 400 } },
+          sanitize: false,
+        });
+        assert.strictEqual(rerun.changes.unchanged, 2);
+        assert.strictEqual(
+          rerun.skills.find(skill => skill.name === 'express')?.tokens,
+          express.tokens
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('split', async () => {
+    it('should write reference files and remove them when split is turned off', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.express] });
+        await writeFile(
+          join(tempDir, 'node_modules/express/CHANGELOG.md'),
+          '# Changelog\n\n## 4.18.2\n\n- fixed a bug\n'
+        );
+
+        const result = await generate({ cwd: tempDir, output: outputDir, split: true });
+        const express = result.skills.find(skill => skill.name === 'express');
+        assert.strictEqual(express?.references?.length, 2);
+
+        const content = await readFile(join(outputDir, 'express/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('## Reference Files'));
+        assert.ok(!content.includes('fixed a bug'));
+        const changelog = await readFile(
+          join(outputDir, 'express/reference/changelog.md'),
+          'utf-8'
+        );
+        assert.ok(changelog.includes('- fixed a bug'));
+
+        const rerun = await generate({ cwd: tempDir, output: outputDir, split: true });
+        assert.strictEqual(rerun.changes.unchanged, 1);
+
+        // An edited reference file is regenerated
+        await writeFile(join(outputDir, 'express/reference/readme.md'), 'edited');
+        const edited = await generate({ cwd: tempDir, output: outputDir, split: true });
+        assert.strictEqual(edited.changes.updated, 1);
+
+        await generate({ cwd: tempDir, output: outputDir });
+        await assert.rejects(access(join(outputDir, 'express/reference')));
+        const unsplit = await readFile(join(outputDir, 'express/SKILL.md'), 'utf-8');
+        assert.ok(unsplit.includes('fixed a bug'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('upgrades', async () => {
+    it('should note version changes since the previous generation', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.zod, testPackages.express],
+        });
+        const first = await generate({ cwd: tempDir, output: outputDir });
+        assert.strictEqual(first.versionChanges, undefined);
+
+        // zod gets a major upgrade, express is uninstalled
+        await rm(join(nodeModules, 'express'), { recursive: true });
+        await createMockPackage(nodeModules, { ...testPackages.zod, version: '4.0.0' });
+        await writeFile(
+          join(nodeModules, 'zod/CHANGELOG.md'),
+          '# Changelog\n\n## 4.0.0\n\n- removed `z.promise()`\n\n## 3.24.0\n\n- added `z.file()`\n\n## 3.23.8\n\n- old fix\n'
+        );
+
+        const second = await generate({ cwd: tempDir, output: outputDir });
+        assert.deepStrictEqual(second.versionChanges, {
+          upgraded: [{ name: 'zod', from: '3.23.8', to: '4.0.0', breaking: true }],
+          downgraded: [],
+          added: [],
+          removed: [{ name: 'express', from: '4.21.0' }],
+        });
+
+        const upgrades = await readFile(join(outputDir, 'UPGRADES.md'), 'utf-8');
+        assert.ok(upgrades.includes('### zod: 3.23.8 → 4.0.0 **BREAKING**'));
+        assert.ok(upgrades.includes('#### 4.0.0 **BREAKING**\n\n- removed `z.promise()`'));
+        assert.ok(upgrades.includes('#### 3.24.0\n\n- added `z.file()`'));
+        assert.ok(!upgrades.includes('old fix'));
+        assert.ok(!upgrades.includes('express'));
+
+        const skill = await readFile(join(outputDir, 'zod/SKILL.md'), 'utf-8');
+        assert.ok(skill.includes('## Changes since 3.23.8'));
+        assert.ok(skill.includes('Upgraded from 3.23.8 to 4.0.0, with **breaking changes**.'));
+
+        // The note stays until the version changes again, other changes don't replace it
+        await createMockPackage(nodeModules, testPackages.react);
+        const third = await generate({ cwd: tempDir, output: outputDir });
+        assert.strictEqual(third.changes.unchanged, 1);
+        assert.deepStrictEqual(third.versionChanges?.upgraded, []);
+        assert.ok(
+          (await readFile(join(outputDir, 'zod/SKILL.md'), 'utf-8')).includes(
+            '## Changes since 3.23.8'
+          )
+        );
+        assert.strictEqual(await readFile(join(outputDir, 'UPGRADES.md'), 'utf-8'), upgrades);
+
+        // Without packages to note, UPGRADES.md is removed
+        await rm(join(nodeModules, 'zod'), { recursive: true });
+        await generate({ cwd: tempDir, output: outputDir });
+        await assert.rejects(access(join(outputDir, 'UPGRADES.md')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should render the changelog of the upgraded version with allVersions', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const v5 = { ...testPackages.react, name: 'react-router', version: '5.3.4' };
+        const v6 = { ...testPackages.react, name: 'react-router', version: '6.22.0' };
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [v6],
+          workspaceConfig: { type: 'npm', packages: ['apps/*'] },
+        });
+        await mkdir(join(tempDir, 'apps/app-a'), { recursive: true });
+        await writeFile(
+          join(tempDir, 'apps/app-a/package.json'),
+          JSON.stringify({ name: 'app-a', dependencies: { 'react-router': '^5' } })
+        );
+        const nestedModules = join(tempDir, 'apps/app-a/node_modules');
+        await createMockPackage(nestedModules, v5);
+        await writeFile(
+          join(tempDir, 'node_modules/react-router/CHANGELOG.md'),
+          '# Changelog\n\n## 6.22.0\n\n- added data routers\n'
+        );
+        await writeFile(
+          join(nestedModules, 'react-router/CHANGELOG.md'),
+          '# Changelog\n\n## 5.3.4\n\n- fixed nested routes\n\n## 5.0.0\n\n- old release\n'
+        );
+        const outputDir = join(tempDir, 'skills');
+        await generate({ cwd: tempDir, output: outputDir, allVersions: true });
+
+        // Only the older version remembers an upgrade
+        const manifestPath = join(outputDir, '.v-skills-manifest.json');
+        const manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+        manifest.packages['react-router/5.3.4/SKILL.md'].previousVersion = '5.0.0';
+        await writeFile(manifestPath, JSON.stringify(manifest));
+
+        await generate({ cwd: tempDir, output: outputDir, allVersions: true });
+        const upgrades = await readFile(join(outputDir, 'UPGRADES.md'), 'utf-8');
+        assert.ok(upgrades.includes('### react-router: 5.0.0 → 5.3.4'));
+        assert.ok(upgrades.includes('#### 5.3.4\n\n- fixed nested routes'));
+        assert.ok(!upgrades.includes('added data routers'));
+        assert.ok(!upgrades.includes('old release'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('targets', async () => {
+    it('should write the selected targets only', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        const result = await generate({
+          cwd: tempDir,
+          output: outputDir,
+          targets: ['cursor', 'agents-md'],
+        });
+
+        assert.deepStrictEqual(
+          result.targets?.map(target => target.name),
+          ['cursor', 'agents-md']
+        );
+        await access(join(tempDir, '.cursor/rules/v-skills/react.mdc'));
+        await access(join(outputDir, 'react/SKILL.md'));
+        await assert.rejects(access(join(outputDir, 'CLAUDE.md')));
+        const agents = await readFile(join(tempDir, 'AGENTS.md'), 'utf-8');
+        assert.ok(agents.includes('[react](.claude/skills/v-skills/react/SKILL.md)'));
+        const gitignore = await readFile(join(tempDir, '.gitignore'), 'utf-8');
+        assert.ok(gitignore.includes('.cursor/rules/v-skills/'));
+
+        await clean({ cwd: tempDir, output: outputDir });
+        await assert.rejects(access(join(tempDir, '.cursor/rules/v-skills')));
+        await assert.rejects(access(join(tempDir, 'AGENTS.md')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should skip the skill folders without a target that needs them', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        const result = await generate({ cwd: tempDir, output: outputDir, targets: ['copilot'] });
+
+        assert.strictEqual(result.skills.length, 0);
+        await assert.rejects(access(outputDir));
+        await access(join(tempDir, '.github/instructions/v-skills-react.instructions.md'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should remove the files of targets that are no longer selected', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        await writeFile(join(tempDir, 'AGENTS.md'), '# Agents\n');
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+
+        await generate({
+          cwd: tempDir,
+          output: outputDir,
+          targets: ['claude-skills', 'cursor', 'agents-md'],
+        });
+        await generate({ cwd: tempDir, output: outputDir, targets: ['claude-skills'] });
+
+        await assert.rejects(access(join(tempDir, '.cursor/rules/v-skills')));
+        assert.strictEqual(await readFile(join(tempDir, 'AGENTS.md'), 'utf-8'), '# Agents\n');
+        await access(join(outputDir, 'react/SKILL.md'));
+
+        await generate({ cwd: tempDir, output: outputDir, targets: ['windsurf'] });
+
+        await assert.rejects(access(outputDir));
+        await access(join(tempDir, '.windsurf/rules/v-skills-react.md'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should reject unknown targets', async () => {
+      await assert.rejects(
+        generate({ targets: ['emacs' as never] }),
+        /Unknown output target "emacs"/
+      );
+    });
+  });
+
+  describe('skills.json', async () => {
+    it('should write a machine-readable index of the skills', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.zod, testPackages.express],
+          directDeps: ['express', 'zod'],
+        });
+
+        await generate({ cwd: tempDir, output: outputDir });
+
+        const index = JSON.parse(await readFile(join(outputDir, 'skills.json'), 'utf-8'));
+        assert.strictEqual(index.schemaVersion, SKILLS_INDEX_VERSION);
+        assert.deepStrictEqual(
+          index.packages.map((pkg: SkillsIndexEntry) => pkg.name),
+          ['express', 'zod']
+        );
+
+        const [express] = index.packages as SkillsIndexEntry[];
+        assert.strictEqual(express.description, testPackages.express.description);
+        assert.strictEqual(express.skillPath, 'express/SKILL.md');
+        assert.strictEqual(express.sourcePath, '../node_modules/express');
+        assert.strictEqual(express.direct, true);
+        assert.deepStrictEqual(express.usedBy, ['test-project']);
+        const skill = await readFile(join(outputDir, 'express/SKILL.md'));
+        assert.strictEqual(express.contentHash, createHash('sha256').update(skill).digest('hex'));
+        assert.ok(express.tokens! > 0);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('llms.txt', async () => {
+    it('should write llms.txt and llms-full.txt when enabled', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.express],
+        });
+
+        await generate({ cwd: tempDir, output: outputDir, llmsTxt: true });
+
+        const index = await readFile(join(outputDir, 'llms.txt'), 'utf-8');
+        assert.ok(index.includes('- [express@4.21.0](express/SKILL.md)'));
+        const full = await readFile(join(outputDir, 'llms-full.txt'), 'utf-8');
+        assert.ok(full.indexOf('# express@4.21.0') < full.indexOf('# react@18.3.1'));
+
+        await generate({ cwd: tempDir, output: outputDir });
+        await assert.rejects(access(join(outputDir, 'llms.txt')));
+        await assert.rejects(access(join(outputDir, 'llms-full.txt')));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('dry run', async () => {
+    it('should plan the files of a first generation without writing them', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.express],
+        });
+
+        const result = await generate({ cwd: tempDir, dryRun: true, targets: ['cursor'] });
+
+        await assert.rejects(access(join(tempDir, '.cursor')));
+        await assert.rejects(access(join(tempDir, '.gitignore')));
+        const paths = result.plan!.map(operation => operation.path);
+        assert.ok(paths.includes('.cursor/rules/v-skills/react.mdc'));
+        assert.ok(paths.includes('.gitignore'));
+        const react = result.plan!.find(op => op.path === '.cursor/rules/v-skills/react.mdc')!;
+        assert.strictEqual(react.type, 'add');
+        assert.strictEqual(react.bytes, Buffer.byteLength(react.content!));
+        assert.ok(react.tokens > 0);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should plan changed and removed skills against the current output', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.express, testPackages.zod],
+        });
+        const output = join(tempDir, '.claude/skills/v-skills');
+        await generate({ cwd: tempDir });
+        const before = await readFile(join(output, 'react/SKILL.md'), 'utf-8');
+
+        const unchanged = await generate({ cwd: tempDir, dryRun: true });
+        assert.deepStrictEqual(unchanged.plan, []);
+
+        const result = await generate({
+          cwd: tempDir,
+          dryRun: true,
+          exclude: ['zod'],
+          maxTokens: 50,
+        });
+
+        const react = result.plan!.find(
+          op => op.path === '.claude/skills/v-skills/react/SKILL.md'
+        )!;
+        assert.strictEqual(react.type, 'change');
+        assert.strictEqual(
+          react.bytes,
+          Buffer.byteLength(react.content!) - Buffer.byteLength(before)
+        );
+        const zod = result.plan!.find(op => op.path === '.claude/skills/v-skills/zod/SKILL.md')!;
+        assert.strictEqual(zod.type, 'remove');
+        assert.strictEqual(zod.content, undefined);
+        assert.strictEqual(await readFile(join(output, 'react/SKILL.md'), 'utf-8'), before);
+        await access(join(output, 'zod/SKILL.md'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('deterministic output', async () => {
+    /**
+     * Read every file in a folder, keyed by path relative to it
+     */
+    async function readTree(dir: string, prefix = ''): Promise<Record<string, string>> {
+      const files: Record<string, string> = {};
+      for (const entry of await readdir(join(dir, prefix), { withFileTypes: true })) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          Object.assign(files, await readTree(dir, path));
+        } else {
+          files[path] = await readFile(join(dir, path), 'utf-8');
+        }
+      }
+      return files;
+    }
+
+    /**
+     * Create a workspace project, adding packages, docs and workspace folders
+     * in the given order (readdir returns them in different orders)
+     */
+    async function createProject(root: string, reverse: boolean): Promise<void> {
+      const order = <T>(items: T[]) => (reverse ? [...items].reverse() : items);
+      await createMockWorkspace({
+        root,
+        workspaceConfig: { type: 'npm', packages: ['packages/*'] },
+        directDeps: ['react', 'express', 'zod'],
+      });
+      const nodeModules = join(root, 'node_modules');
+      for (const pkg of order([testPackages.react, testPackages.express, testPackages.zod])) {
+        await createMockPackage(nodeModules, pkg);
+      }
+      for (const name of order(['guide.md', 'api.md', 'faq.md'])) {
+        await mkdir(join(nodeModules, 'zod/docs'), { recursive: true });
+        await writeFile(join(nodeModules, 'zod/docs', name), `# ${name}`);
+      }
+      for (const name of order(['web', 'api', 'ui'])) {
+        await mkdir(join(root, 'packages', name), { recursive: true });
+        await writeFile(
+          join(root, 'packages', name, 'package.json'),
+          JSON.stringify({ name: `@acme/${name}`, version: '1.0.0', dependencies: { zod: '*' } })
+        );
+        await writeFile(join(root, 'packages', name, 'README.md'), `# @acme/${name}`);
+      }
+    }
+
+    it('should write the same bytes on every run, without dates', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createProject(tempDir, false);
+        const output = join(tempDir, '.claude/skills/v-skills');
+
+        await generate({ cwd: tempDir, llmsTxt: true });
+        const first = await readTree(output);
+        await rm(output, { recursive: true });
+        await generate({ cwd: tempDir, llmsTxt: true });
+
+        assert.deepStrictEqual(await readTree(output), first);
+        assert.ok(
+          first['react/SKILL.md'].includes('*Auto-generated by v-skills. Do not edit manually.*')
+        );
+        assert.ok(!first['_index.md'].includes('Last Updated'));
+        for (const [path, content] of Object.entries(first)) {
+          assert.ok(!/\d{4}-\d{2}-\d{2}/.test(content), `${path} has a date`);
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should not depend on the order of folders on disk', async () => {
+      const first = await createTempDir();
+      const second = await createTempDir();
+      try {
+        await createProject(first, false);
+        await createProject(second, true);
+
+        await generate({ cwd: first, targets: ['claude-skills', 'cursor'] });
+        await generate({ cwd: second, targets: ['claude-skills', 'cursor'] });
+
+        assert.deepStrictEqual(await readTree(second), await readTree(first));
+      } finally {
+        await cleanupTempDir(first);
+        await cleanupTempDir(second);
+      }
+    });
+
+    it('should stamp the date of SOURCE_DATE_EPOCH, or today when turned off', async () => {
+      const tempDir = await createTempDir();
+      const epoch = process.env.SOURCE_DATE_EPOCH;
+      try {
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+        const output = join(tempDir, '.claude/skills/v-skills');
+
+        process.env.SOURCE_DATE_EPOCH = '1700000000';
+        await generate({ cwd: tempDir });
+        const skill = await readFile(join(output, 'react/SKILL.md'), 'utf-8');
+        assert.ok(skill.includes('*Auto-generated by v-skills on 2023-11-14.'));
+        const index = await readFile(join(output, '_index.md'), 'utf-8');
+        assert.ok(index.includes('- **Last Updated:** 2023-11-14'));
+
+        delete process.env.SOURCE_DATE_EPOCH;
+        await generate({ cwd: tempDir, deterministic: false });
+        const today = new Date().toISOString().split('T')[0];
+        const dated = await readFile(join(output, 'react/SKILL.md'), 'utf-8');
+        assert.ok(dated.includes(`*Auto-generated by v-skills on ${today}.`));
+      } finally {
+        if (epoch === undefined) delete process.env.SOURCE_DATE_EPOCH;
+        else process.env.SOURCE_DATE_EPOCH = epoch;
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('incremental generation', async () => {
+    it('should report all skills as added on first run', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.zod],
+        });
+
+        const result = await generate({ cwd: tempDir, output: join(tempDir, 'skills') });
+
+        assert.deepStrictEqual(result.changes, { added: 2, updated: 0, removed: 0, unchanged: 0 });
+        await access(join(tempDir, 'skills', '.v-skills-manifest.json'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should skip unchanged packages on re-run', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.zod],
+        });
+
+        await generate({ cwd: tempDir, output: outputDir });
+        const before = await stat(join(outputDir, 'react/SKILL.md'));
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+        const after = await stat(join(outputDir, 'react/SKILL.md'));
+
+        assert.deepStrictEqual(result.changes, { added: 0, updated: 0, removed: 0, unchanged: 2 });
+        assert.strictEqual(result.skills.length, 2);
+        assert.strictEqual(after.mtimeMs, before.mtimeMs);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should rewrite packages whose sources changed', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.zod],
+        });
+
+        await generate({ cwd: tempDir, output: outputDir });
+        await writeFile(join(tempDir, 'node_modules/react/README.md'), '# React\n\nNew docs');
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+
+        assert.deepStrictEqual(result.changes, { added: 0, updated: 1, removed: 0, unchanged: 1 });
+        const content = await readFile(join(outputDir, 'react/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('New docs'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should rewrite packages that moved on disk', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          workspaceConfig: { type: 'npm', packages: ['packages/*', 'libs/*'] },
+        });
+        await mkdir(join(tempDir, 'packages/ui'), { recursive: true });
+        await writeFile(
+          join(tempDir, 'packages/ui/package.json'),
+          JSON.stringify({ name: '@acme/ui', version: '1.0.0' })
+        );
+        await writeFile(join(tempDir, 'packages/ui/README.md'), '# @acme/ui');
+
+        await generate({ cwd: tempDir, output: outputDir });
+        await mkdir(join(tempDir, 'libs'));
+        await rename(join(tempDir, 'packages/ui'), join(tempDir, 'libs/ui'));
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+
+        assert.strictEqual(result.changes.updated, 1);
+        const content = await readFile(join(outputDir, '@acme/ui/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('[source](../../../libs/ui)'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should rewrite skill files edited by hand', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+
+        await generate({ cwd: tempDir, output: outputDir });
+        await writeFile(join(outputDir, 'react/SKILL.md'), 'tampered');
+
+        const result = await generate({ cwd: tempDir, output: outputDir });
+
+        assert.strictEqual(result.changes.updated, 1);
+        const content = await readFile(join(outputDir, 'react/SKILL.md'), 'utf-8');
+        assert.ok(content.includes('# react'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should rewrite everything when render options change', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+
+        await generate({ cwd: tempDir, output: outputDir });
+        const result = await generate({
+          cwd: tempDir,
+          output: outputDir,
+          frontmatter: { 'allowed-tools': ['Read'] },
+        });
+
+        assert.strictEqual(result.changes.updated, 1);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should delete skills of removed packages including empty scope folders', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await createMockWorkspace({
+          root: tempDir,
+          packages: [testPackages.react, testPackages.scopedPackage],
+        });
+
+        await generate({ cwd: tempDir, output: outputDir });
+        const result = await generate({
+          cwd: tempDir,
+          output: outputDir,
+          exclude: ['@company/*'],
+        });
+
+        assert.deepStrictEqual(result.changes, { added: 0, updated: 0, removed: 1, unchanged: 1 });
+        const files = await readdir(outputDir);
+        assert.ok(!files.includes('@company'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
   describe('clean', async () => {
     it('should remove generated skills directory', async () => {
       const tempDir = await createTempDir();
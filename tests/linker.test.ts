@@ -2,7 +2,15 @@ import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { join } from 'node:path';
 import { readFile } from 'node:fs/promises';
-import { createSkillFile, createSkillFileName } from '../src/linker.js';
+import {
+  createSkillFile,
+  createSkillFileName,
+  createSkillName,
+  generateMarkdown,
+  generateVersionSelector,
+  getGenerationDate,
+  getSkillTargetPath,
+} from '../src/linker.js';
 import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
 import type { PackageInfo } from '../src/types.js';
 
@@ -24,6 +32,417 @@ describe('linker', async () => {
     });
   });
 
+  describe('createSkillName', async () => {
+    it('should keep simple package names', () => {
+      assert.strictEqual(createSkillName('react'), 'react');
+    });
+
+    it('should fold scopes and separators into hyphens, with a hash of the name', () => {
+      assert.strictEqual(createSkillName('@tanstack/react-query'), 'tanstack-react-query-8e213e');
+      assert.strictEqual(createSkillName('lodash.debounce'), 'lodash-debounce-ad5b8e');
+      assert.strictEqual(createSkillName('SomePkg_Name'), 'somepkg-name-c4de16');
+    });
+
+    it('should give packages that fold the same way different names', () => {
+      assert.strictEqual(createSkillName('babel-core'), 'babel-core');
+      assert.strictEqual(createSkillName('@babel/core'), 'babel-core-a37d5a');
+    });
+
+    it('should limit names to 64 characters', () => {
+      const name = createSkillName('a'.repeat(100));
+      assert.strictEqual(name.length, 64);
+    });
+  });
+
+  describe('frontmatter', async () => {
+    it('should start SKILL.md with a frontmatter block', () => {
+      const pkg: PackageInfo = {
+        name: '@tanstack/react-query',
+        version: '5.0.0',
+        description: 'Hooks for fetching',
+        homepage: 'https://tanstack.com/query',
+        keywords: ['react', 'query'],
+        docs: {},
+      };
+
+      const content = generateMarkdown(pkg, '/tmp/skills/SKILL.md');
+
+      assert.ok(
+        content.startsWith(
+          [
+            '---',
+            'name: tanstack-react-query-8e213e',
+            'description: Hooks for fetching',
+            'version: "5.0.0"',
+            'keywords:',
+            '  - react',
+            '  - query',
+            'homepage: https://tanstack.com/query',
+            '---',
+            '<!-- v-skills: @tanstack/react-query@5.0.0 -->',
+          ].join('\n')
+        )
+      );
+    });
+
+    it('should escape descriptions with colons, quotes and newlines', () => {
+      const pkg: PackageInfo = {
+        name: 'tricky',
+        version: '1.0.0',
+        description: 'Parser: handles "quoted"\nvalues',
+        docs: {},
+      };
+
+      const content = generateMarkdown(pkg, '/tmp/skills/SKILL.md');
+      const line = content.split('\n').find(l => l.startsWith('description:'));
+
+      assert.ok(line);
+      assert.strictEqual(
+        JSON.parse(line.slice('description: '.length)),
+        'Parser: handles "quoted" values'
+      );
+    });
+
+    it('should fall back to a generic description', () => {
+      const pkg: PackageInfo = { name: 'bare', version: '1.0.0', docs: { readme: '# Bare' } };
+
+      const content = generateMarkdown(pkg, '/tmp/skills/SKILL.md');
+      assert.ok(content.includes('description: Documentation for the bare package.'));
+    });
+
+    it('should append custom fields without overriding built-ins', () => {
+      const pkg: PackageInfo = { name: 'react', version: '18.3.1', docs: { readme: '# React' } };
+
+      const content = generateMarkdown(pkg, '/tmp/skills/SKILL.md', {
+        frontmatter: { name: 'other', 'allowed-tools': ['Read', 'Grep'], user: false },
+      });
+
+      assert.ok(content.includes('name: react\n'));
+      assert.ok(!content.includes('name: other'));
+      assert.ok(content.includes('allowed-tools:\n  - Read\n  - Grep\nuser: false\n---'));
+    });
+  });
+
+  describe('API surface', async () => {
+    const surfacePackage = (count: number): PackageInfo => ({
+      name: 'lib',
+      version: '1.0.0',
+      packagePath: '/project/node_modules/lib',
+      docs: {
+        typesPath: '/project/node_modules/lib/dist/index.d.ts',
+        apiSurface: [
+          {
+            name: 'Client',
+            kind: 'class',
+            signature: 'class Client',
+            members: ['connect(url: string): void'],
+            description: 'A client. Reuse it.',
+            source: 'dist/index.d.ts',
+          },
+          ...Array.from({ length: count }, (_, i) => ({
+            name: `fn${i}`,
+            kind: 'function' as const,
+            signature: `function fn${i}(): void`,
+            deprecated: i === 0 || undefined,
+            source: 'dist/index.d.ts',
+          })),
+        ],
+      },
+    });
+
+    it('should group exports by kind with their first JSDoc sentence', () => {
+      const content = generateMarkdown(
+        surfacePackage(2),
+        '/project/.claude/skills/v-skills/lib/SKILL.md'
+      );
+
+      assert.ok(content.includes('## API Surface'));
+      assert.ok(
+        content.includes(
+          'Exports declared in [`dist/index.d.ts`](../../../../node_modules/lib/dist/index.d.ts):'
+        )
+      );
+      assert.ok(
+        content.includes(
+          '### Functions\n\n```ts\n/** @deprecated */\nfunction fn0(): void\n\nfunction fn1(): void\n```'
+        )
+      );
+      assert.ok(
+        content.includes(
+          '### Classes\n\n```ts\n/** A client. */\nclass Client {\n  connect(url: string): void;\n}\n```'
+        )
+      );
+    });
+
+    it('should only name the exports past the size limit', () => {
+      const content = generateMarkdown(
+        surfacePackage(60),
+        '/project/.claude/skills/v-skills/lib/SKILL.md'
+      );
+
+      assert.ok(content.includes('function fn48(): void'));
+      assert.ok(!content.includes('function fn49(): void'));
+      assert.ok(content.includes('*...and 11 more exports: `fn49`, `fn50`,'));
+    });
+  });
+
+  describe('size limits', async () => {
+    it('should cut the changelog before the README and link the full files', () => {
+      const pkg: PackageInfo = {
+        name: 'lib',
+        version: '1.0.0',
+        packagePath: '/project/node_modules/lib',
+        docs: {
+          readme: '# lib\n\n## Usage\n\n' + 'Call `lib()` to start.\n'.repeat(30),
+          readmePath: '/project/node_modules/lib/README.md',
+          changelog: '# Changelog\n\n' + '- fixed a bug\n'.repeat(40),
+          changelogPath: '/project/node_modules/lib/CHANGELOG.md',
+        },
+      };
+      const skillPath = '/project/.claude/skills/v-skills/lib/SKILL.md';
+
+      const full = generateMarkdown(pkg, skillPath);
+      const limited = generateMarkdown(pkg, skillPath, { limits: { maxBytes: 1200 } });
+
+      assert.ok(full.includes('fixed a bug'));
+      assert.ok(Buffer.byteLength(limited) <= 1200);
+      assert.ok(limited.includes('Call `lib()` to start.'));
+      assert.ok(limited.includes('Call `lib()` to start.\n'.repeat(30)));
+      assert.ok(!limited.includes('- fixed a bug\n'.repeat(40)));
+      assert.ok(
+        limited.includes(
+          '*[Truncated to fit the size limit, see [CHANGELOG.md](../../../../node_modules/lib/CHANGELOG.md)]*'
+        )
+      );
+      assert.ok(limited.endsWith('Do not edit manually.*'));
+    });
+  });
+
+  describe('split', async () => {
+    it('should list the README headings with links into the reference copy', () => {
+      const pkg: PackageInfo = {
+        name: 'lib',
+        version: '1.0.0',
+        docs: {
+          readme: [
+            '# lib',
+            '',
+            '## Getting Started',
+            '',
+            '```sh',
+            '# not a heading',
+            '```',
+            '',
+            '### Options & [Config](docs/config.md)',
+            '',
+            '## FAQ',
+            '',
+            '## FAQ',
+          ].join('\n'),
+          changelog: '# Changelog\n\n- fixed a bug\n',
+        },
+      };
+
+      const content = generateMarkdown(pkg, '/skills/lib/SKILL.md', { split: true });
+
+      assert.ok(
+        content.includes(
+          [
+            'The full README is in [reference/readme.md](reference/readme.md):',
+            '',
+            '- [Getting Started](reference/readme.md#getting-started)',
+            '  - [Options & Config](reference/readme.md#options--config)',
+            '- [FAQ](reference/readme.md#faq)',
+            '- [FAQ](reference/readme.md#faq-1)',
+          ].join('\n')
+        )
+      );
+      assert.ok(
+        content.includes('- [reference/changelog.md](reference/changelog.md): the changelog')
+      );
+      assert.ok(!content.includes('not a heading'));
+      assert.ok(!content.includes('fixed a bug'));
+    });
+
+    it('should write the README, API and changelog next to SKILL.md', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const pkg: PackageInfo = {
+          name: 'lib',
+          version: '1.0.0',
+          packagePath: join(tempDir, 'node_modules/lib'),
+          docs: {
+            readme: '# lib\n\n## Usage\n\nCall `lib()`.\n',
+            apiSurface: [
+              {
+                name: 'lib',
+                kind: 'function',
+                signature: 'function lib(): void',
+                source: 'index.d.ts',
+              },
+            ],
+          },
+        };
+
+        const skill = await createSkillFile(pkg, join(tempDir, 'skills'), { split: true });
+
+        assert.deepStrictEqual(
+          skill?.references?.map(reference => reference.targetPath),
+          [
+            join(tempDir, 'skills/lib/reference/readme.md'),
+            join(tempDir, 'skills/lib/reference/api.md'),
+          ]
+        );
+        const readme = await readFile(join(tempDir, 'skills/lib/reference/readme.md'), 'utf-8');
+        assert.ok(readme.includes('## Usage\n\nCall `lib()`.'));
+        const api = await readFile(join(tempDir, 'skills/lib/reference/api.md'), 'utf-8');
+        assert.ok(api.includes('# lib API'));
+        assert.ok(api.includes('function lib(): void'));
+        assert.ok(skill?.content?.includes('exported symbols with their signatures (1)'));
+        assert.ok(!skill?.content?.includes('function lib(): void'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('changelog', async () => {
+    it('should show the installed version and the versions before it', () => {
+      const pkg: PackageInfo = {
+        name: 'lib',
+        version: '1.2.0',
+        docs: {
+          changelog: '# Changelog\n',
+          changelogEntries: ['1.2.0', '1.1.0', '1.0.0'].map(version => ({
+            version,
+            title: version,
+            level: 2,
+            content: `- changes in ${version}`,
+            breaking: version === '1.0.0',
+          })),
+        },
+      };
+
+      const content = generateMarkdown(pkg, '/skills/lib/SKILL.md', { changelogVersions: 1 });
+
+      assert.ok(
+        content.includes(
+          [
+            'Releases up to the installed version (1.2.0):',
+            '',
+            '### 1.2.0',
+            '',
+            '- changes in 1.2.0',
+            '',
+            '### 1.1.0',
+          ].join('\n')
+        )
+      );
+      assert.ok(!content.includes('1.0.0'));
+      assert.ok(generateMarkdown(pkg, '/skills/lib/SKILL.md').includes('### 1.0.0 **BREAKING**'));
+    });
+  });
+
+  describe('entry points', async () => {
+    it('should list every entry point with its types', () => {
+      const pkg: PackageInfo = {
+        name: 'lib',
+        version: '1.0.0',
+        packagePath: '/project/node_modules/lib',
+        docs: {
+          entryPoints: [
+            { subpath: '.', typesPath: '/project/node_modules/lib/dist/index.d.ts' },
+            { subpath: './server', typesPath: '/project/node_modules/lib/dist/server.d.ts' },
+            { subpath: './legacy' },
+          ],
+        },
+      };
+
+      const content = generateMarkdown(pkg, '/project/.claude/skills/v-skills/lib/SKILL.md');
+
+      assert.ok(
+        content.includes(
+          [
+            '## Entry Points',
+            '',
+            '| Import | Types |',
+            '|--------|-------|',
+            '| `lib` | [`dist/index.d.ts`](../../../../node_modules/lib/dist/index.d.ts) |',
+            '| `lib/server` | [`dist/server.d.ts`](../../../../node_modules/lib/dist/server.d.ts) |',
+            '| `lib/legacy` | - |',
+          ].join('\n')
+        )
+      );
+    });
+  });
+
+  describe('archive links', async () => {
+    it('should link files inside a Yarn cache archive to unpkg', () => {
+      const archivePath = '/project/.yarn/cache/zod-npm-3.23.8-abc.zip';
+      const pkg: PackageInfo = {
+        name: 'zod',
+        version: '3.23.8',
+        archivePath,
+        packagePath: `${archivePath}/node_modules/zod`,
+        docs: {
+          readme: '# Zod',
+          typesPath: `${archivePath}/node_modules/zod/index.d.ts`,
+          additionalDocs: [{ name: 'API.md', path: `${archivePath}/node_modules/zod/API.md` }],
+        },
+      };
+
+      const content = generateMarkdown(pkg, '/project/skills/zod/SKILL.md');
+
+      assert.ok(
+        content.includes('[TypeScript Definitions](https://unpkg.com/zod@3.23.8/index.d.ts)')
+      );
+      assert.ok(content.includes('[API.md](https://unpkg.com/zod@3.23.8/API.md)'));
+    });
+
+    it('should show in-archive paths for files from other archives', () => {
+      const pkg: PackageInfo = {
+        name: 'express',
+        version: '4.21.0',
+        archivePath: '/p/.yarn/cache/express.zip',
+        packagePath: '/p/.yarn/cache/express.zip/node_modules/express',
+        docs: {
+          readme: '# Express',
+          typesPath: '/p/.yarn/cache/types-express.zip/node_modules/@types/express/index.d.ts',
+          typesFromDefinitelyTyped: true,
+        },
+      };
+
+      const content = generateMarkdown(pkg, '/p/skills/express/SKILL.md');
+
+      assert.ok(
+        content.includes(
+          'TypeScript Definitions (from DefinitelyTyped) (`node_modules/@types/express/index.d.ts` in Yarn cache)'
+        )
+      );
+    });
+  });
+
+  describe('getGenerationDate', async () => {
+    it('should use SOURCE_DATE_EPOCH, or no date in deterministic mode', () => {
+      const epoch = process.env.SOURCE_DATE_EPOCH;
+      try {
+        delete process.env.SOURCE_DATE_EPOCH;
+        assert.strictEqual(getGenerationDate(), undefined);
+        assert.match(getGenerationDate(false)!, /^\d{4}-\d{2}-\d{2}$/);
+
+        process.env.SOURCE_DATE_EPOCH = '0';
+        assert.strictEqual(getGenerationDate(), '1970-01-01');
+        assert.strictEqual(getGenerationDate(false), '1970-01-01');
+
+        process.env.SOURCE_DATE_EPOCH = 'yesterday';
+        assert.throws(() => getGenerationDate(), /SOURCE_DATE_EPOCH must be a number of seconds/);
+      } finally {
+        if (epoch === undefined) delete process.env.SOURCE_DATE_EPOCH;
+        else process.env.SOURCE_DATE_EPOCH = epoch;
+      }
+    });
+  });
+
   describe('createSkillFile', async () => {
     it('should create a skill file with content', async () => {
       const tempDir = await createTempDir();
@@ -209,4 +628,40 @@ describe('linker', async () => {
       }
     });
   });
+
+  describe('multiple versions', async () => {
+    const v5: PackageInfo = { name: 'react-router', version: '5.3.4', docs: { readme: '# v5' } };
+    const v6: PackageInfo = { name: 'react-router', version: '6.22.0', docs: { readme: '# v6' } };
+
+    it('should write versioned skills to name/version/SKILL.md', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const skill = await createSkillFile(v6, tempDir, { versioned: true });
+        assert.strictEqual(skill?.targetPath, join(tempDir, 'react-router', '6.22.0', 'SKILL.md'));
+        assert.ok(skill.content?.includes('name: react-router-6-22-0-ed2ce3'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should list every version, newest first, in the selector', () => {
+      const outputDir = '/project/skills';
+      const usage = new Map([
+        ['react-router@5.3.4', ['app-a']],
+        ['react-router@6.22.0', ['app-b', 'app-c']],
+      ]);
+
+      const content = generateVersionSelector([v5, v6], outputDir, usage);
+
+      assert.ok(content.startsWith('---\nname: react-router\n'));
+      assert.ok(
+        content.indexOf('| 6.22.0 | app-b, app-c | [SKILL.md](./6.22.0/SKILL.md) |') <
+          content.indexOf('| 5.3.4 | app-a | [SKILL.md](./5.3.4/SKILL.md) |')
+      );
+      assert.strictEqual(
+        getSkillTargetPath(v5, outputDir),
+        '/project/skills/react-router/SKILL.md'
+      );
+    });
+  });
 });
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { formatLlmsFullTxt, formatLlmsTxt } from '../src/llms.js';
+import type { PackageInfo } from '../src/types.js';
+
+const packages: PackageInfo[] = [
+  {
+    name: 'zod',
+    version: '3.22.4',
+    description: 'TypeScript-first schema validation',
+    depth: 0,
+    docs: { readme: '# Zod\n\n## Usage\n\n```ts\n# not a heading\n```' },
+  },
+  { name: 'loose-envify', version: '1.4.0', depth: 1 },
+  { name: '@acme/ui', version: '0.1.0', internal: true, depth: 1 },
+  { name: 'react', version: '18.3.1', depth: 0 },
+  { name: 'react', version: '17.0.2', depth: 0 },
+];
+
+describe('llms', async () => {
+  describe('formatLlmsTxt', async () => {
+    it('should list direct packages first and transitive ones as optional', () => {
+      const content = formatLlmsTxt(packages, '/project/skills', 'npm');
+
+      assert.ok(content.startsWith('# Dependency Documentation\n\n> Documentation of the 4 '));
+      assert.ok(content.includes('[llms-full.txt](llms-full.txt)'));
+      const [direct, optional] = content.split('## Optional');
+      assert.ok(
+        direct.includes(
+          '## Packages\n\n- [@acme/ui@0.1.0](@acme/ui/SKILL.md)\n' +
+            '- [react@17.0.2](react/17.0.2/SKILL.md)\n' +
+            '- [react@18.3.1](react/18.3.1/SKILL.md)\n' +
+            '- [zod@3.22.4](zod/SKILL.md): TypeScript-first schema validation\n'
+        )
+      );
+      assert.ok(optional.includes('- [loose-envify@1.4.0](loose-envify/SKILL.md)'));
+    });
+  });
+
+  describe('formatLlmsFullTxt', async () => {
+    it('should join the READMEs in a stable order with nested headings', () => {
+      const content = formatLlmsFullTxt(packages);
+
+      const order = [...content.matchAll(/^# (\S+)$/gm)].map(match => match[1]);
+      assert.deepStrictEqual(order, [
+        '@acme/ui@0.1.0',
+        'loose-envify@1.4.0',
+        'react@17.0.2',
+        'react@18.3.1',
+        'zod@3.22.4',
+      ]);
+      assert.ok(content.includes('> TypeScript-first schema validation\n\n## Zod\n\n### Usage'));
+      assert.ok(content.includes('```ts\n# not a heading\n```'));
+      assert.strictEqual(formatLlmsFullTxt([...packages].reverse()), content);
+    });
+
+    it('should cut READMEs to the size limits', () => {
+      const readme = `# Big\n\n## Usage\n\nUse it.\n\n## Examples\n\n${'Example text. '.repeat(500)}`;
+      const content = formatLlmsFullTxt(
+        [{ name: 'big', version: '1.0.0', docs: { readme } }],
+        () => ({ maxTokens: 200 })
+      );
+
+      assert.ok(content.includes('Use it.'));
+      assert.ok(content.includes('Truncated to fit the size limit'));
+      assert.ok(content.length < readme.length);
+    });
+  });
+});
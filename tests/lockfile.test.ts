@@ -0,0 +1,236 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import {
+  computeDepths,
+  getDependents,
+  parsePackageLock,
+  parsePnpmLock,
+  parseYarnLock,
+  readDependencyGraph,
+  type DependencyGraph,
+} from '../src/lockfile.js';
+import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
+
+const depsOf = (graph: DependencyGraph, name: string) =>
+  [...(graph.dependencies.get(name) ?? [])].sort();
+
+describe('lockfile', async () => {
+  describe('parsePackageLock', async () => {
+    it('should read the flat packages map (v2/v3)', () => {
+      const graph = parsePackageLock(
+        JSON.stringify({
+          lockfileVersion: 3,
+          packages: {
+            '': { name: 'app', dependencies: { express: '^4' }, devDependencies: { vitest: '^1' } },
+            'packages/ui': { name: 'ui', dependencies: { react: '^18' } },
+            'node_modules/ui': { resolved: 'packages/ui', link: true },
+            'node_modules/express': { version: '4.21.0', dependencies: { debug: '2.6.9' } },
+            'node_modules/express/node_modules/debug': {
+              version: '2.6.9',
+              dependencies: { ms: '2.0.0' },
+            },
+            'node_modules/react': {
+              version: '18.3.1',
+              dependencies: { 'loose-envify': '^1.1.0' },
+              devDependencies: { jest: '*' },
+            },
+          },
+        })
+      );
+
+      assert.deepStrictEqual([...graph.roots].sort(), ['express', 'react', 'vitest']);
+      assert.deepStrictEqual(depsOf(graph, 'express'), ['debug']);
+      assert.deepStrictEqual(depsOf(graph, 'debug'), ['ms']);
+      assert.deepStrictEqual(depsOf(graph, 'react'), ['loose-envify']);
+      assert.deepStrictEqual(depsOf(graph, 'ui'), ['react']);
+    });
+
+    it('should read the nested dependencies tree (v1)', () => {
+      const graph = parsePackageLock(
+        JSON.stringify({
+          lockfileVersion: 1,
+          dependencies: {
+            express: {
+              version: '4.21.0',
+              requires: { debug: '2.6.9' },
+              dependencies: { debug: { version: '2.6.9', requires: { ms: '2.0.0' } } },
+            },
+          },
+        })
+      );
+
+      assert.deepStrictEqual(depsOf(graph, 'express'), ['debug']);
+      assert.deepStrictEqual(depsOf(graph, 'debug'), ['ms']);
+    });
+
+    it('should return an empty graph for invalid JSON', () => {
+      assert.strictEqual(parsePackageLock('{').dependencies.size, 0);
+    });
+  });
+
+  describe('parseYarnLock', async () => {
+    it('should read classic v1 lockfiles', () => {
+      const graph = parseYarnLock(`# yarn lockfile v1
+
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.22.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.22.0.tgz"
+  dependencies:
+    "@babel/code-frame" "^7.22.0"
+    debug "^4.1.0"
+
+debug@^4.1.0:
+  version "4.3.4"
+  dependencies:
+    ms "2.1.2"
+  optionalDependencies:
+    supports-color "^8"
+`);
+
+      assert.deepStrictEqual(depsOf(graph, '@babel/core'), ['@babel/code-frame', 'debug']);
+      assert.deepStrictEqual(depsOf(graph, 'debug'), ['ms', 'supports-color']);
+      assert.strictEqual(graph.roots.size, 0);
+    });
+
+    it('should read Berry lockfiles and workspace roots', () => {
+      const graph = parseYarnLock(`__metadata:
+  version: 8
+  cacheKey: 10
+
+"@babel/core@npm:^7.0.0":
+  version: 7.22.0
+  resolution: "@babel/core@npm:7.22.0"
+  dependencies:
+    "@babel/code-frame": "npm:^7.22.0"
+    debug: "npm:^4.1.0"
+  peerDependenciesMeta:
+    typescript:
+      optional: true
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  dependencies:
+    "@babel/core": "npm:^7.0.0"
+  languageName: unknown
+  linkType: soft
+`);
+
+      assert.deepStrictEqual(depsOf(graph, '@babel/core'), ['@babel/code-frame', 'debug']);
+      assert.deepStrictEqual([...graph.roots], ['@babel/core']);
+      assert.ok(!graph.dependencies.has('__metadata'));
+    });
+  });
+
+  describe('parsePnpmLock', async () => {
+    it('should read importers and snapshots (v9)', () => {
+      const graph = parsePnpmLock(`lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      react-dom:
+        specifier: ^18.3.1
+        version: 18.3.1(react@18.3.1)
+
+  packages/ui:
+    devDependencies:
+      zod:
+        specifier: ^3.23.8
+        version: 3.23.8
+
+packages:
+
+  react-dom@18.3.1:
+    resolution: {integrity: sha512-abc}
+    peerDependencies:
+      react: ^18.3.1
+
+snapshots:
+
+  react-dom@18.3.1(react@18.3.1):
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.3.1
+      scheduler: 0.23.2
+
+  zod@3.23.8: {}
+`);
+
+      assert.deepStrictEqual([...graph.roots].sort(), ['react-dom', 'zod']);
+      assert.deepStrictEqual(depsOf(graph, 'react-dom'), ['loose-envify', 'react', 'scheduler']);
+      assert.deepStrictEqual(depsOf(graph, 'zod'), []);
+    });
+
+    it('should read single-project v5 lockfiles', () => {
+      const graph = parsePnpmLock(`lockfileVersion: 5.4
+
+specifiers:
+  express: ^4.21.0
+
+dependencies:
+  express: 4.21.0
+
+packages:
+
+  /express/4.21.0:
+    dependencies:
+      debug: 2.6.9
+    dev: false
+`);
+
+      assert.deepStrictEqual([...graph.roots], ['express']);
+      assert.deepStrictEqual(depsOf(graph, 'express'), ['debug']);
+    });
+  });
+
+  describe('readDependencyGraph', async () => {
+    it('should return null without a lockfile', async () => {
+      const tempDir = await createTempDir();
+      try {
+        assert.strictEqual(await readDependencyGraph(tempDir), null);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should prefer pnpm-lock.yaml over package-lock.json', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await writeFile(join(tempDir, 'package-lock.json'), '{"packages":{}}');
+        await writeFile(join(tempDir, 'pnpm-lock.yaml'), "lockfileVersion: '9.0'\n");
+
+        const graph = await readDependencyGraph(tempDir);
+        assert.strictEqual(graph?.lockfile, 'pnpm-lock.yaml');
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('computeDepths', async () => {
+    it('should assign the shortest distance from the roots', () => {
+      const graph: DependencyGraph = {
+        lockfile: 'test',
+        roots: new Set(),
+        dependencies: new Map([
+          ['a', new Set(['b', 'c'])],
+          ['b', new Set(['c', 'd'])],
+          ['d', new Set(['a'])],
+        ]),
+      };
+
+      const depths = computeDepths(graph, ['a']);
+      assert.deepStrictEqual(Object.fromEntries(depths), { a: 0, b: 1, c: 1, d: 2 });
+
+      assert.deepStrictEqual(Object.fromEntries(computeDepths(null, ['x'])), { x: 0 });
+
+      const dependents = getDependents(graph);
+      assert.deepStrictEqual([...(dependents.get('c') ?? [])].sort(), ['a', 'b']);
+    });
+  });
+});
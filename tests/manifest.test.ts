@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import {
+  MANIFEST_FILE,
+  getManifestKey,
+  hashConfig,
+  hashContent,
+  hashSources,
+  readManifest,
+  sameSources,
+  writeManifest,
+} from '../src/manifest.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockPackage,
+  testPackages,
+} from './utils/fixtures.js';
+import type { PackageInfo } from '../src/types.js';
+
+describe('manifest', async () => {
+  describe('hashContent', async () => {
+    it('should produce stable sha256 hashes', () => {
+      assert.strictEqual(hashContent('abc'), hashContent('abc'));
+      assert.notStrictEqual(hashContent('abc'), hashContent('abd'));
+      assert.strictEqual(hashContent('').length, 64);
+    });
+  });
+
+  describe('hashConfig', async () => {
+    it('should change when render options change', () => {
+      assert.strictEqual(hashConfig({ a: 1 }), hashConfig({ a: 1 }));
+      assert.notStrictEqual(hashConfig({ a: 1 }), hashConfig({ a: 2 }));
+    });
+  });
+
+  describe('getManifestKey', async () => {
+    it('should use output-relative paths with forward slashes', () => {
+      const key = getManifestKey('/out', join('/out', '@scope', 'pkg', 'SKILL.md'));
+      assert.strictEqual(key, '@scope/pkg/SKILL.md');
+    });
+  });
+
+  describe('hashSources', async () => {
+    it('should hash package.json and readme relative to the package', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const packagePath = await createMockPackage(tempDir, testPackages.react);
+        const pkg: PackageInfo = {
+          name: 'react',
+          version: '18.3.1',
+          packagePath,
+          docs: { readmePath: join(packagePath, 'README.md') },
+        };
+
+        const before = await hashSources(pkg);
+        assert.deepStrictEqual(Object.keys(before).sort(), ['README.md', 'package.json']);
+
+        await writeFile(join(packagePath, 'README.md'), '# Changed');
+        const after = await hashSources(pkg);
+
+        assert.strictEqual(after['package.json'], before['package.json']);
+        assert.notStrictEqual(after['README.md'], before['README.md']);
+        assert.ok(!sameSources(before, after));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('readManifest / writeManifest', async () => {
+    it('should round-trip a manifest', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const manifest = {
+          version: 1 as const,
+          configHash: 'abc',
+          packages: {
+            'react/SKILL.md': { name: 'react', version: '18.3.1', sources: {}, outputHash: 'x' },
+          },
+        };
+
+        await writeManifest(tempDir, manifest);
+        assert.deepStrictEqual(await readManifest(tempDir), manifest);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should return null for missing or unknown manifests', async () => {
+      const tempDir = await createTempDir();
+      try {
+        assert.strictEqual(await readManifest(tempDir), null);
+
+        await writeFile(join(tempDir, MANIFEST_FILE), JSON.stringify({ version: 99 }));
+        assert.strictEqual(await readManifest(tempDir), null);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
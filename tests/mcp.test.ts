@@ -0,0 +1,204 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import { join } from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import { PassThrough } from 'node:stream';
+import { serveMcp, type JsonRpcMessage } from '../src/mcp.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockWorkspace,
+  testPackages,
+} from './utils/fixtures.js';
+
+const CLI_PATH = join(import.meta.dirname, '..', 'src', 'cli.ts');
+
+/**
+ * Send messages to a server over streams and collect its responses
+ */
+async function runServer(cwd: string, messages: unknown[]): Promise<JsonRpcMessage[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', data => {
+    written += data.toString();
+  });
+
+  const serving = serveMcp({ cwd }, input, output);
+  input.end(messages.map(message => JSON.stringify(message)).join('\n') + '\n');
+  await serving;
+
+  return written
+    .trim()
+    .split('\n')
+    .map(line => JSON.parse(line));
+}
+
+/**
+ * Call a tool and return the text of its result
+ */
+function callTool(id: number, name: string, args: Record<string, unknown>) {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } };
+}
+
+/**
+ * Create a project with express (with a changelog) and a typed package
+ */
+async function createProject(tempDir: string): Promise<void> {
+  await createMockWorkspace({
+    root: tempDir,
+    packages: [
+      testPackages.express,
+      { name: 'clamp', version: '1.0.0', description: 'Clamp numbers', readme: '# clamp' },
+    ],
+  });
+  await writeFile(
+    join(tempDir, 'node_modules/express/CHANGELOG.md'),
+    '# Changelog\n\n## 4.21.0\n\n- added routing\n\n## 4.20.0\n\n- fixed a bug\n\n## 4.19.0\n\n- initial\n'
+  );
+  await writeFile(
+    join(tempDir, 'node_modules/clamp/index.d.ts'),
+    '/**\n * Clamp a number between two bounds\n */\nexport declare function clamp(n: number, min: number, max: number): number;\n'
+  );
+}
+
+describe('mcp', async () => {
+  describe('serveMcp', async () => {
+    it('should initialize and list the tools', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const [init, tools, missing] = await runServer(tempDir, [
+          {
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: {} },
+          },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+          { jsonrpc: '2.0', id: 3, method: 'prompts/list' },
+        ]);
+
+        const result = init.result as { protocolVersion: string; serverInfo: { name: string } };
+        assert.strictEqual(result.protocolVersion, '2025-03-26');
+        assert.strictEqual(result.serverInfo.name, 'v-skills');
+
+        const names = (tools.result as { tools: { name: string }[] }).tools.map(tool => tool.name);
+        assert.deepStrictEqual(names, [
+          'list_packages',
+          'get_skill',
+          'search_docs',
+          'get_api',
+          'get_changelog',
+        ]);
+        assert.strictEqual(missing.id, 3);
+        assert.strictEqual(missing.error?.code, -32601);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should serve documentation from node_modules without a generate run', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createProject(tempDir);
+
+        const responses = await runServer(tempDir, [
+          callTool(1, 'list_packages', {}),
+          callTool(2, 'get_skill', { name: 'express' }),
+          callTool(3, 'search_docs', { query: 'web framework' }),
+          callTool(4, 'get_api', { name: 'clamp', symbol: 'clamp' }),
+          callTool(5, 'get_changelog', { name: 'express', from: '4.19.0' }),
+          callTool(6, 'get_skill', { name: 'left-pad' }),
+        ]);
+        const [list, skill, search, api, changelog, unknown] = responses.map(
+          response => response.result as { content: { text: string }[]; isError?: boolean }
+        );
+
+        assert.ok(list.content[0].text.includes('- clamp@1.0.0: Clamp numbers'));
+        assert.ok(skill.content[0].text.includes('# express'));
+        assert.ok(search.content[0].text.startsWith('1. express@4.21.0'));
+        assert.ok(api.content[0].text.includes('function clamp(n: number'));
+        assert.ok(api.content[0].text.includes('Clamp a number between two bounds'));
+        assert.ok(changelog.content[0].text.includes('- added routing'));
+        assert.ok(changelog.content[0].text.includes('- fixed a bug'));
+        assert.ok(!changelog.content[0].text.includes('- initial'));
+        assert.strictEqual(unknown.isError, true);
+        assert.ok(unknown.content[0].text.includes('"left-pad" is not installed'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should expose each SKILL.md as a resource', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createProject(tempDir);
+
+        const [list, read] = await runServer(tempDir, [
+          { jsonrpc: '2.0', id: 1, method: 'resources/list' },
+          {
+            jsonrpc: '2.0',
+            id: 2,
+            method: 'resources/read',
+            params: { uri: 'v-skills://skills/clamp/SKILL.md' },
+          },
+        ]);
+
+        const resources = (list.result as { resources: { uri: string }[] }).resources;
+        assert.deepStrictEqual(resources.map(resource => resource.uri).sort(), [
+          'v-skills://skills/clamp/SKILL.md',
+          'v-skills://skills/express/SKILL.md',
+        ]);
+        const contents = (read.result as { contents: { text: string }[] }).contents;
+        assert.ok(contents[0].text.includes('# clamp'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should answer malformed messages with a parse error', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        let written = '';
+        output.on('data', data => {
+          written += data.toString();
+        });
+        const serving = serveMcp({ cwd: tempDir }, input, output);
+        input.end('{not json\n');
+        await serving;
+
+        assert.strictEqual(JSON.parse(written).error.code, -32700);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('v-skills mcp', async () => {
+    it('should speak MCP over stdin and stdout', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createProject(tempDir);
+
+        const proc = spawn('node', ['--import', 'tsx', CLI_PATH, 'mcp', '--cwd', tempDir]);
+        let stdout = '';
+        proc.stdout.on('data', data => {
+          stdout += data.toString();
+        });
+        const closed = new Promise(resolve => proc.on('close', resolve));
+        proc.stdin.end(JSON.stringify(callTool(1, 'list_packages', { filter: 'exp' })) + '\n');
+        assert.strictEqual(await closed, 0);
+
+        const response = JSON.parse(stdout);
+        assert.strictEqual(response.id, 1);
+        assert.ok(response.result.content[0].text.startsWith('- express@4.21.0'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import {
+  createZipPackageFiles,
+  findPnpFile,
+  parsePnpRuntimeState,
+  readPnpLocators,
+  traversePnp,
+} from '../src/pnp.js';
+import { openZip } from '../src/zip.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockPnpProject,
+  createZip,
+  testPackages,
+} from './utils/fixtures.js';
+
+describe('pnp', async () => {
+  describe('findPnpFile', async () => {
+    it('should prefer .pnp.data.json over .pnp.cjs', async () => {
+      const tempDir = await createTempDir();
+      try {
+        assert.strictEqual(await findPnpFile(tempDir), null);
+
+        await writeFile(join(tempDir, '.pnp.cjs'), '');
+        assert.strictEqual(await findPnpFile(tempDir), join(tempDir, '.pnp.cjs'));
+
+        await writeFile(join(tempDir, '.pnp.data.json'), '{}');
+        assert.strictEqual(await findPnpFile(tempDir), join(tempDir, '.pnp.data.json'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('parsePnpRuntimeState', async () => {
+    it('should decode the RAW_RUNTIME_STATE string literal', () => {
+      const source = `const RAW_RUNTIME_STATE =\n'{\\\n  "a": "it\\'s",\\\n  "b": [1, 2]\\\n}';\n`;
+      assert.deepStrictEqual(parsePnpRuntimeState(source), { a: "it's", b: [1, 2] });
+    });
+
+    it('should return null without runtime state', () => {
+      assert.strictEqual(parsePnpRuntimeState('module.exports = {};'), null);
+    });
+  });
+
+  describe('readPnpLocators', async () => {
+    it('should list locators sorted, skipping the root and virtual packages', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const state = {
+          packageRegistryData: [
+            [null, [[null, { packageLocation: './' }]]],
+            [
+              'zod',
+              [['npm:3.23.8', { packageLocation: './.yarn/cache/zod.zip/node_modules/zod/' }]],
+            ],
+            [
+              'react',
+              [
+                ['npm:18.3.1', { packageLocation: './.yarn/cache/react.zip/node_modules/react/' }],
+                ['virtual:abc#npm:18.3.1', { packageLocation: './.yarn/__virtual__/react/' }],
+              ],
+            ],
+          ],
+        };
+        const pnpPath = join(tempDir, '.pnp.data.json');
+        await writeFile(pnpPath, JSON.stringify(state));
+
+        const locators = await readPnpLocators(pnpPath);
+        assert.deepStrictEqual(
+          locators.map(l => `${l.name}@${l.reference}`),
+          ['react@npm:18.3.1', 'zod@npm:3.23.8']
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('createZipPackageFiles', async () => {
+    it('should expose a package folder inside an archive', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const zipPath = join(tempDir, 'pkg.zip');
+        await createZip(zipPath, {
+          'node_modules/pkg/package.json': '{}',
+          'node_modules/pkg/README.md': 'line1\nline2\nline3',
+          'node_modules/pkg/dist/index.d.ts': 'export {};',
+          'node_modules/pkg/docs/guide.md': '# Guide',
+          'node_modules/pkg/docs/a/b/c/deep.md': '# Too deep',
+        });
+
+        const zip = await openZip(zipPath);
+        try {
+          const files = createZipPackageFiles(zip, 'node_modules/pkg/', join(zipPath, 'pkg'));
+
+          assert.deepStrictEqual([...files.listing.files].sort(), ['README.md', 'package.json']);
+          assert.deepStrictEqual([...files.listing.dirs].sort(), ['dist', 'docs']);
+          assert.strictEqual(await files.readText('README.md', 2), 'line1\nline2');
+          assert.strictEqual(await files.exists('./dist/index.d.ts'), true);
+          assert.strictEqual(await files.exists('missing.md'), false);
+          assert.deepStrictEqual(await files.scanDocs('docs'), ['guide.md']);
+        } finally {
+          await zip.close();
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('traversePnp', async () => {
+    it('should read packages from zip archives via .pnp.cjs', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockPnpProject(tempDir, [testPackages.zod, testPackages.react]);
+
+        const found = [];
+        for await (const pkg of traversePnp(join(tempDir, '.pnp.cjs'))) {
+          found.push(pkg);
+        }
+
+        assert.deepStrictEqual(
+          found.map(p => `${p.name}@${p.version}`),
+          ['react@18.3.1', 'zod@3.23.8']
+        );
+        assert.ok(found[0].docs.readme?.includes('# React'));
+        assert.ok(found[0].archivePath?.endsWith('.zip'));
+        assert.ok(found[0].packagePath?.startsWith(found[0].archivePath!));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should support .pnp.data.json and include/exclude filters', async () => {
+      const tempDir = await createTempDir();
+      try {
+        await createMockPnpProject(tempDir, [testPackages.zod, testPackages.react], {
+          dataFile: true,
+        });
+
+        const found = [];
+        for await (const pkg of traversePnp(join(tempDir, '.pnp.data.json'), {
+          exclude: ['react'],
+        })) {
+          found.push(pkg.name);
+        }
+
+        assert.deepStrictEqual(found, ['zod']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { mkdir, writeFile } from 'node:fs/promises';
+import {
+  getPnpmVirtualStoreDir,
+  parsePnpmLockPackages,
+  parsePnpmPackageKey,
+  parsePnpmStoreDirName,
+  traversePnpmStore,
+} from '../src/pnpm.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockPnpmPackage,
+  testPackages,
+} from './utils/fixtures.js';
+
+describe('pnpm', async () => {
+  describe('parsePnpmPackageKey', async () => {
+    it('should parse v9 keys', () => {
+      assert.deepStrictEqual(parsePnpmPackageKey('@babel/core@7.22.0'), {
+        name: '@babel/core',
+        version: '7.22.0',
+      });
+      assert.deepStrictEqual(parsePnpmPackageKey('react-dom@18.2.0(react@18.2.0)'), {
+        name: 'react-dom',
+        version: '18.2.0',
+      });
+    });
+
+    it('should parse v6 keys', () => {
+      assert.deepStrictEqual(parsePnpmPackageKey('/lodash@4.17.21'), {
+        name: 'lodash',
+        version: '4.17.21',
+      });
+    });
+
+    it('should parse v5 keys', () => {
+      assert.deepStrictEqual(parsePnpmPackageKey('/lodash.debounce/4.0.8'), {
+        name: 'lodash.debounce',
+        version: '4.0.8',
+      });
+      assert.deepStrictEqual(parsePnpmPackageKey('/@types/node/20.1.0'), {
+        name: '@types/node',
+        version: '20.1.0',
+      });
+      assert.deepStrictEqual(parsePnpmPackageKey('/react-dom/18.2.0_react@18.2.0'), {
+        name: 'react-dom',
+        version: '18.2.0',
+      });
+    });
+
+    it('should return null for unparseable keys', () => {
+      assert.strictEqual(parsePnpmPackageKey('nonsense'), null);
+    });
+  });
+
+  describe('parsePnpmStoreDirName', async () => {
+    it('should parse store folder names', () => {
+      assert.deepStrictEqual(parsePnpmStoreDirName('@babel+core@7.22.0'), {
+        name: '@babel/core',
+        version: '7.22.0',
+      });
+      assert.deepStrictEqual(parsePnpmStoreDirName('react-dom@18.2.0_react@18.2.0'), {
+        name: 'react-dom',
+        version: '18.2.0',
+      });
+      assert.strictEqual(parsePnpmStoreDirName('lock.yaml'), null);
+    });
+  });
+
+  describe('parsePnpmLockPackages', async () => {
+    it('should list packages from a v9 lockfile', () => {
+      const lock = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+
+packages:
+
+  '@babel/core@7.22.0':
+    resolution: {integrity: sha512-abc}
+
+  react@18.2.0:
+    resolution: {integrity: sha512-def}
+
+snapshots:
+
+  '@babel/core@7.22.0': {}
+
+  react@18.2.0:
+    dependencies:
+      loose-envify: 1.4.0
+`;
+      const refs = parsePnpmLockPackages(lock);
+      assert.deepStrictEqual(refs, [
+        { name: '@babel/core', version: '7.22.0' },
+        { name: 'react', version: '18.2.0' },
+      ]);
+    });
+
+    it('should return an empty list for invalid content', () => {
+      assert.deepStrictEqual(parsePnpmLockPackages(''), []);
+    });
+  });
+
+  describe('getPnpmVirtualStoreDir', async () => {
+    it('should honor virtualStoreDir from .modules.yaml', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        await mkdir(join(tempDir, 'store'), { recursive: true });
+        await mkdir(nodeModules, { recursive: true });
+        await writeFile(
+          join(nodeModules, '.modules.yaml'),
+          `layoutVersion: 5\nvirtualStoreDir: ../store\n`
+        );
+
+        assert.strictEqual(await getPnpmVirtualStoreDir(nodeModules), join(tempDir, 'store'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should return null without a store', async () => {
+      const tempDir = await createTempDir();
+      try {
+        assert.strictEqual(await getPnpmVirtualStoreDir(join(tempDir, 'node_modules')), null);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('traversePnpmStore', async () => {
+    it('should find packages in the virtual store with their real versions', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockPnpmPackage(nodeModules, testPackages.react);
+        await createMockPnpmPackage(nodeModules, testPackages.scopedPackage);
+        await createMockPnpmPackage(nodeModules, testPackages.zod, '_typescript@5.0.0');
+
+        const found = [];
+        for await (const pkg of traversePnpmStore(nodeModules)) {
+          found.push(`${pkg.name}@${pkg.version}`);
+        }
+
+        assert.deepStrictEqual(found, ['@company/utils@1.0.0', 'react@18.3.1', 'zod@3.23.8']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should only include packages listed in pnpm-lock.yaml', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockPnpmPackage(nodeModules, testPackages.react);
+        await createMockPnpmPackage(nodeModules, testPackages.zod);
+        await writeFile(
+          join(tempDir, 'pnpm-lock.yaml'),
+          `lockfileVersion: '6.0'\n\npackages:\n\n  /react@18.3.1:\n    dev: false\n`
+        );
+
+        const found = [];
+        for await (const pkg of traversePnpmStore(nodeModules)) {
+          found.push(pkg.name);
+        }
+
+        assert.deepStrictEqual(found, ['react']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should apply include/exclude filters', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockPnpmPackage(nodeModules, testPackages.react);
+        await createMockPnpmPackage(nodeModules, testPackages.zod);
+
+        const found = [];
+        for await (const pkg of traversePnpmStore(nodeModules, { exclude: ['zod'] })) {
+          found.push(pkg.name);
+        }
+
+        assert.deepStrictEqual(found, ['react']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
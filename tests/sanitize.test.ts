@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { sanitizeMarkdown } from '../src/sanitize.js';
+import { splitReadme } from '../src/tokens.js';
+
+describe('sanitize', async () => {
+  describe('sanitizeMarkdown', async () => {
+    it('should remove badge rows and centered logos', () => {
+      const readme = [
+        '<p align="center">',
+        '  <img src="logo.svg" alt="lib logo" width="200">',
+        '</p>',
+        '',
+        '[![npm](https://img.shields.io/npm/v/lib.svg)](https://npmjs.com/package/lib) [![CI](https://ci/badge.svg)](https://ci)',
+        '',
+        '# lib',
+        '',
+        'A small library.',
+      ].join('\n');
+
+      assert.strictEqual(sanitizeMarkdown(readme), '# lib\n\nA small library.');
+    });
+
+    it('should keep a long badge row followed by text, without slowing down', () => {
+      const badge = '[![npm](https://img.shields.io/npm/v/lib.svg)](https://npmjs.com/package/lib)';
+      const rows = [
+        `${Array(30).fill(badge).join('   ')} and more`,
+        `${Array(30).fill('![ci](https://ci/badge.svg)').join(' ')} text`,
+      ];
+
+      const start = performance.now();
+      for (const row of rows) {
+        assert.strictEqual(sanitizeMarkdown(row, { images: false }), row);
+        assert.strictEqual(splitReadme(row)[0].kind, 'usage');
+      }
+      assert.ok(performance.now() - start < 500);
+    });
+
+    it('should convert simple HTML to Markdown', () => {
+      const readme = [
+        '<h2 align="center">Usage</h2>',
+        '',
+        '<!-- comment -->',
+        'Call <code>lib()</code> with <b>care</b>, see <a href="https://lib.dev">the docs</a>.',
+        '',
+        '<details>',
+        '<summary>Advanced</summary>',
+        '',
+        'More options.',
+        '</details>',
+      ].join('\n');
+
+      assert.strictEqual(
+        sanitizeMarkdown(readme),
+        [
+          '## Usage',
+          '',
+          'Call `lib()` with **care**, see [the docs](https://lib.dev).',
+          '',
+          '**Advanced**',
+          '',
+          'More options.',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should replace images with their alt text', () => {
+      const readme = 'Before ![architecture diagram](docs/arch.png) after.\n\n![](shot.png)\n';
+
+      assert.strictEqual(sanitizeMarkdown(readme), 'Before architecture diagram after.\n\n');
+      assert.strictEqual(sanitizeMarkdown(readme, { altText: false }), 'Before  after.\n\n');
+    });
+
+    it('should remove sponsor and contributor sections with their subsections', () => {
+      const readme = [
+        '# lib',
+        '',
+        '## Sponsors',
+        '',
+        '### Gold',
+        '',
+        '<a href="https://sponsor"><img src="sponsor.png"></a>',
+        '',
+        '## API',
+        '',
+        '`lib()`',
+        '',
+        '## Contributors',
+        '',
+        'Thanks to everyone!',
+      ].join('\n');
+
+      assert.strictEqual(sanitizeMarkdown(readme), '# lib\n\n## API\n\n`lib()`\n');
+    });
+
+    it('should leave code blocks and disabled rules alone', () => {
+      const readme = [
+        '```html',
+        '<p align="center"><img src="logo.svg"></p>',
+        '',
+        '',
+        '',
+        '## Sponsors',
+        '```',
+        '',
+        '## Sponsors',
+        '',
+        '<b>Thanks</b>',
+      ].join('\n');
+
+      assert.strictEqual(sanitizeMarkdown(readme, { sponsors: false, html: false }), readme);
+      assert.strictEqual(
+        sanitizeMarkdown(readme),
+        readme.split('\n').slice(0, 7).join('\n') + '\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { mkdir, writeFile } from 'node:fs/promises';
+import {
+  buildSearchIndex,
+  search,
+  searchIndex,
+  tokenize,
+  writeSearchIndex,
+} from '../src/search.js';
+import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
+import type { PackageInfo } from '../src/types.js';
+
+const packages: PackageInfo[] = [
+  {
+    name: 'date-fns',
+    version: '3.6.0',
+    description: 'Modern JavaScript date utility library',
+    keywords: ['date', 'time'],
+    docs: {
+      readme:
+        '# date-fns\n\nA toolset for dates.\n\n## Parsing\n\nUse `parseISO` to parse ISO 8601 strings into dates.\n\n## Formatting\n\nFormat dates with `format`.',
+      apiSurface: [
+        {
+          name: 'parseISO',
+          kind: 'function',
+          signature: 'function parseISO(s: string): Date',
+          source: 'index.d.ts',
+        },
+      ],
+    },
+  },
+  {
+    name: 'express',
+    version: '4.21.0',
+    description: 'Fast, unopinionated, minimalist web framework for node.',
+    docs: { readme: '# Express\n\n## Routing\n\nRoutes match request paths.' },
+  },
+  {
+    name: 'zod',
+    version: '3.22.4',
+    description: 'TypeScript-first schema validation',
+    docs: { readme: '# Zod\n\n## Dates\n\nUse `z.date()` to validate dates.' },
+  },
+];
+
+describe('search', async () => {
+  describe('tokenize', async () => {
+    it('should split identifiers and reduce words to stems', () => {
+      assert.deepStrictEqual(tokenize('parseISO dates'), ['parseiso', 'pars', 'iso', 'dat']);
+      assert.deepStrictEqual(tokenize('Parsing parsed parses'), ['pars', 'pars', 'pars']);
+      assert.deepStrictEqual(tokenize('the classes of a class'), ['class', 'class']);
+    });
+  });
+
+  describe('searchIndex', async () => {
+    it('should rank the sections matching the query first', () => {
+      const index = buildSearchIndex(packages, '/skills');
+      const results = searchIndex(index, 'parsing dates');
+
+      assert.strictEqual(results[0].name, 'date-fns');
+      assert.strictEqual(results[0].section, 'Parsing');
+      assert.strictEqual(results[0].path, 'date-fns/SKILL.md');
+      assert.ok(results[0].snippet.includes('parse ISO 8601 strings'));
+      assert.ok(results.some(result => result.name === 'zod' && result.section === 'Dates'));
+      assert.ok(!results.some(result => result.name === 'express'));
+    });
+
+    it('should match package metadata and API symbol names', () => {
+      const index = buildSearchIndex(packages, '/skills');
+
+      assert.strictEqual(searchIndex(index, 'web framework')[0].section, 'Overview');
+      assert.strictEqual(searchIndex(index, 'parseISO')[0].name, 'date-fns');
+      assert.deepStrictEqual(searchIndex(index, 'kubernetes'), []);
+      assert.deepStrictEqual(searchIndex(index, 'constructor'), []);
+      assert.strictEqual(searchIndex(index, 'dates', 2).length, 2);
+    });
+
+    it('should build the same index whatever the package order', () => {
+      assert.deepStrictEqual(
+        buildSearchIndex([...packages].reverse(), '/skills'),
+        buildSearchIndex(packages, '/skills')
+      );
+    });
+  });
+
+  describe('search', async () => {
+    it('should read the index from the output directory', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const outputDir = join(tempDir, 'skills');
+        await mkdir(outputDir);
+        await writeSearchIndex(packages, outputDir);
+
+        const results = await search('routing', { output: outputDir });
+        assert.strictEqual(results[0].name, 'express');
+
+        await writeFile(join(outputDir, 'search-index.json'), '{"version":0}');
+        await assert.rejects(search('routing', { output: outputDir }), /generate again/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
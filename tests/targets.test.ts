@@ -0,0 +1,211 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { access, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { cleanTargets, writeAgentsMd, writeRuleTarget } from '../src/targets.js';
+import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
+import type { PackageInfo } from '../src/types.js';
+
+const react: PackageInfo = {
+  name: 'react',
+  version: '18.3.1',
+  description: 'React is a JavaScript library for building user interfaces',
+  depth: 0,
+  docs: { readme: '# React\n\nUse `createRoot` to render.' },
+};
+
+describe('targets', async () => {
+  describe('writeRuleTarget', async () => {
+    it('should write Cursor rules with an index that always applies', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const ui: PackageInfo = {
+          name: '@acme/ui',
+          version: '0.1.0',
+          internal: true,
+          packagePath: join(tempDir, 'packages/ui'),
+        };
+
+        const output = await writeRuleTarget('cursor', {
+          cwd: tempDir,
+          packages: [react, ui],
+          renderOptions: {},
+          getLimits: () => undefined,
+        });
+
+        assert.deepStrictEqual(output.files, [
+          '.cursor/rules/v-skills/acme__ui.mdc',
+          '.cursor/rules/v-skills/react.mdc',
+          '.cursor/rules/v-skills/_index.mdc',
+        ]);
+
+        const rule = await readFile(join(tempDir, '.cursor/rules/v-skills/react.mdc'), 'utf-8');
+        assert.ok(
+          rule.startsWith(
+            '---\ndescription: React is a JavaScript library for building user interfaces\nalwaysApply: false\n---\n'
+          )
+        );
+        assert.ok(rule.includes('Use `createRoot` to render.'));
+
+        const internal = await readFile(
+          join(tempDir, '.cursor/rules/v-skills/acme__ui.mdc'),
+          'utf-8'
+        );
+        assert.ok(internal.includes('globs: packages/ui/**\n'));
+
+        const index = await readFile(join(tempDir, '.cursor/rules/v-skills/_index.mdc'), 'utf-8');
+        assert.ok(index.includes('alwaysApply: true'));
+        assert.ok(index.includes('| [react](react.mdc) | 18.3.1 |'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should write Copilot instructions and Windsurf rules with their triggers', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const context = {
+          cwd: tempDir,
+          packages: [react],
+          renderOptions: {},
+          getLimits: () => undefined,
+        };
+        await writeRuleTarget('copilot', context);
+        await writeRuleTarget('windsurf', context);
+
+        const instructions = await readFile(
+          join(tempDir, '.github/instructions/v-skills-react.instructions.md'),
+          'utf-8'
+        );
+        assert.ok(!instructions.includes('applyTo'));
+        const copilotIndex = await readFile(
+          join(tempDir, '.github/instructions/v-skills.instructions.md'),
+          'utf-8'
+        );
+        assert.ok(copilotIndex.includes('applyTo: "**"'));
+
+        const rule = await readFile(join(tempDir, '.windsurf/rules/v-skills-react.md'), 'utf-8');
+        assert.ok(rule.startsWith('---\ntrigger: model_decision\n'));
+        const windsurfIndex = await readFile(join(tempDir, '.windsurf/rules/v-skills.md'), 'utf-8');
+        assert.ok(windsurfIndex.includes('trigger: always_on'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should keep Windsurf rules within its size limit', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const sections = Array.from(
+          { length: 40 },
+          (_, i) => `## Section ${i}\n\n${'Some documentation text. '.repeat(30)}`
+        );
+        const large = { ...react, docs: { readme: `# React\n\n${sections.join('\n\n')}` } };
+
+        await writeRuleTarget('windsurf', {
+          cwd: tempDir,
+          packages: [large],
+          renderOptions: {},
+          getLimits: () => ({ maxTokens: 100000 }),
+        });
+
+        const rule = await readFile(join(tempDir, '.windsurf/rules/v-skills-react.md'));
+        assert.ok(rule.length <= 12000);
+        assert.ok(rule.toString().includes('Truncated to fit the size limit'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should write packages whose names fold the same way to separate files', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const scoped: PackageInfo = { name: '@babel/core', version: '7.26.0', depth: 0 };
+        const unscoped: PackageInfo = { name: 'babel-core', version: '6.26.3', depth: 0 };
+
+        const output = await writeRuleTarget('copilot', {
+          cwd: tempDir,
+          packages: [scoped, unscoped],
+          renderOptions: {},
+          getLimits: () => undefined,
+        });
+
+        assert.deepStrictEqual(output.files.slice(0, 2), [
+          '.github/instructions/v-skills-babel__core.instructions.md',
+          '.github/instructions/v-skills-babel-core.instructions.md',
+        ]);
+        const rule = await readFile(join(tempDir, output.files[1]), 'utf-8');
+        assert.ok(rule.includes('6.26.3'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should remove rules of packages that are gone and leave other files alone', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const dir = join(tempDir, '.github/instructions');
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, 'testing.instructions.md'), '# Our own instructions');
+        const context = { cwd: tempDir, renderOptions: {}, getLimits: () => undefined };
+
+        await writeRuleTarget('copilot', { ...context, packages: [react] });
+        await writeRuleTarget('copilot', { ...context, packages: [] });
+
+        await assert.rejects(access(join(dir, 'v-skills-react.instructions.md')));
+        await access(join(dir, 'v-skills.instructions.md'));
+        await access(join(dir, 'testing.instructions.md'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('writeAgentsMd', async () => {
+    it('should add a section to AGENTS.md and update it in place', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const path = join(tempDir, 'AGENTS.md');
+        await writeFile(path, '# Agents\n\nRun `npm test` before committing.\n');
+        const outputDir = join(tempDir, '.claude/skills/v-skills');
+        const zod: PackageInfo = { name: 'zod', version: '3.22.4', depth: 2 };
+
+        await writeAgentsMd(tempDir, tempDir, outputDir, [react, zod]);
+        let content = await readFile(path, 'utf-8');
+        assert.ok(content.startsWith('# Agents\n\nRun `npm test` before committing.\n\n'));
+        assert.ok(content.includes('- [react](.claude/skills/v-skills/react/SKILL.md) 18.3.1'));
+        assert.ok(!content.includes('[zod]'));
+        assert.ok(content.includes('[_index.md](.claude/skills/v-skills/_index.md)'));
+
+        await writeFile(path, `${content}\n## Notes\n\nKeep this.\n`);
+        await writeAgentsMd(tempDir, tempDir, outputDir, [{ ...react, version: '19.0.0' }]);
+        content = await readFile(path, 'utf-8');
+        assert.strictEqual(content.match(/<!-- v-skills:start -->/g)?.length, 1);
+        assert.ok(content.includes('19.0.0'));
+        assert.ok(content.includes('Keep this.'));
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('cleanTargets', async () => {
+    it('should remove rule files and the AGENTS.md section', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const path = join(tempDir, 'AGENTS.md');
+        await writeFile(path, '# Agents\n');
+        const context = { cwd: tempDir, packages: [react], renderOptions: {} };
+        await writeRuleTarget('cursor', { ...context, getLimits: () => undefined });
+        await writeAgentsMd(tempDir, tempDir, join(tempDir, 'skills'), [react]);
+
+        await cleanTargets(tempDir);
+
+        await assert.rejects(access(join(tempDir, '.cursor/rules/v-skills')));
+        assert.strictEqual(await readFile(path, 'utf-8'), '# Agents\n');
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  applyBudget,
+  classifyHeading,
+  createTruncationMarker,
+  estimateTokens,
+  splitReadme,
+  type SkillSection,
+} from '../src/tokens.js';
+
+describe('tokens', async () => {
+  describe('estimateTokens', async () => {
+    it('should count words, numbers and symbols', () => {
+      assert.strictEqual(estimateTokens(''), 0);
+      assert.strictEqual(estimateTokens('hello world'), 4);
+      assert.strictEqual(estimateTokens('foo(1234);'), 6);
+    });
+
+    it('should grow with the text', () => {
+      const text = 'The quick brown fox jumps over the lazy dog. ';
+      assert.ok(estimateTokens(text.repeat(10)) > estimateTokens(text) * 9);
+    });
+  });
+
+  describe('classifyHeading', async () => {
+    it('should classify README headings', () => {
+      assert.strictEqual(classifyHeading('Installation'), 'usage');
+      assert.strictEqual(classifyHeading('Quick Start'), 'usage');
+      assert.strictEqual(classifyHeading('API Reference'), 'api');
+      assert.strictEqual(classifyHeading('Examples'), 'examples');
+      assert.strictEqual(classifyHeading('Changelog'), 'changelog');
+      assert.strictEqual(classifyHeading('Contributors'), 'badges');
+      assert.strictEqual(classifyHeading('Why?'), 'other');
+    });
+  });
+
+  describe('splitReadme', async () => {
+    it('should split at headings outside code blocks and separate badges', () => {
+      const sections = splitReadme(
+        [
+          '# lib',
+          '[![npm](https://img.shields.io/npm/v/lib.svg)](https://npmjs.com/lib)',
+          'A library.',
+          '## Usage',
+          '```sh',
+          '# not a heading',
+          '```',
+          '## Sponsors',
+          'Thanks!',
+        ].join('\n')
+      );
+
+      assert.deepStrictEqual(
+        sections.map(section => [section.kind, section.content.split('\n')[0]]),
+        [
+          ['usage', '# lib'],
+          ['badges', '[![npm](https://img.shields.io/npm/v/lib.svg)](https://npmjs.com/lib)'],
+          ['usage', 'A library.'],
+          ['usage', '## Usage'],
+          ['badges', '## Sponsors'],
+        ]
+      );
+    });
+  });
+
+  describe('applyBudget', async () => {
+    const sections: SkillSection[] = [
+      { kind: 'metadata', content: '# lib' },
+      { kind: 'usage', content: '## Usage\n\n' + 'Install it with npm.\n'.repeat(20) },
+      {
+        kind: 'changelog',
+        content: '## Changes\n\n' + '- fixed a bug\n'.repeat(20),
+        marker: 'CUT',
+      },
+      { kind: 'metadata', content: '---' },
+    ];
+
+    it('should leave content within the limits untouched', () => {
+      const result = applyBudget(sections, { maxTokens: 10_000 });
+      assert.strictEqual(result.truncated, false);
+      assert.strictEqual(result.content, sections.map(s => s.content).join('\n'));
+    });
+
+    it('should cut lower priority sections first and leave a marker', () => {
+      const result = applyBudget(sections, { maxTokens: 140 });
+
+      assert.strictEqual(result.truncated, true);
+      assert.ok(estimateTokens(result.content) <= 140);
+      assert.ok(result.content.includes('Install it with npm.\n'.repeat(20)));
+      assert.ok(result.content.includes('## Changes'));
+      assert.ok(result.content.includes('CUT'));
+      assert.ok(result.content.endsWith('---'));
+    });
+
+    it('should keep the leading lines of the last section cut', () => {
+      const result = applyBudget(sections, { maxBytes: 300 });
+
+      assert.ok(Buffer.byteLength(result.content) <= 300);
+      assert.ok(result.content.includes('## Usage\n\nInstall it with npm.'));
+      assert.ok(result.content.includes(createTruncationMarker()));
+      assert.ok(!result.content.includes('fixed a bug'));
+    });
+
+    it('should close code blocks left open', () => {
+      const result = applyBudget(
+        [
+          { kind: 'metadata', content: '# lib' },
+          { kind: 'examples', content: '## Example\n\n```js\n' + 'run();\n'.repeat(50) + '```' },
+        ],
+        { maxTokens: 40 }
+      );
+
+      assert.strictEqual(result.content.match(/```/g)?.length, 2);
+    });
+  });
+});
@@ -358,6 +358,159 @@ describe('traverse', async () => {
     });
   });
 
+  describe('documentation discovery', async () => {
+    it('should find changelog, license, docs folder, types and additional docs', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        const pkgPath = await createMockPackage(nodeModules, testPackages.zod);
+        await writeFile(join(pkgPath, 'CHANGELOG.md'), '# Changelog\n\n## 3.23.8');
+        await writeFile(join(pkgPath, 'LICENSE'), 'MIT License');
+        await writeFile(join(pkgPath, 'index.d.ts'), 'export {};');
+        await writeFile(join(pkgPath, 'API.md'), '# API');
+        await mkdir(join(pkgPath, 'docs', 'guides'), { recursive: true });
+        await writeFile(join(pkgPath, 'docs', 'intro.md'), '# Intro');
+        await writeFile(join(pkgPath, 'docs', 'guides', 'setup.md'), '# Setup');
+        await mkdir(join(pkgPath, 'extra'), { recursive: true });
+        await writeFile(join(pkgPath, 'extra', 'NOTES.md'), '# Notes');
+
+        const packages = [];
+        for await (const pkg of traverseNodeModules(nodeModules, {
+          additionalSources: ['extra/NOTES.md', 'MISSING.md'],
+        })) {
+          packages.push(pkg);
+        }
+
+        const { docs } = packages[0];
+        assert.strictEqual(docs.changelogPath, join(pkgPath, 'CHANGELOG.md'));
+        assert.strictEqual(docs.license, 'MIT License');
+        assert.strictEqual(docs.typesPath, join(pkgPath, 'index.d.ts'));
+        assert.strictEqual(docs.docsPath, join(pkgPath, 'docs'));
+        assert.deepStrictEqual([...(docs.docFiles ?? [])].sort(), ['guides/setup.md', 'intro.md']);
+        assert.deepStrictEqual(
+          docs.additionalDocs?.map(d => d.name),
+          ['API.md', 'extra/NOTES.md']
+        );
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should extract the API surface from type definitions', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        const pkgPath = await createMockPackage(nodeModules, testPackages.zod);
+        await writeFile(
+          join(pkgPath, 'index.d.ts'),
+          '/** Parse a value */\nexport declare function parse(value: unknown): string;\n'
+        );
+
+        const packages = [];
+        for await (const pkg of traverseNodeModules(nodeModules)) {
+          packages.push(pkg);
+        }
+
+        assert.deepStrictEqual(packages[0].docs.apiSurface, [
+          {
+            name: 'parse',
+            kind: 'function',
+            signature: 'function parse(value: unknown): string',
+            description: 'Parse a value',
+            deprecated: undefined,
+            source: 'index.d.ts',
+          },
+        ]);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should resolve types and entry points through exports', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        const pkgPath = await createMockPackage(nodeModules, testPackages.zod);
+        await writeFile(
+          join(pkgPath, 'package.json'),
+          JSON.stringify({
+            name: 'zod',
+            version: '3.23.8',
+            exports: {
+              '.': { import: { types: './dist/index.d.mts' } },
+              './mini': { require: './dist/mini.cjs' },
+            },
+          })
+        );
+        await mkdir(join(pkgPath, 'dist'), { recursive: true });
+        await writeFile(join(pkgPath, 'dist', 'index.d.mts'), 'export {};');
+        await writeFile(join(pkgPath, 'dist', 'mini.d.cts'), 'export {};');
+
+        const packages = [];
+        for await (const pkg of traverseNodeModules(nodeModules)) {
+          packages.push(pkg);
+        }
+
+        const { docs } = packages[0];
+        assert.strictEqual(docs.typesPath, join(pkgPath, 'dist', 'index.d.mts'));
+        assert.deepStrictEqual(docs.entryPoints, [
+          { subpath: '.', typesPath: join(pkgPath, 'dist', 'index.d.mts') },
+          { subpath: './mini', typesPath: join(pkgPath, 'dist', 'mini.d.cts') },
+        ]);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should find types from @types packages', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        await createMockPackage(nodeModules, testPackages.express);
+        const typesPath = await createMockPackage(nodeModules, {
+          name: '@types/express',
+          version: '4.17.21',
+        });
+        await writeFile(join(typesPath, 'index.d.ts'), 'export {};');
+
+        let express;
+        for await (const pkg of traverseNodeModules(nodeModules)) {
+          if (pkg.name === 'express') express = pkg;
+        }
+
+        assert.ok(express);
+        assert.strictEqual(express.docs.typesPath, join(typesPath, 'index.d.ts'));
+        assert.strictEqual(express.docs.typesFromDefinitelyTyped, true);
+        assert.strictEqual(express.docs.apiSurface, undefined);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
+  describe('concurrency', async () => {
+    it('should yield packages sorted by name regardless of concurrency', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const nodeModules = join(tempDir, 'node_modules');
+        const names = ['zeta', 'alpha', '@scope/mid', 'beta', 'omega', 'delta'];
+        for (const name of names) {
+          await createMockPackage(nodeModules, { name, version: '1.0.0', description: name });
+        }
+
+        for (const concurrency of [1, 3, 32]) {
+          const found: string[] = [];
+          for await (const pkg of traverseNodeModules(nodeModules, { concurrency })) {
+            found.push(pkg.name);
+          }
+          assert.deepStrictEqual(found, ['@scope/mid', 'alpha', 'beta', 'delta', 'omega', 'zeta']);
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
   describe('getDirectDependencies', async () => {
     it('should return direct dependencies from package.json', async () => {
       const tempDir = await createTempDir();
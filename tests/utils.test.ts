@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { compareStrings, compareVersions, mapConcurrent } from '../src/utils.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('utils', async () => {
+  describe('mapConcurrent', async () => {
+    it('should yield results in input order', async () => {
+      const results: number[] = [];
+      for await (const value of mapConcurrent([30, 5, 20, 1], 4, async ms => {
+        await delay(ms);
+        return ms;
+      })) {
+        results.push(value);
+      }
+      assert.deepStrictEqual(results, [30, 5, 20, 1]);
+    });
+
+    it('should never exceed the concurrency limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const items = Array.from({ length: 20 }, (_, i) => i);
+
+      for await (const _ of mapConcurrent(items, 3, async i => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(i % 4);
+        inFlight--;
+        return i;
+      })) {
+        // consume
+      }
+
+      assert.strictEqual(maxInFlight, 3);
+    });
+
+    it('should handle empty input', async () => {
+      const results = [];
+      for await (const value of mapConcurrent([], 4, async x => x)) {
+        results.push(value);
+      }
+      assert.deepStrictEqual(results, []);
+    });
+  });
+
+  describe('compareStrings', async () => {
+    it('should order by code unit, whatever the locale', () => {
+      const names = ['react-dom', 'React', '@types/react', 'react', '_private', 'react.js'];
+      assert.deepStrictEqual(names.sort(compareStrings), [
+        '@types/react',
+        'React',
+        '_private',
+        'react',
+        'react-dom',
+        'react.js',
+      ]);
+    });
+  });
+
+  describe('compareVersions', async () => {
+    it('should order versions numerically', () => {
+      const versions = ['10.0.0', '2.0.0', '2.10.0', '2.9.1', '1.0.0'];
+      assert.deepStrictEqual(versions.sort(compareVersions), [
+        '1.0.0',
+        '2.0.0',
+        '2.9.1',
+        '2.10.0',
+        '10.0.0',
+      ]);
+    });
+
+    it('should sort prereleases before their release', () => {
+      const versions = ['1.0.0', '1.0.0-rc.1', '1.0.0-beta.11', '1.0.0-beta.2', '1.0.0-alpha'];
+      assert.deepStrictEqual(versions.sort(compareVersions), [
+        '1.0.0-alpha',
+        '1.0.0-beta.2',
+        '1.0.0-beta.11',
+        '1.0.0-rc.1',
+        '1.0.0',
+      ]);
+    });
+
+    it('should ignore build metadata', () => {
+      assert.strictEqual(compareVersions('1.2.3+build.5', '1.2.3'), 0);
+    });
+
+    it('should compare versions that are not semver by code unit', () => {
+      assert.ok(compareVersions('latest', 'Next') > 0);
+    });
+  });
+});
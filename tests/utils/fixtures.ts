@@ -2,6 +2,7 @@ import { mkdir, writeFile, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { randomBytes } from 'node:crypto';
+import { deflateRawSync } from 'node:zlib';
 
 interface MockPackage {
   name: string;
@@ -80,6 +81,150 @@ export async function createMockPackage(
   return packagePath;
 }
 
+/**
+ * Creates a mock package inside pnpm's virtual store
+ * (node_modules/.pnpm/<name>@<version>/node_modules/<name>)
+ */
+export async function createMockPnpmPackage(
+  nodeModulesPath: string,
+  pkg: MockPackage,
+  peerSuffix = ''
+): Promise<string> {
+  const storeDirName = `${pkg.name.replace('/', '+')}@${pkg.version}${peerSuffix}`;
+  return createMockPackage(join(nodeModulesPath, '.pnpm', storeDirName, 'node_modules'), pkg);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes a zip archive containing the given files
+ */
+export async function createZip(
+  zipPath: string,
+  files: Record<string, string>,
+  options: { deflate?: boolean } = {}
+): Promise<void> {
+  const { deflate = true } = options;
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, 'utf-8');
+    const raw = Buffer.from(content, 'utf-8');
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const method = deflate ? 8 : 0;
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  await mkdir(join(zipPath, '..'), { recursive: true });
+  await writeFile(zipPath, Buffer.concat([...localParts, centralDirectory, eocd]));
+}
+
+/**
+ * Creates a mock Yarn Plug'n'Play project: packages are zipped into
+ * .yarn/cache and registered in .pnp.cjs (or .pnp.data.json)
+ */
+export async function createMockPnpProject(
+  root: string,
+  packages: MockPackage[],
+  options: { dataFile?: boolean; directDeps?: string[] } = {}
+): Promise<void> {
+  const registry: unknown[] = [
+    [null, [[null, { packageLocation: './', packageDependencies: [], linkType: 'SOFT' }]]],
+  ];
+
+  for (const pkg of packages) {
+    const zipName = `${pkg.name.replace('/', '-')}-npm-${pkg.version}-abc123.zip`;
+    const prefix = `node_modules/${pkg.name}/`;
+    const files: Record<string, string> = {
+      [`${prefix}package.json`]: JSON.stringify({
+        name: pkg.name,
+        version: pkg.version,
+        description: pkg.description,
+        homepage: pkg.homepage,
+        keywords: pkg.keywords,
+      }),
+    };
+    if (pkg.readme) files[`${prefix}README.md`] = pkg.readme;
+
+    await createZip(join(root, '.yarn', 'cache', zipName), files);
+    registry.push([
+      pkg.name,
+      [
+        [
+          `npm:${pkg.version}`,
+          {
+            packageLocation: `./.yarn/cache/${zipName}/${prefix}`,
+            packageDependencies: [],
+            linkType: 'HARD',
+          },
+        ],
+      ],
+    ]);
+  }
+
+  const state = { __info: ['generated for tests'], packageRegistryData: registry };
+  const deps = Object.fromEntries((options.directDeps ?? []).map(d => [d, '*']));
+  await writeFile(
+    join(root, 'package.json'),
+    JSON.stringify({ name: 'pnp-project', version: '1.0.0', dependencies: deps })
+  );
+
+  if (options.dataFile) {
+    await writeFile(join(root, '.pnp.data.json'), JSON.stringify(state));
+  } else {
+    // Mimic Yarn's layout: a single-quoted string with line continuations
+    const literal = JSON.stringify(state, null, 2).replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const body = literal.split('\n').join('\\\n');
+    await writeFile(
+      join(root, '.pnp.cjs'),
+      `#!/usr/bin/env node\n/* eslint-disable */\n"use strict";\n\nconst RAW_RUNTIME_STATE =\n'${body}';\n\nfunction $$SETUP_STATE() {}\n`
+    );
+  }
+}
+
 /**
  * Creates a complete mock workspace with node_modules
  */
@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { rm, writeFile } from 'node:fs/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { watch, type WatchUpdate } from '../src/watch.js';
+import {
+  createTempDir,
+  cleanupTempDir,
+  createMockPackage,
+  createMockWorkspace,
+  testPackages,
+} from './utils/fixtures.js';
+
+/**
+ * Collect watch updates, with a way to wait for the next one
+ */
+function collectUpdates() {
+  const updates: WatchUpdate[] = [];
+  let waiting: ((update: WatchUpdate) => void) | undefined;
+  return {
+    updates,
+    onGenerate: (update: WatchUpdate) => {
+      updates.push(update);
+      waiting?.(update);
+      waiting = undefined;
+    },
+    next: () =>
+      new Promise<WatchUpdate>((resolve, reject) => {
+        waiting = resolve;
+        setTimeout(() => reject(new Error('No generation within 5s')), 5000).unref();
+      }),
+  };
+}
+
+describe('watch', async () => {
+  it('should generate, then rewrite only the skills of changed packages', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+      const { updates, onGenerate, next } = collectUpdates();
+
+      const watcher = await watch({ cwd: tempDir, debounce: 50, onGenerate });
+      try {
+        assert.strictEqual(updates.length, 1);
+        assert.deepStrictEqual(updates[0].changed, []);
+        assert.deepStrictEqual(updates[0].updated, ['react@18.3.1']);
+        assert.ok(watcher.paths.includes(join(tempDir, 'node_modules')));
+
+        const installed = next();
+        await createMockPackage(join(tempDir, 'node_modules'), testPackages.express);
+        let update = await installed;
+        assert.deepStrictEqual(update.changed, ['node_modules/express']);
+        assert.deepStrictEqual(update.updated, ['express@4.21.0']);
+        assert.strictEqual(update.result.changes.unchanged, 1);
+
+        const uninstalled = next();
+        await rm(join(tempDir, 'node_modules/react'), { recursive: true });
+        update = await uninstalled;
+        assert.deepStrictEqual(update.updated, []);
+        assert.deepStrictEqual(update.removed, ['react@18.3.1']);
+      } finally {
+        await watcher.close();
+      }
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should generate once for a burst of changes and ignore unchanged lockfiles', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+      const lockfile = join(tempDir, 'package-lock.json');
+      await writeFile(lockfile, '{"lockfileVersion":3,"packages":{}}');
+      const { updates, onGenerate, next } = collectUpdates();
+
+      const watcher = await watch({ cwd: tempDir, debounce: 100, onGenerate });
+      try {
+        // Rewritten with the same content, as package managers do during installs
+        await writeFile(lockfile, '{"lockfileVersion":3,"packages":{}}');
+        await sleep(400);
+        assert.strictEqual(updates.length, 1);
+
+        const burst = next();
+        await writeFile(lockfile, '{"lockfileVersion":3,"packages":{"":{}}}');
+        await createMockPackage(join(tempDir, 'node_modules'), testPackages.zod);
+        await createMockPackage(join(tempDir, 'node_modules'), testPackages.express);
+        const update = await burst;
+        await sleep(300);
+
+        assert.strictEqual(updates.length, 2);
+        assert.deepStrictEqual(update.changed, [
+          'node_modules/express',
+          'node_modules/zod',
+          'package-lock.json',
+        ]);
+        assert.deepStrictEqual(update.updated, ['express@4.21.0', 'zod@3.23.8']);
+      } finally {
+        await watcher.close();
+      }
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should notice packages installed in a scope folder', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.scopedPackage] });
+      const { onGenerate, next } = collectUpdates();
+
+      const watcher = await watch({ cwd: tempDir, debounce: 50, onGenerate });
+      try {
+        assert.ok(watcher.paths.includes(join(tempDir, 'node_modules/@company')));
+
+        const installed = next();
+        await createMockPackage(join(tempDir, 'node_modules'), {
+          ...testPackages.scopedPackage,
+          name: '@company/logger',
+        });
+        const update = await installed;
+        assert.deepStrictEqual(update.changed, ['node_modules/@company/logger']);
+        assert.deepStrictEqual(update.updated, ['@company/logger@1.0.0']);
+      } finally {
+        await watcher.close();
+      }
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should keep watching when a callback throws', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+      const errors: unknown[] = [];
+      const { updates, onGenerate, next } = collectUpdates();
+
+      const watcher = await watch({
+        cwd: tempDir,
+        debounce: 50,
+        onGenerate: update => {
+          onGenerate(update);
+          throw new Error('callback failed');
+        },
+        onError: error => errors.push(error),
+      });
+      try {
+        const installed = next();
+        await createMockPackage(join(tempDir, 'node_modules'), testPackages.express);
+        await installed;
+
+        assert.strictEqual(updates.length, 2);
+        assert.strictEqual(errors.length, 2);
+        assert.match(String(errors[0]), /callback failed/);
+      } finally {
+        await watcher.close();
+      }
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+
+  it('should stop generating once closed', async () => {
+    const tempDir = await createTempDir();
+    try {
+      await createMockWorkspace({ root: tempDir, packages: [testPackages.react] });
+      const { updates, onGenerate } = collectUpdates();
+
+      const watcher = await watch({ cwd: tempDir, debounce: 50, onGenerate });
+      await watcher.close();
+      assert.deepStrictEqual(watcher.paths, []);
+
+      await createMockPackage(join(tempDir, 'node_modules'), testPackages.express);
+      await sleep(200);
+      assert.strictEqual(updates.length, 1);
+    } finally {
+      await cleanupTempDir(tempDir);
+    }
+  });
+});
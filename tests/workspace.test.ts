@@ -2,7 +2,7 @@ import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { detectWorkspace, getNodeModulesPaths } from '../src/workspace.js';
+import { detectWorkspace, getNodeModulesPaths, getWorkspaceUsage } from '../src/workspace.js';
 import { createTempDir, cleanupTempDir } from './utils/fixtures.js';
 
 describe('workspace detection', async () => {
@@ -179,6 +179,44 @@ describe('workspace detection', async () => {
     });
   });
 
+  describe('getWorkspaceUsage', async () => {
+    it('should resolve each workspace dependency to its installed version', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const writePackage = async (dir: string, pkg: Record<string, unknown>) => {
+          await mkdir(dir, { recursive: true });
+          await writeFile(join(dir, 'package.json'), JSON.stringify(pkg));
+        };
+        await writePackage(tempDir, { name: 'root', dependencies: { lodash: '*' } });
+        await writePackage(join(tempDir, 'packages/app-a'), {
+          name: 'app-a',
+          dependencies: { 'react-router': '^5' },
+        });
+        await writePackage(join(tempDir, 'packages/app-b'), {
+          name: 'app-b',
+          devDependencies: { 'react-router': '^6', lodash: '*' },
+        });
+        await writePackage(join(tempDir, 'node_modules/lodash'), { version: '4.17.21' });
+        await writePackage(join(tempDir, 'node_modules/react-router'), { version: '6.22.0' });
+        await writePackage(join(tempDir, 'packages/app-a/node_modules/react-router'), {
+          version: '5.3.4',
+        });
+
+        const usage = await getWorkspaceUsage({
+          root: tempDir,
+          packages: ['packages/*'],
+          type: 'npm',
+        });
+
+        assert.deepStrictEqual(usage.get('react-router@5.3.4'), ['app-a']);
+        assert.deepStrictEqual(usage.get('react-router@6.22.0'), ['app-b']);
+        assert.deepStrictEqual(usage.get('lodash@4.17.21'), ['root', 'app-b']);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+
   describe('getNodeModulesPaths', async () => {
     it('should return root node_modules for single project', async () => {
       const tempDir = await createTempDir();
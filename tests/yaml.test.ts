@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { formatYamlScalar, parseYamlDocument, stringifyFrontmatter } from '../src/yaml.js';
+
+describe('yaml', async () => {
+  describe('formatYamlScalar', async () => {
+    it('should leave simple strings unquoted', () => {
+      assert.strictEqual(formatYamlScalar('react'), 'react');
+      assert.strictEqual(formatYamlScalar('https://react.dev/'), 'https://react.dev/');
+    });
+
+    it('should quote strings containing ": " or " #"', () => {
+      assert.strictEqual(formatYamlScalar('Note: important'), '"Note: important"');
+      assert.strictEqual(formatYamlScalar('a #comment'), '"a #comment"');
+    });
+
+    it('should quote strings that would parse as other types', () => {
+      assert.strictEqual(formatYamlScalar('18.3.1'), '"18.3.1"');
+      assert.strictEqual(formatYamlScalar('true'), '"true"');
+      assert.strictEqual(formatYamlScalar('null'), '"null"');
+    });
+
+    it('should quote strings starting with indicator characters', () => {
+      assert.strictEqual(formatYamlScalar('@scope/pkg'), '"@scope/pkg"');
+      assert.strictEqual(formatYamlScalar('- item'), '"- item"');
+      assert.strictEqual(formatYamlScalar('*alias'), '"*alias"');
+    });
+
+    it('should escape quotes and newlines', () => {
+      const formatted = formatYamlScalar('Say "hi"\nthen leave');
+      assert.strictEqual(formatted, '"Say \\"hi\\"\\nthen leave"');
+      assert.strictEqual(JSON.parse(formatted), 'Say "hi"\nthen leave');
+    });
+
+    it('should format numbers and booleans', () => {
+      assert.strictEqual(formatYamlScalar(42), '42');
+      assert.strictEqual(formatYamlScalar(false), 'false');
+    });
+  });
+
+  describe('stringifyFrontmatter', async () => {
+    it('should wrap fields in --- delimiters', () => {
+      const yaml = stringifyFrontmatter({ name: 'react', version: '18.3.1' });
+      assert.strictEqual(yaml, '---\nname: react\nversion: "18.3.1"\n---');
+    });
+
+    it('should render arrays as block sequences', () => {
+      const yaml = stringifyFrontmatter({ keywords: ['ui', 'react: hooks'] });
+      assert.strictEqual(yaml, '---\nkeywords:\n  - ui\n  - "react: hooks"\n---');
+    });
+
+    it('should omit empty values', () => {
+      const yaml = stringifyFrontmatter({ name: 'a', homepage: undefined, keywords: [] });
+      assert.strictEqual(yaml, '---\nname: a\n---');
+    });
+  });
+
+  describe('parseYamlDocument', async () => {
+    it('should parse nested mappings and quoted keys', () => {
+      const doc = parseYamlDocument(`# comment
+root:
+  '@scope/pkg@1.0.0':
+    version: 1.0.0
+  "quoted": 'it''s'
+other: true
+`);
+      assert.deepStrictEqual(doc, {
+        root: { '@scope/pkg@1.0.0': { version: '1.0.0' }, quoted: "it's" },
+        other: true,
+      });
+    });
+
+    it('should parse sequences of scalars and mappings', () => {
+      const doc = parseYamlDocument(`list:
+  - a
+  - "b"
+maps:
+- name: x
+  version: 1
+- name: y
+empty: []
+`);
+      assert.deepStrictEqual(doc, {
+        list: ['a', 'b'],
+        maps: [{ name: 'x', version: '1' }, { name: 'y' }],
+        empty: [],
+      });
+    });
+
+    it('should keep flow collections and block scalars as strings', () => {
+      const doc = parseYamlDocument(`resolution: {integrity: sha512-abc}
+text: |
+  line one
+  line two
+`);
+      assert.deepStrictEqual(doc, {
+        resolution: '{integrity: sha512-abc}',
+        text: 'line one\nline two',
+      });
+    });
+
+    it('should return null for empty documents', () => {
+      assert.strictEqual(parseYamlDocument('# nothing\n'), null);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join } from 'node:path';
+import { writeFile } from 'node:fs/promises';
+import { openZip } from '../src/zip.js';
+import { createTempDir, cleanupTempDir, createZip } from './utils/fixtures.js';
+
+describe('zip', async () => {
+  describe('openZip', async () => {
+    it('should list and read deflated entries', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const zipPath = join(tempDir, 'test.zip');
+        await createZip(zipPath, {
+          'node_modules/a/package.json': '{"name":"a"}',
+          'node_modules/a/README.md': '# A\n'.repeat(100),
+        });
+
+        const zip = await openZip(zipPath);
+        try {
+          assert.deepStrictEqual(
+            [...zip.entries.keys()],
+            ['node_modules/a/package.json', 'node_modules/a/README.md']
+          );
+          const readme = await zip.readFile('node_modules/a/README.md');
+          assert.strictEqual(readme?.toString('utf-8'), '# A\n'.repeat(100));
+        } finally {
+          await zip.close();
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should read stored entries', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const zipPath = join(tempDir, 'stored.zip');
+        await createZip(zipPath, { 'file.txt': 'plain' }, { deflate: false });
+
+        const zip = await openZip(zipPath);
+        try {
+          assert.strictEqual((await zip.readFile('file.txt'))?.toString('utf-8'), 'plain');
+        } finally {
+          await zip.close();
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should return null for missing entries', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const zipPath = join(tempDir, 'test.zip');
+        await createZip(zipPath, { 'a.txt': 'a' });
+
+        const zip = await openZip(zipPath);
+        try {
+          assert.strictEqual(await zip.readFile('missing.txt'), null);
+        } finally {
+          await zip.close();
+        }
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+
+    it('should reject files that are not zip archives', async () => {
+      const tempDir = await createTempDir();
+      try {
+        const filePath = join(tempDir, 'not.zip');
+        await writeFile(filePath, 'definitely not a zip file');
+
+        await assert.rejects(() => openZip(filePath), /Not a zip archive/);
+      } finally {
+        await cleanupTempDir(tempDir);
+      }
+    });
+  });
+});